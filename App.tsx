@@ -1,18 +1,115 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { FileData, ChatMessage as ChatMessageType } from './types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { AuthUser, hasRole, FileData, ChatMessage as ChatMessageType, ChatThread, Citation, ViewerTarget, Workspace, ProviderInfo, ModelSelection, TokenUsage, UsageRecord, CountTokensResponse, PromptTemplate, BatchRun, ExtractionTable } from './types';
 import FileUpload from './components/FileUpload';
 import ChatMessage from './components/ChatMessage';
-import { askQuestionAboutFiles } from './services/geminiService';
+import PdfViewer from './components/PdfViewer';
+import MentionInput from './components/MentionInput';
+import ExportDialog from './components/ExportDialog';
+import ModelSelector from './components/ModelSelector';
+import DocumentPreview from './components/DocumentPreview';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
+import ContextSummaryNotice from './components/ContextSummaryNotice';
+import UsagePanel from './components/UsagePanel';
+import TemplateLibrary from './components/TemplateLibrary';
+import TemplateVariablesDialog from './components/TemplateVariablesDialog';
+import SystemInstructionDialog from './components/SystemInstructionDialog';
+import AuditLogDialog from './components/AuditLogDialog';
+import LibraryDialog from './components/LibraryDialog';
+import BatchPanel from './components/BatchPanel';
+import ExtractionPanel from './components/ExtractionPanel';
+import CompareView from './components/CompareView';
+import { streamQuestionAboutFiles, fetchProviders, countQuestionTokens } from './services/geminiService';
+import { formatCost } from './services/usage';
+import { AskError, MAX_ATTEMPTS, toAskError } from './services/errors';
+import { DEFAULT_TEMPLATES, getTemplateVariables } from './services/templates';
+import { getBranchSummary, prepareHistory, PreparedHistory } from './services/conversation';
+import { appendMessage, findLatestLeaf, getBranch, getSiblings, updateMessage } from './services/messageTree';
+import { getFormatInfo } from './services/ingestion';
+import { resolveScope } from './services/scope';
+import { documentIdOf } from './services/versions';
+import { ROLE_LABELS } from './services/auth';
+import { buildExportData, exportConversation, ExportFormat } from './services/export';
+import {
+  loadSession,
+  loadFiles,
+  saveFiles,
+  pruneFiles,
+  saveWorkspaces,
+  clearAllLocalData,
+  loadUsage,
+  appendUsage,
+  loadTemplates,
+  saveTemplates,
+  getStorageEstimate,
+  openUserStorage,
+  StorageEstimate,
+  StorageQuotaError
+} from './services/storage';
+import {
+  createWorkspace,
+  createThread,
+  duplicateWorkspace,
+  getActiveThread,
+  getModelSelection,
+  titleFromQuestion,
+  DEFAULT_THREAD_TITLE
+} from './services/workspaces';
 
-const App: React.FC = () => {
+const DEFAULT_WORKSPACE_NAME = 'My Workspace';
+
+interface AppProps {
+  user: AuthUser;
+  onSignOut: () => void;
+}
+
+const App: React.FC<AppProps> = ({ user, onSignOut }) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState('');
   const [files, setFiles] = useState<FileData[]>([]);
-  const [history, setHistory] = useState<ChatMessageType[]>([]);
+  const [versionFiles, setVersionFiles] = useState<FileData[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [loadingStep, setLoadingStep] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [viewerTarget, setViewerTarget] = useState<ViewerTarget | null>(null);
+  const [isRestored, setIsRestored] = useState(false);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isSelectingMessages, setIsSelectingMessages] = useState(false);
+  const [selectedMessages, setSelectedMessages] = useState<number[]>([]);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [defaultProviderId, setDefaultProviderId] = useState('');
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isAuditOpen, setIsAuditOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<PromptTemplate[]>(DEFAULT_TEMPLATES);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [pendingTemplate, setPendingTemplate] = useState<PromptTemplate | null>(null);
+  const [isInstructionsOpen, setIsInstructionsOpen] = useState(false);
+  const [mainView, setMainView] = useState<'chat' | 'batch' | 'extraction' | 'compare'>('chat');
+  const [compareFileIds, setCompareFileIds] = useState<string[]>([]);
+  const [tokenEstimate, setTokenEstimate] = useState<CountTokensResponse | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const activeWorkspace = workspaces.find(ws => ws.id === activeWorkspaceId);
+  const activeThread = activeWorkspace ? getActiveThread(activeWorkspace) : undefined;
+  const history = useMemo(() => activeThread ? getBranch(activeThread) : [], [activeThread]);
+  const branchSummary = getBranchSummary(history, activeThread?.summary);
+  const selectedFileIds = activeWorkspace?.selectedFileIds ?? [];
+  const modelSelection = getModelSelection(activeWorkspace, providers, defaultProviderId);
+  const isStreaming = history.length > 0 && !!history[history.length - 1].isStreaming;
+  const viewerFile = viewerTarget
+    ? viewerTarget.fileId
+      ? [...files, ...versionFiles].find(file => file.id === viewerTarget.fileId)
+      : files.find(file => file.name === viewerTarget.fileName)
+    : undefined;
+  // Any stored version can be compared, not only the ones in use
+  const compareFiles = compareFileIds.flatMap(id => [...files, ...versionFiles].filter(file => file.id === id));
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -22,6 +119,204 @@ const App: React.FC = () => {
     scrollToBottom();
   }, [history, isLoading]);
 
+  // Restore the previous session before anything is written back
+  useEffect(() => {
+    openUserStorage(user.id);
+    loadSession()
+      .then((session) => {
+        setWorkspaces(session.workspaces);
+        setActiveWorkspaceId(session.activeWorkspaceId);
+      })
+      .catch((err) => {
+        console.error("Storage restore error:", err);
+        setStorageWarning("The previous session could not be restored from this browser.");
+        const workspace = createWorkspace(DEFAULT_WORKSPACE_NAME);
+        setWorkspaces([workspace]);
+        setActiveWorkspaceId(workspace.id);
+      })
+      .finally(() => setIsRestored(true));
+    loadUsage()
+      .then(setUsageRecords)
+      .catch((err) => console.error("Usage log restore error:", err));
+    loadTemplates()
+      .then((stored) => {
+        if (stored) setTemplates(stored);
+      })
+      .catch((err) => console.error("Template restore error:", err));
+  }, []);
+
+  useEffect(() => {
+    fetchProviders()
+      .then((result) => {
+        setProviders(result.providers);
+        setDefaultProviderId(result.defaultProvider);
+      })
+      .catch((err) => console.error("Provider list error:", err));
+  }, []);
+
+  const handleStorageError = (err: unknown) => {
+    console.error("Storage error:", err);
+    setStorageWarning(err instanceof StorageQuotaError ? err.message : "Changes could not be saved in this browser.");
+  };
+
+  const refreshStorageEstimate = () => getStorageEstimate().then(setStorageEstimate);
+
+  // Each workspace keeps its own documents, so they are reloaded whenever the active one changes
+  useEffect(() => {
+    if (!isRestored || !activeWorkspace) return;
+    let cancelled = false;
+    setFiles([]);
+    setVersionFiles([]);
+    Promise.all([loadFiles(activeWorkspace.fileIds), loadFiles(activeWorkspace.inactiveFileIds ?? [])])
+      .then(([loaded, versions]) => {
+        if (cancelled) return;
+        setFiles(loaded);
+        setVersionFiles(versions);
+      })
+      .catch(handleStorageError);
+    refreshStorageEstimate().catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [activeWorkspaceId, isRestored]);
+
+  // Streaming updates are skipped; the finished answer is saved once the request settles
+  useEffect(() => {
+    if (!isRestored || isLoading || !activeWorkspaceId) return;
+    saveWorkspaces(workspaces, activeWorkspaceId).catch(handleStorageError);
+  }, [workspaces, activeWorkspaceId, isLoading, isRestored]);
+
+  const recordUsage = (kind: UsageRecord['kind'], usage: TokenUsage, workspace: Workspace, documents: FileData[]) => {
+    const record: UsageRecord = {
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      kind,
+      workspaceId: workspace.id,
+      workspaceName: workspace.name,
+      provider: modelSelection?.provider ?? defaultProviderId,
+      model: modelSelection?.model ?? '',
+      documents: documents.map(file => file.name),
+      usage
+    };
+    setUsageRecords(prev => [...prev, record]);
+    appendUsage(record).catch(handleStorageError);
+  };
+
+  const updateWorkspace = (workspaceId: string, updater: (workspace: Workspace) => Workspace) => {
+    setWorkspaces(prev => prev.map(ws => ws.id === workspaceId ? updater(ws) : ws));
+  };
+
+  const updateThread = (workspaceId: string, threadId: string, updater: (thread: ChatThread) => ChatThread) => {
+    updateWorkspace(workspaceId, ws => ({
+      ...ws,
+      threads: ws.threads.map(thread => thread.id === threadId ? updater(thread) : thread)
+    }));
+  };
+
+  const updateBatches = (workspaceId: string, updater: (batches: BatchRun[]) => BatchRun[]) => {
+    updateWorkspace(workspaceId, ws => ({ ...ws, batches: updater(ws.batches ?? []) }));
+  };
+
+  const updateExtractions = (workspaceId: string, updater: (tables: ExtractionTable[]) => ExtractionTable[]) => {
+    updateWorkspace(workspaceId, ws => ({ ...ws, extractions: updater(ws.extractions ?? []) }));
+  };
+
+  const handleFilesChange = (nextFiles: FileData[], nextVersions: FileData[]) => {
+    if (!activeWorkspace) return;
+    const fileIds = nextFiles.map(file => file.id);
+    const inactiveFileIds = nextVersions.map(file => file.id);
+    // A ticked document stays ticked when another of its versions is put in use
+    const selectedDocuments = new Set(files.filter(file => selectedFileIds.includes(file.id)).map(documentIdOf));
+    setFiles(nextFiles);
+    setVersionFiles(nextVersions);
+    updateWorkspace(activeWorkspace.id, ws => ({
+      ...ws,
+      fileIds,
+      inactiveFileIds,
+      selectedFileIds: nextFiles.filter(file => selectedDocuments.has(documentIdOf(file))).map(file => file.id)
+    }));
+    saveFiles([...nextFiles, ...nextVersions])
+      .then(() => pruneFiles(workspaces.map(ws => ws.id === activeWorkspace.id ? { ...ws, fileIds, inactiveFileIds } : ws)))
+      .then(refreshStorageEstimate)
+      .catch(handleStorageError);
+  };
+
+  const handleSelectionChange = (fileIds: string[]) => {
+    if (!activeWorkspace) return;
+    updateWorkspace(activeWorkspace.id, ws => ({ ...ws, selectedFileIds: fileIds }));
+  };
+
+  const handleModelChange = (selection: ModelSelection) => {
+    if (!activeWorkspace) return;
+    updateWorkspace(activeWorkspace.id, ws => ({ ...ws, modelSelection: selection }));
+  };
+
+  const selectWorkspace = (workspaceId: string) => {
+    setActiveWorkspaceId(workspaceId);
+    setViewerTarget(null);
+  };
+
+  const addWorkspace = () => {
+    const name = window.prompt("Name the new workspace:", `Workspace ${workspaces.length + 1}`);
+    if (!name?.trim()) return;
+    const workspace = createWorkspace(name.trim());
+    setWorkspaces(prev => [...prev, workspace]);
+    selectWorkspace(workspace.id);
+  };
+
+  const renameWorkspace = (workspaceId: string) => {
+    const workspace = workspaces.find(ws => ws.id === workspaceId);
+    if (!workspace) return;
+    const name = window.prompt("Rename workspace:", workspace.name);
+    if (!name?.trim()) return;
+    updateWorkspace(workspaceId, ws => ({ ...ws, name: name.trim() }));
+  };
+
+  const copyWorkspace = (workspaceId: string) => {
+    const workspace = workspaces.find(ws => ws.id === workspaceId);
+    if (!workspace) return;
+    const copy = duplicateWorkspace(workspace, `${workspace.name} (copy)`);
+    setWorkspaces(prev => [...prev, copy]);
+    selectWorkspace(copy.id);
+  };
+
+  const deleteWorkspace = (workspaceId: string) => {
+    const workspace = workspaces.find(ws => ws.id === workspaceId);
+    if (!workspace || !window.confirm(`Delete the workspace "${workspace.name}" with its documents and conversations?`)) return;
+    let remaining = workspaces.filter(ws => ws.id !== workspaceId);
+    if (remaining.length === 0) remaining = [createWorkspace(DEFAULT_WORKSPACE_NAME)];
+    setWorkspaces(remaining);
+    if (workspaceId === activeWorkspaceId) selectWorkspace(remaining[0].id);
+    pruneFiles(remaining).then(refreshStorageEstimate).catch(handleStorageError);
+  };
+
+  const selectThread = (threadId: string) => {
+    if (!activeWorkspace) return;
+    updateWorkspace(activeWorkspace.id, ws => ({ ...ws, activeThreadId: threadId }));
+  };
+
+  const addThread = () => {
+    if (!activeWorkspace) return;
+    const thread = createThread();
+    updateWorkspace(activeWorkspace.id, ws => ({ ...ws, threads: [...ws.threads, thread], activeThreadId: thread.id }));
+  };
+
+  const deleteThread = (threadId: string) => {
+    if (!activeWorkspace || !window.confirm("Delete this conversation?")) return;
+    updateWorkspace(activeWorkspace.id, ws => {
+      const threads = ws.threads.filter(thread => thread.id !== threadId);
+      if (threads.length === 0) threads.push(createThread());
+      const activeThreadId = threads.some(thread => thread.id === ws.activeThreadId) ? ws.activeThreadId : threads[0].id;
+      return { ...ws, threads, activeThreadId };
+    });
+  };
+
+  // Message selection refers to positions in one thread, so it resets when the thread changes
+  useEffect(() => {
+    setIsSelectingMessages(false);
+    setSelectedMessages([]);
+  }, [activeThread?.id, activeThread?.activeLeafId]);
+
   // Loading steps animation
   useEffect(() => {
     let interval: number;
@@ -34,76 +329,321 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, [isLoading]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // Pre-send estimate of the prompt the current input would produce, refreshed once typing pauses
+  useEffect(() => {
+    const question = input.trim();
+    if (!question || files.length === 0 || isLoading) {
+      setTokenEstimate(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timeout = window.setTimeout(() => {
+      countQuestionTokens(resolveScope(files, selectedFileIds, question), history.slice(branchSummary?.coveredCount ?? 0), question, {
+        selection: modelSelection ?? undefined,
+        summary: branchSummary?.text,
+        systemInstruction: activeWorkspace?.systemInstruction,
+        signal: controller.signal
+      })
+        .then(setTokenEstimate)
+        .catch((err) => {
+          if (!controller.signal.aborted) console.error("Token estimate error:", err);
+        });
+    }, 800);
+    return () => {
+      window.clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [input, files, selectedFileIds, history, modelSelection?.provider, modelSelection?.model, isLoading]);
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading) return;
+    submitQuestion(input.trim());
+  };
+
+  const submitQuestion = async (question: string) => {
+    if (!question || isLoading || !activeWorkspace || !activeThread) return;
     if (files.length === 0) {
       setError("Please upload documents or PDFs first.");
       setTimeout(() => setError(null), 3000);
       return;
     }
 
-    const question = input.trim();
+    const scopedFiles = resolveScope(files, selectedFileIds, question);
     const userMessage: ChatMessageType = {
+      id: crypto.randomUUID(),
       role: 'user',
       content: question,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      scope: scopedFiles.map(file => file.name)
     };
 
-    setHistory(prev => [...prev, userMessage]);
+    updateThread(activeWorkspace.id, activeThread.id, thread => ({
+      ...appendMessage(thread, userMessage, thread.activeLeafId),
+      title: thread.title === DEFAULT_THREAD_TITLE ? titleFromQuestion(question) : thread.title
+    }));
     setInput('');
+    await runQuestion(activeWorkspace, activeThread, history, userMessage, scopedFiles);
+  };
+
+  // Streams an answer to `questionMessage`, which follows `priorHistory` on the branch.
+  // A failure is recorded on the question itself so it can be retried from the chat.
+  const runQuestion = async (
+    workspace: Workspace,
+    thread: ChatThread,
+    priorHistory: ChatMessageType[],
+    questionMessage: ChatMessageType,
+    scopedFiles: FileData[],
+    temperature?: number
+  ) => {
+    // Pin the target thread so the answer lands where the question was asked
+    const workspaceId = workspace.id;
+    const threadId = thread.id;
+    const modelMessageId = crypto.randomUUID();
+    const setThread = (updater: (thread: ChatThread) => ChatThread) => updateThread(workspaceId, threadId, updater);
+    const setAnswer = (updater: (message: ChatMessageType) => ChatMessageType) =>
+      setThread(t => updateMessage(t, modelMessageId, updater));
+
     setIsLoading(true);
     setError(null);
+    setRetryNotice(null);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const onRetry = (attempt: number, err: AskError) =>
+      setRetryNotice(`${err.message} Retrying (attempt ${attempt + 1} of ${MAX_ATTEMPTS})...`);
+    let answer = '';
+    let failed = false;
 
     try {
-      const [answer] = await Promise.all([
-        askQuestionAboutFiles(files, history, question),
-        new Promise(resolve => setTimeout(resolve, 5000))
-      ]);
-
-      const modelMessage: ChatMessageType = {
-        role: 'model',
-        content: answer as string,
-        timestamp: Date.now()
+      // Condense older turns into the thread's rolling summary once they outgrow the history budget
+      const selection = modelSelection ?? undefined;
+      const previousSummary = getBranchSummary(priorHistory, thread.summary);
+      let context: PreparedHistory = {
+        recent: priorHistory.slice(previousSummary?.coveredCount ?? 0),
+        summary: previousSummary
       };
-      setHistory(prev => [...prev, modelMessage]);
-    } catch (err: any) {
-      setError(err.message || "Something went wrong.");
+      try {
+        context = await prepareHistory(priorHistory, thread.summary, { selection, signal: controller.signal, onRetry });
+      } catch (err) {
+        console.error("Summarization error:", err);
+      }
+      if (context.usage) recordUsage('summary', context.usage, workspace, scopedFiles);
+      if (context.summary && context.summary !== previousSummary) {
+        setThread(t => ({ ...t, summary: context.summary }));
+      }
+
+      // Questions that never got an answer carry no useful context
+      const recent = context.recent.filter(msg => !msg.error);
+      for await (const piece of streamQuestionAboutFiles(scopedFiles, recent, questionMessage.content, {
+        selection,
+        summary: context.summary?.text,
+        systemInstruction: workspace.systemInstruction,
+        temperature,
+        signal: controller.signal,
+        onRetry
+      })) {
+        setRetryNotice(null);
+        if (piece.type === 'citations') {
+          if (answer) setAnswer(msg => ({ ...msg, citations: piece.citations }));
+          continue;
+        }
+
+        if (piece.type === 'usage') {
+          recordUsage('answer', piece.usage, workspace, scopedFiles);
+          if (answer) setAnswer(msg => ({ ...msg, usage: piece.usage }));
+          continue;
+        }
+
+        const isFirstChunk = answer === '';
+        answer += piece.text;
+        const content = answer;
+        if (isFirstChunk) {
+          setThread(t => appendMessage(t, {
+            id: modelMessageId,
+            role: 'model',
+            content,
+            timestamp: Date.now(),
+            isStreaming: true,
+            model: modelSelection?.model,
+            temperature
+          }, questionMessage.id));
+        } else {
+          setAnswer(msg => ({ ...msg, content }));
+        }
+      }
+
+      if (!answer && !controller.signal.aborted) {
+        setThread(t => appendMessage(t, {
+          id: modelMessageId,
+          role: 'model',
+          content: "I'm sorry, I couldn't generate a response.",
+          timestamp: Date.now()
+        }, questionMessage.id));
+      }
+    } catch (err) {
+      failed = true;
+      const failure = toAskError(err).toFailure();
+      setThread(t => updateMessage(t, questionMessage.id, msg => ({ ...msg, error: failure })));
     } finally {
+      // Keep whatever text already arrived, including when the user pressed Stop or the stream broke off
+      if (answer) {
+        setAnswer(msg => ({ ...msg, isStreaming: false, stopped: controller.signal.aborted || failed }));
+      } else {
+        // Nothing new arrived: show the question's earlier answer again, if it had one
+        setThread(t => t.activeLeafId === questionMessage.id
+          ? { ...t, activeLeafId: findLatestLeaf(t, questionMessage.id) }
+          : t);
+      }
+      abortControllerRef.current = null;
+      setRetryNotice(null);
       setIsLoading(false);
     }
   };
 
+  // The documents a question was asked against, as long as they are still in the library
+  const scopeOfQuestion = (question: ChatMessageType) => {
+    const recorded = files.filter(file => question.scope?.includes(file.name));
+    return recorded.length > 0 ? recorded : resolveScope(files, selectedFileIds, question.content);
+  };
+
+  // Re-asks an earlier question on the visible branch; the new answer becomes a sibling of any previous ones
+  const answerAgain = async (questionId: string, temperature?: number) => {
+    if (isLoading || !activeWorkspace || !activeThread) return;
+    const index = history.findIndex(msg => msg.id === questionId);
+    if (index === -1) return;
+    const question = { ...history[index], error: undefined };
+    const scopedFiles = scopeOfQuestion(question);
+
+    updateThread(activeWorkspace.id, activeThread.id, thread => ({
+      ...updateMessage(thread, question.id, () => ({ ...question, scope: scopedFiles.map(file => file.name) })),
+      activeLeafId: question.id
+    }));
+    await runQuestion(activeWorkspace, activeThread, history.slice(0, index), question, scopedFiles, temperature);
+  };
+
+  const retryQuestion = (questionId: string) => answerAgain(questionId);
+
+  const regenerateAnswer = (answerId: string, temperature?: number) => {
+    const answer = history.find(msg => msg.id === answerId);
+    if (answer?.parentId) answerAgain(answer.parentId, temperature);
+  };
+
+  // Sends an edited copy of a question as a new branch, leaving the original conversation intact
+  const editQuestion = async (questionId: string, content: string) => {
+    if (isLoading || !activeWorkspace || !activeThread || !content.trim()) return;
+    const index = history.findIndex(msg => msg.id === questionId);
+    if (index === -1) return;
+    const scopedFiles = resolveScope(files, selectedFileIds, content);
+    const edited: ChatMessageType = {
+      id: crypto.randomUUID(),
+      role: 'user',
+      content: content.trim(),
+      timestamp: Date.now(),
+      scope: scopedFiles.map(file => file.name)
+    };
+
+    updateThread(activeWorkspace.id, activeThread.id, thread => appendMessage(thread, edited, history[index].parentId));
+    await runQuestion(activeWorkspace, activeThread, history.slice(0, index), edited, scopedFiles);
+  };
+
+  const selectBranch = (messageId: string) => {
+    if (isLoading || !activeWorkspace || !activeThread) return;
+    updateThread(activeWorkspace.id, activeThread.id, thread => ({ ...thread, activeLeafId: findLatestLeaf(thread, messageId) }));
+  };
+
+  const handleTemplatesChange = (next: PromptTemplate[]) => {
+    setTemplates(next);
+    saveTemplates(next).catch(handleStorageError);
+  };
+
+  // Templates with variables go through the fill-in dialog first
+  const applyTemplate = (template: PromptTemplate, run: boolean) => {
+    setIsTemplatesOpen(false);
+    if (getTemplateVariables(template.text).length > 0) {
+      setPendingTemplate(template);
+    } else {
+      submitTemplateText(template.text, run);
+    }
+  };
+
+  const submitTemplateText = (text: string, run: boolean) => {
+    setPendingTemplate(null);
+    setMainView('chat');
+    if (run) submitQuestion(text);
+    else setInput(text);
+  };
+
+  const saveInstructions = (instruction: string) => {
+    if (activeWorkspace) {
+      updateWorkspace(activeWorkspace.id, ws => ({ ...ws, systemInstruction: instruction || undefined }));
+    }
+    setIsInstructionsOpen(false);
+  };
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const openCitation = (citation: Citation) => {
+    if (!files.some(file => file.name === citation.fileName)) {
+      setError(`"${citation.fileName}" is no longer in the document library.`);
+      setTimeout(() => setError(null), 3000);
+      return;
+    }
+    setViewerTarget({ fileName: citation.fileName, page: citation.page, quote: citation.quote });
+  };
+
   const clearChat = () => {
-    if (window.confirm("Are you sure you want to clear the conversation?")) {
-      setHistory([]);
+    if (activeWorkspace && activeThread && window.confirm("Are you sure you want to clear the conversation?")) {
+      updateWorkspace(activeWorkspace.id, ws => ({
+        ...ws,
+        threads: ws.threads.map(thread => thread.id === activeThread.id
+          ? { ...thread, messages: [], activeLeafId: undefined, summary: undefined }
+          : thread)
+      }));
     }
   };
 
-  const downloadHistory = () => {
-    if (history.length === 0) return;
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const fileName = `chat-history-${timestamp}.txt`;
-    
-    let content = `PMAD AI Assistant - Chat History\n`;
-    content += `Date: ${new Date().toLocaleString()}\n`;
-    content += `--------------------------------------------------\n\n`;
+  const wipeLocalData = async () => {
+    if (!window.confirm("Delete all documents, conversations, templates and usage records stored in this browser? This cannot be undone.")) return;
+    stopGeneration();
+    try {
+      await clearAllLocalData();
+      const workspace = createWorkspace(DEFAULT_WORKSPACE_NAME);
+      setWorkspaces([workspace]);
+      setActiveWorkspaceId(workspace.id);
+      setFiles([]);
+      setVersionFiles([]);
+      setUsageRecords([]);
+      setTemplates(DEFAULT_TEMPLATES);
+      setPendingTemplate(null);
+      setCompareFileIds([]);
+      setMainView('chat');
+      setViewerTarget(null);
+      setStorageWarning(null);
+    } catch (err) {
+      handleStorageError(err);
+    }
+  };
 
-    history.forEach((msg) => {
-      const time = new Date(msg.timestamp).toLocaleTimeString();
-      const role = msg.role === 'user' ? 'USER' : 'ASSISTANT';
-      content += `[${time}] ${role}:\n${msg.content}\n\n`;
-    });
+  const handleExport = async (format: ExportFormat, onlySelected: boolean) => {
+    if (!activeWorkspace || !activeThread || history.length === 0) return;
+    const messages = onlySelected ? history.filter((_msg, idx) => selectedMessages.includes(idx)) : history;
+    try {
+      const data = await buildExportData(activeWorkspace.name, activeThread.title, files, messages);
+      exportConversation(data, format);
+      setIsExportOpen(false);
+      setIsSelectingMessages(false);
+      setSelectedMessages([]);
+    } catch (err) {
+      console.error("Export error:", err);
+      setError("The conversation could not be exported.");
+      setTimeout(() => setError(null), 3000);
+    }
+  };
 
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = fileName;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  const toggleMessageSelected = (index: number) => {
+    setSelectedMessages(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
   };
 
   const getLoadingMessage = () => {
@@ -118,12 +658,41 @@ const App: React.FC = () => {
 
   return (
     <div className="flex flex-col md:flex-row h-screen w-full bg-slate-50 font-sans">
-      {/* Sidebar for File Uploads */}
-      <FileUpload 
-        files={files} 
-        onFilesChange={setFiles} 
-        isLoading={isLoading} 
-      />
+      {/* Sidebar for Workspaces and File Uploads */}
+      <div className="flex flex-col w-full md:w-80 h-full shrink-0 bg-white border-r border-slate-200 shadow-sm overflow-hidden">
+        {activeWorkspace && (
+          <WorkspaceSwitcher
+            workspaces={workspaces}
+            activeWorkspace={activeWorkspace}
+            disabled={isLoading}
+            onSelectWorkspace={selectWorkspace}
+            onCreateWorkspace={addWorkspace}
+            onRenameWorkspace={renameWorkspace}
+            onDuplicateWorkspace={copyWorkspace}
+            onDeleteWorkspace={deleteWorkspace}
+            onEditInstructions={() => setIsInstructionsOpen(true)}
+            onSelectThread={selectThread}
+            onCreateThread={addThread}
+            onDeleteThread={deleteThread}
+          />
+        )}
+        <FileUpload
+          // Remounted per workspace, which cancels uploads still running for the one left behind
+          key={activeWorkspace?.id}
+          files={files}
+          versionFiles={versionFiles}
+          onFilesChange={handleFilesChange} 
+          isLoading={isLoading || !activeWorkspace} 
+          selectedFileIds={selectedFileIds}
+          onSelectionChange={handleSelectionChange}
+          activeFileName={viewerFile?.name}
+          onOpenFile={(file) => setViewerTarget({ fileName: file.name })}
+          onCompare={(fileIds) => {
+            setCompareFileIds(fileIds);
+            setMainView('compare');
+          }}
+        />
+      </div>
 
       {/* Main Chat Area */}
       <main className="flex-1 flex flex-col min-w-0 bg-white shadow-xl">
@@ -141,16 +710,68 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-4">
+            <ModelSelector
+              providers={providers}
+              selection={modelSelection}
+              disabled={isLoading}
+              onChange={handleModelChange}
+            />
+            <button 
+              onClick={() => setMainView(mainView === 'batch' ? 'chat' : 'batch')}
+              disabled={isLoading}
+              className="text-xs font-semibold text-emerald-700 hover:text-emerald-900 disabled:opacity-30 transition-colors uppercase tracking-wider"
+              title="Ask a list of questions of every document and collect the answers in a table"
+            >
+              {mainView === 'batch' ? 'Chat' : 'Batch'}
+            </button>
+            <button 
+              onClick={() => setMainView(mainView === 'extraction' ? 'chat' : 'extraction')}
+              disabled={isLoading}
+              className="text-xs font-semibold text-emerald-700 hover:text-emerald-900 disabled:opacity-30 transition-colors uppercase tracking-wider"
+              title="Pull fields such as dates, amounts and parties out of each document into a table"
+            >
+              {mainView === 'extraction' ? 'Chat' : 'Extract'}
+            </button>
+            <button 
+              onClick={() => setIsLibraryOpen(true)}
+              className="text-xs font-semibold text-emerald-700 hover:text-emerald-900 transition-colors uppercase tracking-wider"
+              title="Shared document collections published by curators"
+            >
+              Library
+            </button>
             <button 
-              onClick={downloadHistory}
+              onClick={() => setIsTemplatesOpen(true)}
+              className="text-xs font-semibold text-emerald-700 hover:text-emerald-900 transition-colors uppercase tracking-wider"
+              title="Saved questions with fill-in variables"
+            >
+              Templates
+            </button>
+            <button 
+              onClick={() => setIsUsageOpen(true)}
+              className="text-xs font-semibold text-emerald-700 hover:text-emerald-900 transition-colors uppercase tracking-wider"
+              title="Token usage and estimated cost"
+            >
+              Usage
+            </button>
+            {hasRole(user, 'admin') && (
+              <button 
+                onClick={() => setIsAuditOpen(true)}
+                className="text-xs font-semibold text-emerald-700 hover:text-emerald-900 transition-colors uppercase tracking-wider"
+                title="Who asked what, of which documents"
+              >
+                Audit
+              </button>
+            )}
+            <button 
+              onClick={() => setIsExportOpen(true)}
               disabled={history.length === 0}
               className="flex items-center gap-1.5 text-xs font-semibold text-emerald-700 hover:text-emerald-900 disabled:opacity-30 disabled:hover:text-emerald-700 transition-colors uppercase tracking-wider"
-              title="Download conversation as TXT"
+              title="Export conversation as Markdown, HTML, PDF or TXT"
             >
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
               </svg>
-              Export Logs
+              Export
             </button>
             <button 
               onClick={clearChat}
@@ -159,99 +780,319 @@ const App: React.FC = () => {
             >
               Clear
             </button>
+            <button 
+              onClick={wipeLocalData}
+              className="text-xs font-semibold text-slate-500 hover:text-red-600 transition-colors uppercase tracking-wider"
+              title={storageEstimate
+                ? `Stored in this browser: ${(storageEstimate.usage / 1024 / 1024).toFixed(1)} MB of ${(storageEstimate.quota / 1024 / 1024).toFixed(0)} MB`
+                : "Delete all locally stored documents and conversations"}
+            >
+              Wipe Local Data
+            </button>
+            <div className="flex items-center gap-2 pl-4 border-l border-slate-200">
+              <div className="text-right leading-tight">
+                <p className="text-xs font-bold text-slate-700">{user.name}</p>
+                <p className="text-[9px] font-bold text-emerald-600 uppercase tracking-wider">{ROLE_LABELS[user.role]}</p>
+              </div>
+              <button 
+                onClick={() => {
+                  stopGeneration();
+                  onSignOut();
+                }}
+                className="text-xs font-semibold text-slate-500 hover:text-slate-700 transition-colors uppercase tracking-wider"
+              >
+                Sign Out
+              </button>
+            </div>
           </div>
         </header>
 
-        {/* Messages Container */}
-        <div className="flex-1 overflow-y-auto px-4 py-8 md:px-12 scrollbar-thin scrollbar-thumb-slate-200">
-          {history.length === 0 ? (
-            <div className="h-full flex flex-col items-center justify-center text-center max-w-md mx-auto">
-              <div className="w-20 h-20 bg-emerald-50 rounded-3xl flex items-center justify-center mb-6 border border-emerald-100 shadow-sm">
-                <svg className="w-10 h-10 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 11c0 3.517-1.009 6.799-2.753 9.571m-3.44-2.04l.054-.09a13.916 13.916 0 002.522-3.991m1.213-4.64l.056-.013c1.474-.333 2.68-1.34 3.203-2.692M8 21l.515-.856A12.037 12.037 0 019.662 18M12 11V5a2 2 0 012-2h4a2 2 0 012 2v10a2 2 0 01-2 2h-1M10 11l2-2m0 0l2 2m-2-2v4m-8 2h4a2 2 0 012 2v3m-6 0h1" />
-                </svg>
+        {storageWarning && (
+          <div className="flex items-center justify-between gap-3 px-6 py-2 bg-amber-50 border-b border-amber-200 text-xs font-medium text-amber-800 shrink-0">
+            <span>{storageWarning}</span>
+            <button onClick={() => setStorageWarning(null)} className="font-bold uppercase tracking-wider hover:text-amber-950">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {mainView === 'batch' && activeWorkspace ? (
+          <BatchPanel
+            key={activeWorkspace.id}
+            runs={activeWorkspace.batches ?? []}
+            files={files}
+            selectedFileIds={selectedFileIds}
+            askOptions={{ selection: modelSelection ?? undefined, systemInstruction: activeWorkspace.systemInstruction }}
+            onCreate={(run) => updateBatches(activeWorkspace.id, batches => [...batches, run])}
+            onUpdate={(runId, updater) => updateBatches(activeWorkspace.id, batches => batches.map(run => run.id === runId ? updater(run) : run))}
+            onDelete={(runId) => updateBatches(activeWorkspace.id, batches => batches.filter(run => run.id !== runId))}
+            onUsage={(usage, file) => recordUsage('answer', usage, activeWorkspace, [file])}
+            onOpenCitation={openCitation}
+            onClose={() => setMainView('chat')}
+          />
+        ) : mainView === 'extraction' && activeWorkspace ? (
+          <ExtractionPanel
+            key={activeWorkspace.id}
+            tables={activeWorkspace.extractions ?? []}
+            files={files}
+            selectedFileIds={selectedFileIds}
+            askOptions={{ selection: modelSelection ?? undefined, systemInstruction: activeWorkspace.systemInstruction }}
+            onCreate={(table) => updateExtractions(activeWorkspace.id, tables => [...tables, table])}
+            onUpdate={(tableId, updater) => updateExtractions(activeWorkspace.id, tables => tables.map(table => table.id === tableId ? updater(table) : table))}
+            onDelete={(tableId) => updateExtractions(activeWorkspace.id, tables => tables.filter(table => table.id !== tableId))}
+            onUsage={(usage, file) => recordUsage('extraction', usage, activeWorkspace, [file])}
+            onOpenCitation={openCitation}
+            onClose={() => setMainView('chat')}
+          />
+        ) : mainView === 'compare' && activeWorkspace && compareFiles.length >= 2 ? (
+          <CompareView
+            key={`${activeWorkspace.id}:${compareFileIds.join(',')}`}
+            files={compareFiles}
+            askOptions={{ selection: modelSelection ?? undefined, systemInstruction: activeWorkspace.systemInstruction }}
+            onUsage={(usage, documents) => recordUsage('comparison', usage, activeWorkspace, documents)}
+            onOpenPassage={setViewerTarget}
+            onClose={() => setMainView('chat')}
+          />
+        ) : (
+          <>
+          {isSelectingMessages && (
+            <div className="flex items-center justify-between gap-3 px-6 py-2 bg-emerald-50 border-b border-emerald-200 text-xs font-medium text-emerald-800 shrink-0">
+              <span>{selectedMessages.length} message{selectedMessages.length === 1 ? '' : 's'} selected for export</span>
+              <div className="flex items-center gap-4">
+                <button
+                  onClick={() => setIsExportOpen(true)}
+                  disabled={selectedMessages.length === 0}
+                  className="font-bold uppercase tracking-wider hover:text-emerald-950 disabled:opacity-40"
+                >
+                  Export Selected
+                </button>
+                <button
+                  onClick={() => {
+                    setIsSelectingMessages(false);
+                    setSelectedMessages([]);
+                  }}
+                  className="font-bold uppercase tracking-wider text-slate-500 hover:text-slate-700"
+                >
+                  Cancel
+                </button>
               </div>
-              <h2 className="text-xl font-extrabold text-emerald-900 mb-2">Internal Document Search</h2>
-              <p className="text-slate-500 text-sm mb-6 leading-relaxed">Securely upload regulations, reports, or manuals to query information instantly using AI.</p>
-              <div className="grid grid-cols-1 gap-2 w-full text-left">
-                <div className="bg-emerald-50/50 p-3 rounded-lg border border-emerald-100 text-xs font-medium text-emerald-800">
-                  "Summarize the key points from the uploaded documents."
+            </div>
+          )}
+
+          {/* Messages Container */}
+          <div className="flex-1 overflow-y-auto px-4 py-8 md:px-12 scrollbar-thin scrollbar-thumb-slate-200">
+            {history.length === 0 ? (
+              <div className="h-full flex flex-col items-center justify-center text-center max-w-md mx-auto">
+                <div className="w-20 h-20 bg-emerald-50 rounded-3xl flex items-center justify-center mb-6 border border-emerald-100 shadow-sm">
+                  <svg className="w-10 h-10 text-emerald-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 11c0 3.517-1.009 6.799-2.753 9.571m-3.44-2.04l.054-.09a13.916 13.916 0 002.522-3.991m1.213-4.64l.056-.013c1.474-.333 2.68-1.34 3.203-2.692M8 21l.515-.856A12.037 12.037 0 019.662 18M12 11V5a2 2 0 012-2h4a2 2 0 012 2v10a2 2 0 01-2 2h-1M10 11l2-2m0 0l2 2m-2-2v4m-8 2h4a2 2 0 012 2v3m-6 0h1" />
+                  </svg>
                 </div>
-                <div className="bg-emerald-50/50 p-3 rounded-lg border border-emerald-100 text-xs font-medium text-emerald-800">
-                  "Find specific dates and deadlines mentioned in the text."
+                <h2 className="text-xl font-extrabold text-emerald-900 mb-2">Internal Document Search</h2>
+                <p className="text-slate-500 text-sm mb-6 leading-relaxed">Securely upload regulations, reports, or manuals to query information instantly using AI.</p>
+                <div className="grid grid-cols-1 gap-2 w-full text-left">
+                  {templates.slice(0, 4).map(template => (
+                    <button
+                      key={template.id}
+                      type="button"
+                      onClick={() => applyTemplate(template, false)}
+                      className="bg-emerald-50/50 p-3 rounded-lg border border-emerald-100 text-left text-xs font-medium text-emerald-800 hover:bg-emerald-50 hover:border-emerald-300 transition-colors"
+                    >
+                      "{template.text}"
+                    </button>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setIsTemplatesOpen(true)}
+                    className="mt-1 text-[10px] font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-wider"
+                  >
+                    All templates ({templates.length})
+                  </button>
                 </div>
               </div>
-            </div>
-          ) : (
-            <>
-              {history.map((msg, idx) => (
-                <ChatMessage key={idx} message={msg} />
-              ))}
-              {isLoading && (
-                <div className="flex justify-start mb-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
-                  <div className="flex-shrink-0 w-10 h-10 rounded-full bg-emerald-700 flex items-center justify-center mr-3 shadow-md border border-emerald-800">
-                    <svg className="w-5 h-5 text-white animate-spin" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z" />
-                    </svg>
-                  </div>
-                  <div className="bg-emerald-50 rounded-2xl rounded-tl-none px-5 py-4 border border-emerald-200 min-w-[240px] shadow-sm relative overflow-hidden">
-                    <div className="absolute top-0 left-0 h-1 bg-emerald-500 transition-all duration-500 ease-linear" style={{ width: `${(loadingStep + 1) * 25}%` }}></div>
-                    <div className="flex flex-col gap-2">
-                      <div className="flex items-center gap-2">
-                        <span className="text-emerald-700 font-bold text-[10px] uppercase tracking-widest animate-pulse">
-                          Assistant Processing
-                        </span>
-                        <div className="flex gap-1">
-                          <div className="w-1.5 h-1.5 bg-emerald-400 rounded-full animate-bounce"></div>
-                          <div className="w-1.5 h-1.5 bg-emerald-500 rounded-full animate-bounce [animation-delay:0.2s]"></div>
-                          <div className="w-1.5 h-1.5 bg-emerald-600 rounded-full animate-bounce [animation-delay:0.4s]"></div>
+            ) : (
+              <>
+                {history.map((msg, idx) => {
+                  const siblings = activeThread ? getSiblings(activeThread, msg) : [msg];
+                  return (
+                    <React.Fragment key={msg.id}>
+                      <ChatMessage
+                        message={msg}
+                        onOpenCitation={openCitation}
+                        selectable={isSelectingMessages}
+                        selected={selectedMessages.includes(idx)}
+                        onToggleSelected={() => toggleMessageSelected(idx)}
+                        onRetry={!isLoading ? () => retryQuestion(msg.id) : undefined}
+                        onRegenerate={!isLoading ? (temperature) => regenerateAnswer(msg.id, temperature) : undefined}
+                        onEdit={!isLoading ? (content) => editQuestion(msg.id, content) : undefined}
+                        siblings={siblings.length > 1 ? {
+                          index: siblings.indexOf(msg),
+                          count: siblings.length,
+                          onSelect: !isLoading ? (index) => selectBranch(siblings[index].id) : undefined
+                        } : undefined}
+                      />
+                      {branchSummary?.coveredCount === idx + 1 && (
+                        <ContextSummaryNotice summary={branchSummary} />
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+                {isLoading && !isStreaming && (
+                  <div className="flex justify-start mb-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+                    <div className="flex-shrink-0 w-10 h-10 rounded-full bg-emerald-700 flex items-center justify-center mr-3 shadow-md border border-emerald-800">
+                      <svg className="w-5 h-5 text-white animate-spin" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z" />
+                      </svg>
+                    </div>
+                    <div className="bg-emerald-50 rounded-2xl rounded-tl-none px-5 py-4 border border-emerald-200 min-w-[240px] shadow-sm relative overflow-hidden">
+                      <div className="absolute top-0 left-0 h-1 bg-emerald-500 transition-all duration-500 ease-linear" style={{ width: `${(loadingStep + 1) * 25}%` }}></div>
+                      <div className="flex flex-col gap-2">
+                        <div className="flex items-center gap-2">
+                          <span className="text-emerald-700 font-bold text-[10px] uppercase tracking-widest animate-pulse">
+                            Assistant Processing
+                          </span>
+                          <div className="flex gap-1">
+                            <div className="w-1.5 h-1.5 bg-emerald-400 rounded-full animate-bounce"></div>
+                            <div className="w-1.5 h-1.5 bg-emerald-500 rounded-full animate-bounce [animation-delay:0.2s]"></div>
+                            <div className="w-1.5 h-1.5 bg-emerald-600 rounded-full animate-bounce [animation-delay:0.4s]"></div>
+                          </div>
                         </div>
+                        <p className="text-emerald-600 text-[13px] font-medium transition-all duration-300 italic">
+                          {retryNotice ?? getLoadingMessage()}
+                        </p>
                       </div>
-                      <p className="text-emerald-600 text-[13px] font-medium transition-all duration-300 italic">
-                        {getLoadingMessage()}
-                      </p>
                     </div>
                   </div>
+                )}
+              </>
+            )}
+            <div ref={messagesEndRef} />
+          </div>
+
+          {/* Input Area */}
+          <footer className="p-4 md:p-6 bg-white border-t border-slate-200">
+            <form onSubmit={handleSubmit} className="max-w-4xl mx-auto relative">
+              {error && (
+                <div className="absolute -top-12 left-0 right-0 bg-red-100 text-red-600 px-4 py-2 rounded-lg text-sm font-medium border border-red-200 animate-in fade-in slide-in-from-bottom-2">
+                  {error}
                 </div>
               )}
-            </>
-          )}
-          <div ref={messagesEndRef} />
-        </div>
-
-        {/* Input Area */}
-        <footer className="p-4 md:p-6 bg-white border-t border-slate-200">
-          <form onSubmit={handleSubmit} className="max-w-4xl mx-auto relative">
-            {error && (
-              <div className="absolute -top-12 left-0 right-0 bg-red-100 text-red-600 px-4 py-2 rounded-lg text-sm font-medium border border-red-200 animate-in fade-in slide-in-from-bottom-2">
-                {error}
+              <div className="relative flex items-center">
+                <MentionInput
+                  value={input}
+                  onChange={setInput}
+                  files={files}
+                  placeholder={files.length === 0 ? "First, upload documents..." : "Ask a question, or type @ to target a document..."}
+                  disabled={isLoading}
+                  className="w-full pl-5 pr-16 py-4 bg-slate-50 border-2 border-slate-100 rounded-2xl focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 text-slate-800 placeholder-slate-400 text-sm md:text-base transition-all disabled:opacity-50 shadow-inner"
+                />
+                {isLoading ? (
+                  <button
+                    type="button"
+                    onClick={stopGeneration}
+                    className="absolute right-2.5 p-2.5 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-all shadow-md active:scale-95"
+                    title="Stop generating"
+                  >
+                    <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
+                      <rect x="7" y="7" width="10" height="10" rx="1.5" />
+                    </svg>
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!input.trim() || files.length === 0}
+                    className="absolute right-2.5 p-2.5 bg-emerald-700 text-white rounded-xl hover:bg-emerald-800 disabled:bg-slate-300 disabled:cursor-not-allowed transition-all shadow-md active:scale-95"
+                  >
+                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M14 5l7 7m0 0l-7 7m7-7H3" />
+                    </svg>
+                  </button>
+                )}
               </div>
-            )}
-            <div className="relative flex items-center">
-              <input
-                type="text"
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                placeholder={files.length === 0 ? "First, upload PDF files..." : "Ask a question about your documents..."}
-                disabled={isLoading}
-                className="w-full pl-5 pr-16 py-4 bg-slate-50 border-2 border-slate-100 rounded-2xl focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 text-slate-800 placeholder-slate-400 text-sm md:text-base transition-all disabled:opacity-50 shadow-inner"
-              />
-              <button
-                type="submit"
-                disabled={!input.trim() || isLoading || files.length === 0}
-                className="absolute right-2.5 p-2.5 bg-emerald-700 text-white rounded-xl hover:bg-emerald-800 disabled:bg-slate-300 disabled:cursor-not-allowed transition-all shadow-md active:scale-95"
-              >
-                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M14 5l7 7m0 0l-7 7m7-7H3" />
-                </svg>
-              </button>
-            </div>
-            <p className="mt-2 text-center text-[9px] text-slate-400 uppercase tracking-[0.2em] font-bold">
-              Proprietary System — Professional Use Only
-            </p>
-          </form>
-        </footer>
+              <p className="mt-2 text-center text-[9px] text-slate-400 uppercase tracking-[0.2em] font-bold">
+                {tokenEstimate && input.trim() && !isLoading
+                  ? `${tokenEstimate.estimated ? '≈ ' : ''}${tokenEstimate.totalTokens.toLocaleString()} prompt tokens · ${formatCost(tokenEstimate.cost)} to send`
+                  : 'Proprietary System — Professional Use Only'}
+              </p>
+            </form>
+          </footer>
+          </>
+        )}
       </main>
+
+      {isExportOpen && (
+        <ExportDialog
+          totalCount={history.length}
+          selectedCount={selectedMessages.length}
+          onClose={() => setIsExportOpen(false)}
+          onStartSelecting={() => {
+            setIsExportOpen(false);
+            setIsSelectingMessages(true);
+          }}
+          onExport={handleExport}
+        />
+      )}
+
+      {isTemplatesOpen && (
+        <TemplateLibrary
+          templates={templates}
+          canRun={files.length > 0 && !isLoading}
+          onChange={handleTemplatesChange}
+          onApply={applyTemplate}
+          onClose={() => setIsTemplatesOpen(false)}
+        />
+      )}
+
+      {pendingTemplate && (
+        <TemplateVariablesDialog
+          template={pendingTemplate}
+          files={files}
+          canRun={files.length > 0 && !isLoading}
+          onSubmit={submitTemplateText}
+          onClose={() => setPendingTemplate(null)}
+        />
+      )}
+
+      {isInstructionsOpen && activeWorkspace && (
+        <SystemInstructionDialog
+          workspaceName={activeWorkspace.name}
+          instruction={activeWorkspace.systemInstruction ?? ''}
+          onSave={saveInstructions}
+          onClose={() => setIsInstructionsOpen(false)}
+        />
+      )}
+
+      {isAuditOpen && <AuditLogDialog onClose={() => setIsAuditOpen(false)} />}
+
+      {isLibraryOpen && activeWorkspace && (
+        <LibraryDialog
+          user={user}
+          files={files}
+          versionFiles={versionFiles}
+          onFilesChange={handleFilesChange}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+
+      {isUsageOpen && (
+        <UsagePanel records={usageRecords} onClose={() => setIsUsageOpen(false)} />
+      )}
+
+      {viewerTarget && viewerFile && (
+        getFormatInfo(viewerFile.mimeType).format === 'pdf' ? (
+          <PdfViewer
+            file={viewerFile}
+            target={viewerTarget}
+            onClose={() => setViewerTarget(null)}
+          />
+        ) : (
+          <DocumentPreview
+            file={viewerFile}
+            target={viewerTarget}
+            onClose={() => setViewerTarget(null)}
+          />
+        )
+      )}
     </div>
   );
 };
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { AuditAction, AuditQuery, AuditQueryResponse } from '../types';
+import { auditExportUrl, describeDocuments, fetchAuditLog, ROLE_LABELS } from '../services/auth';
+import { toAskError } from '../services/errors';
+
+interface AuditLogDialogProps {
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  ask: 'Question',
+  extract: 'Extraction',
+  compare: 'Comparison'
+};
+
+// <input type="date"> values are local calendar days; `to` includes the whole day
+const dayStart = (value: string) => value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+const dayEnd = (value: string) => value ? new Date(`${value}T23:59:59.999`).getTime() : undefined;
+
+const AuditLogDialog: React.FC<AuditLogDialogProps> = ({ onClose }) => {
+  const [user, setUser] = useState('');
+  const [text, setText] = useState('');
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [offset, setOffset] = useState(0);
+  const [result, setResult] = useState<AuditQueryResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const query: AuditQuery = {
+    user: user.trim() || undefined,
+    text: text.trim() || undefined,
+    action: action || undefined,
+    from: dayStart(from),
+    to: dayEnd(to)
+  };
+
+  // Typing in a filter waits for a pause before querying
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetchAuditLog({ ...query, limit: PAGE_SIZE, offset }, controller.signal)
+        .then((response) => {
+          setResult(response);
+          setError(null);
+        })
+        .catch((err) => {
+          if (!controller.signal.aborted) setError(toAskError(err).message);
+        });
+    }, 250);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [user, text, action, from, to, offset]);
+
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setOffset(0);
+  };
+
+  const inputClass = "px-3 py-2 border border-slate-100 rounded-lg bg-slate-50 text-xs font-medium text-slate-700 focus:bg-white focus:ring-2 focus:ring-emerald-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-white rounded-2xl shadow-xl border border-emerald-100 p-6 animate-in fade-in slide-in-from-bottom-2"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3 mb-4 shrink-0">
+          <div>
+            <h2 className="text-sm font-black text-emerald-900 uppercase tracking-tight">Audit Log</h2>
+            <p className="text-[10px] text-slate-400 font-bold uppercase">Every question asked, by whom, of which documents</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <a
+              href={auditExportUrl(query, 'csv')}
+              className="text-xs font-semibold text-emerald-700 hover:text-emerald-900 uppercase tracking-wider"
+            >
+              Export CSV
+            </a>
+            <a
+              href={auditExportUrl(query, 'jsonl')}
+              className="text-xs font-semibold text-emerald-700 hover:text-emerald-900 uppercase tracking-wider"
+              title="The original log lines, with the hashes that chain them together"
+            >
+              Export JSONL
+            </a>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-5 gap-2 mb-3 shrink-0">
+          <input value={user} onChange={(e) => updateFilter(setUser)(e.target.value)} placeholder="User or email" className={inputClass} />
+          <input value={text} onChange={(e) => updateFilter(setText)(e.target.value)} placeholder="Question or document" className={inputClass} />
+          <select value={action} onChange={(e) => updateFilter(setAction)(e.target.value as AuditAction | '')} className={inputClass}>
+            <option value="">All actions</option>
+            {(Object.keys(ACTION_LABELS) as AuditAction[]).map(value => (
+              <option key={value} value={value}>{ACTION_LABELS[value]}</option>
+            ))}
+          </select>
+          <input type="date" value={from} onChange={(e) => updateFilter(setFrom)(e.target.value)} title="From" className={inputClass} />
+          <input type="date" value={to} onChange={(e) => updateFilter(setTo)(e.target.value)} title="To" className={inputClass} />
+        </div>
+
+        {result && !result.intact && (
+          <p className="mb-3 px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-xs font-medium text-red-700 shrink-0">
+            The log has been altered: at least one entry no longer matches the hash recorded after it.
+          </p>
+        )}
+        {error && <p className="mb-3 text-xs text-red-600 font-medium shrink-0">{error}</p>}
+
+        <div className="flex-1 overflow-auto min-h-0 border border-slate-100 rounded-lg">
+          <table className="w-full text-xs text-slate-700">
+            <thead className="sticky top-0 bg-slate-50 text-[10px] uppercase tracking-wider text-slate-500">
+              <tr>
+                <th className="px-3 py-2 text-left">Time</th>
+                <th className="px-3 py-2 text-left">User</th>
+                <th className="px-3 py-2 text-left">Action</th>
+                <th className="px-3 py-2 text-left">Documents</th>
+                <th className="px-3 py-2 text-left">Question</th>
+                <th className="px-3 py-2 text-left">Answer</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result?.entries.map(entry => (
+                <tr key={entry.id} className="border-t border-slate-100 align-top">
+                  <td className="px-3 py-2 whitespace-nowrap font-mono text-[10px]">{new Date(entry.timestamp).toLocaleString()}</td>
+                  <td className="px-3 py-2">
+                    <p className="font-bold">{entry.userName}</p>
+                    <p className="text-[10px] text-slate-400">{entry.email ?? entry.userId} • {ROLE_LABELS[entry.role]}</p>
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">{ACTION_LABELS[entry.action]}</td>
+                  <td className="px-3 py-2 max-w-[200px] break-words">{describeDocuments(entry)}</td>
+                  <td className="px-3 py-2 max-w-[280px] break-words">{entry.question}</td>
+                  <td className="px-3 py-2 font-mono text-[10px]" title={entry.answerHash ? `SHA-256 ${entry.answerHash}` : undefined}>
+                    {entry.answerHash ? entry.answerHash.slice(0, 12) : <span className="text-red-600">Failed ({entry.error})</span>}
+                  </td>
+                </tr>
+              ))}
+              {result?.entries.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-3 py-6 text-center text-slate-400">No entries match these filters.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 mt-4 shrink-0">
+          <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">
+            {result ? `${result.total === 0 ? 0 : offset + 1}–${Math.min(offset + PAGE_SIZE, result.total)} of ${result.total}` : 'Loading...'}
+          </span>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0}
+              className="text-xs font-semibold text-emerald-700 hover:text-emerald-900 disabled:opacity-30 uppercase tracking-wider"
+            >
+              Newer
+            </button>
+            <button
+              type="button"
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={!result || offset + PAGE_SIZE >= result.total}
+              className="text-xs font-semibold text-emerald-700 hover:text-emerald-900 disabled:opacity-30 uppercase tracking-wider"
+            >
+              Older
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogDialog;
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { AuthUser, DevLoginRequest, SessionResponse } from '../types';
+import { devLogin, fetchSession, logout } from '../services/auth';
+import { onUnauthenticated } from '../services/errors';
+import LoginScreen from './LoginScreen';
+
+interface AuthGateProps {
+  children: (user: AuthUser, onSignOut: () => void) => React.ReactNode;
+}
+
+// Renders the app only for a signed-in user, and the sign-in screen otherwise
+const AuthGate: React.FC<AuthGateProps> = ({ children }) => {
+  const [session, setSession] = useState<SessionResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSession()
+      .then(setSession)
+      .catch((err) => {
+        console.error("Session error:", err);
+        setError("The server could not be reached. Reload the page to try again.");
+      });
+  }, []);
+
+  useEffect(() => onUnauthenticated(() => setSession(prev => prev && { ...prev, user: null })), []);
+
+  const signIn = async (request: DevLoginRequest) => {
+    setSession(await devLogin(request));
+  };
+
+  const signOut = async () => {
+    const redirectUrl = await logout().catch(() => undefined);
+    if (redirectUrl) window.location.assign(redirectUrl);
+    else setSession(prev => prev && { ...prev, user: null });
+  };
+
+  if (error || !session) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-slate-50 text-xs font-medium text-slate-500">
+        {error ?? 'Loading...'}
+      </div>
+    );
+  }
+  if (!session.user) return <LoginScreen mode={session.mode} onDevLogin={signIn} />;
+  return <>{children(session.user, signOut)}</>;
+};
+
+export default AuthGate;
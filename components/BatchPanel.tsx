@@ -0,0 +1,444 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BatchCell, BatchRun, Citation, FileData, TokenUsage } from '../types';
+import { AskOptions } from '../services/geminiService';
+import {
+  batchProgress,
+  BatchExportFormat,
+  createBatchRun,
+  DEFAULT_BATCH_CONCURRENCY,
+  exportBatch,
+  getBatchCell,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_QUESTIONS,
+  parseQuestionList,
+  resolveBatchFile,
+  runBatch,
+  updateBatchCell
+} from '../services/batch';
+import { documentIdOf } from '../services/versions';
+import MarkdownContent from './MarkdownContent';
+
+interface BatchPanelProps {
+  runs: BatchRun[];
+  files: FileData[];
+  // Documents ticked in the sidebar, preselected for a new run
+  selectedFileIds: string[];
+  askOptions: Pick<AskOptions, 'selection' | 'systemInstruction'>;
+  onCreate: (run: BatchRun) => void;
+  onUpdate: (runId: string, updater: (run: BatchRun) => BatchRun) => void;
+  onDelete: (runId: string) => void;
+  onUsage: (usage: TokenUsage, file: FileData) => void;
+  onOpenCitation: (citation: Citation) => void;
+  onClose: () => void;
+}
+
+const cellKey = (cell: Pick<BatchCell, 'fileId' | 'questionIndex'>) => `${cell.fileId}:${cell.questionIndex}`;
+
+const inputClass = "w-full px-3 py-2 border border-slate-100 rounded-lg bg-slate-50 text-xs font-medium text-slate-700 focus:bg-white focus:ring-2 focus:ring-emerald-500 outline-none";
+
+const BatchPanel: React.FC<BatchPanelProps> = ({
+  runs,
+  files,
+  selectedFileIds,
+  askOptions,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onUsage,
+  onOpenCitation,
+  onClose
+}) => {
+  const [activeRunId, setActiveRunId] = useState(runs[runs.length - 1]?.id ?? '');
+  const [isCreating, setIsCreating] = useState(runs.length === 0);
+  const [name, setName] = useState('');
+  const [questionsText, setQuestionsText] = useState('');
+  const [draftFileIds, setDraftFileIds] = useState<string[]>(selectedFileIds.length > 0 ? selectedFileIds : files.map(file => file.id));
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [isRunning, setIsRunning] = useState(false);
+  const [inFlight, setInFlight] = useState<string[]>([]);
+  const [selectedCellKey, setSelectedCellKey] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const questionFileRef = useRef<HTMLInputElement>(null);
+
+  const activeRun = runs.find(run => run.id === activeRunId);
+  const progress = activeRun ? batchProgress(activeRun) : null;
+  const questions = parseQuestionList(questionsText);
+  const selectedCell = activeRun?.cells.find(cell => cellKey(cell) === selectedCellKey);
+
+  // Leaving the batch view stops the run; finished cells are already saved, so it can be resumed
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const loadQuestionFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const loaded = parseQuestionList(await file.text(), file.name.toLowerCase().endsWith('.csv'));
+    setQuestionsText(loaded.join('\n'));
+    if (!name) setName(file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const createRun = () => {
+    if (questions.length === 0 || draftFileIds.length === 0) return;
+    if (questions.length > MAX_BATCH_QUESTIONS) {
+      setNotice(`A batch can hold at most ${MAX_BATCH_QUESTIONS} questions.`);
+      return;
+    }
+    const documentIds = files.filter(file => draftFileIds.includes(file.id)).map(documentIdOf);
+    const run = createBatchRun(name.trim() || `Batch ${runs.length + 1}`, questions, documentIds);
+    onCreate(run);
+    setActiveRunId(run.id);
+    setIsCreating(false);
+    setName('');
+    setQuestionsText('');
+    setNotice(null);
+  };
+
+  const startRun = async () => {
+    if (!activeRun || isRunning) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setNotice(null);
+
+    try {
+      await runBatch(activeRun, files, {
+        ...askOptions,
+        concurrency,
+        signal: controller.signal,
+        onStart: (cell) => setInFlight(prev => [...prev, cellKey(cell)]),
+        onCell: (cell, usage) => {
+          setInFlight(prev => prev.filter(key => key !== cellKey(cell)));
+          onUpdate(activeRun.id, run => updateBatchCell(run, cell));
+          const file = resolveBatchFile(files, cell.fileId);
+          if (usage && file) onUsage(usage, file);
+        }
+      });
+    } finally {
+      controllerRef.current = null;
+      setInFlight([]);
+      setIsRunning(false);
+      if (activeRun.fileIds.some(id => !resolveBatchFile(files, id))) {
+        setNotice('Documents removed from the workspace were skipped.');
+      }
+    }
+  };
+
+  const stopRun = () => controllerRef.current?.abort();
+
+  const deleteRun = () => {
+    if (!activeRun || !window.confirm(`Delete the batch "${activeRun.name}" and its answers?`)) return;
+    onDelete(activeRun.id);
+    const remaining = runs.filter(run => run.id !== activeRun.id);
+    setActiveRunId(remaining[remaining.length - 1]?.id ?? '');
+    setIsCreating(remaining.length === 0);
+  };
+
+  const handleExport = (format: BatchExportFormat) => {
+    if (!activeRun) return;
+    exportBatch(activeRun, files, format).catch((err) => {
+      console.error("Batch export error:", err);
+      setNotice('The export could not be created.');
+    });
+  };
+
+  const selectRun = (runId: string) => {
+    setActiveRunId(runId);
+    setIsCreating(false);
+    setSelectedCellKey(null);
+  };
+
+  const toggleDraftFile = (fileId: string) => {
+    setDraftFileIds(prev => prev.includes(fileId) ? prev.filter(id => id !== fileId) : [...prev, fileId]);
+  };
+
+  const fileName = (fileId: string) => resolveBatchFile(files, fileId)?.name;
+
+  const renderCell = (fileId: string, questionIndex: number) => {
+    const cell = activeRun && getBatchCell(activeRun, fileId, questionIndex);
+    if (!cell) return null;
+    const key = cellKey(cell);
+    const isSelected = key === selectedCellKey;
+    return (
+      <td key={key} className="border-t border-l border-slate-100 p-0 align-top">
+        <button
+          type="button"
+          onClick={() => setSelectedCellKey(isSelected ? null : key)}
+          className={`w-full h-full min-h-[64px] p-2 text-left text-[11px] transition-colors ${
+            isSelected ? 'bg-emerald-50 ring-2 ring-inset ring-emerald-500' : 'hover:bg-slate-50'
+          }`}
+        >
+          {inFlight.includes(key) ? (
+            <span className="text-emerald-600 font-bold uppercase tracking-wider text-[9px] animate-pulse">Asking...</span>
+          ) : cell.status === 'done' ? (
+            <>
+              <span className="block text-slate-700 line-clamp-4">{cell.answer}</span>
+              {!!cell.citations?.length && (
+                <span className="block mt-1 text-[9px] font-bold text-emerald-700">
+                  {cell.citations.length} source{cell.citations.length === 1 ? '' : 's'}
+                </span>
+              )}
+            </>
+          ) : cell.status === 'failed' ? (
+            <span className="block text-red-600 line-clamp-3">{cell.error?.message}</span>
+          ) : !fileName(fileId) ? (
+            <span className="text-slate-300 italic">Document removed</span>
+          ) : (
+            <span className="text-slate-300">—</span>
+          )}
+        </button>
+      </td>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center justify-between gap-3 px-6 py-3 border-b border-slate-200 shrink-0">
+        <div className="flex items-center gap-3 min-w-0">
+          <h2 className="text-sm font-black text-emerald-900 uppercase tracking-tight shrink-0">Batch Q&amp;A</h2>
+          {runs.length > 0 && (
+            <select
+              value={isCreating ? '' : activeRunId}
+              onChange={(e) => selectRun(e.target.value)}
+              disabled={isRunning}
+              className="px-2 py-1 border border-slate-100 rounded-lg bg-slate-50 text-xs font-medium text-slate-700 outline-none max-w-[240px]"
+            >
+              {isCreating && <option value="">New batch</option>}
+              {runs.map(run => (
+                <option key={run.id} value={run.id}>{run.name}</option>
+              ))}
+            </select>
+          )}
+          <button
+            type="button"
+            onClick={() => setIsCreating(true)}
+            disabled={isRunning || isCreating}
+            className="text-[10px] font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-wider disabled:opacity-30"
+          >
+            + New Batch
+          </button>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider"
+        >
+          Back to Chat
+        </button>
+      </div>
+
+      {notice && (
+        <div className="mx-6 mt-3 px-3 py-2 rounded-lg bg-emerald-50 border border-emerald-100 text-xs font-medium text-emerald-800">
+          {notice}
+        </div>
+      )}
+
+      {isCreating ? (
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          <div className="max-w-3xl grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Batch name, e.g. Q3 compliance review"
+                className={inputClass}
+              />
+              <textarea
+                value={questionsText}
+                onChange={(e) => setQuestionsText(e.target.value)}
+                rows={12}
+                placeholder={'One question per line:\nWho is the data controller?\nWhat is the retention period for personal data?'}
+                className={`${inputClass} resize-y`}
+              />
+              <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-wider">
+                <button type="button" onClick={() => questionFileRef.current?.click()} className="text-emerald-700 hover:text-emerald-900">
+                  Load from File
+                </button>
+                <span className={questions.length > MAX_BATCH_QUESTIONS ? 'text-red-600' : 'text-slate-400'}>
+                  {questions.length} question{questions.length === 1 ? '' : 's'}
+                </span>
+                <input ref={questionFileRef} type="file" accept=".txt,.csv,text/plain,text/csv" className="hidden" onChange={loadQuestionFile} />
+              </div>
+            </div>
+
+            <div className="flex flex-col min-h-0">
+              <div className="flex items-center justify-between mb-2 text-[10px] font-bold uppercase tracking-wider">
+                <span className="text-slate-500">Documents</span>
+                <button
+                  type="button"
+                  onClick={() => setDraftFileIds(draftFileIds.length === files.length ? [] : files.map(file => file.id))}
+                  className="text-emerald-700 hover:text-emerald-900"
+                >
+                  {draftFileIds.length === files.length ? 'None' : 'All'}
+                </button>
+              </div>
+              <div className="flex-1 max-h-72 overflow-y-auto border border-slate-100 rounded-xl divide-y divide-slate-100">
+                {files.length === 0 && (
+                  <p className="p-4 text-center text-xs text-slate-400 font-medium">Upload documents first.</p>
+                )}
+                {files.map(file => (
+                  <label key={file.id} className="flex items-center gap-2 px-3 py-2 text-xs text-slate-700 cursor-pointer hover:bg-slate-50">
+                    <input
+                      type="checkbox"
+                      checked={draftFileIds.includes(file.id)}
+                      onChange={() => toggleDraftFile(file.id)}
+                      className="accent-emerald-600"
+                    />
+                    <span className="truncate">{file.name}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="mt-3 text-[10px] text-slate-400 font-medium">
+                Each question is asked of each document on its own: {questions.length * draftFileIds.length} requests.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex gap-3 mt-6">
+            <button
+              type="button"
+              onClick={createRun}
+              disabled={questions.length === 0 || draftFileIds.length === 0}
+              className="px-4 py-2 bg-emerald-700 text-white rounded-xl text-xs font-bold uppercase tracking-wider hover:bg-emerald-800 disabled:bg-slate-300 shadow-md active:scale-95 transition-all"
+            >
+              Create Batch
+            </button>
+            {runs.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setIsCreating(false)}
+                className="px-4 py-2 text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      ) : activeRun && progress && (
+        <>
+          <div className="flex flex-wrap items-center gap-4 px-6 py-3 border-b border-slate-100 shrink-0">
+            <div className="flex-1 min-w-[200px]">
+              <div className="flex justify-between text-[10px] font-bold uppercase tracking-wider mb-1">
+                <span className="text-emerald-700">{progress.done} of {progress.total} answered</span>
+                {progress.failed > 0 && <span className="text-red-600">{progress.failed} failed</span>}
+              </div>
+              <div className="h-1.5 rounded-full bg-slate-100 overflow-hidden flex">
+                <div className="h-full bg-emerald-500 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+                <div className="h-full bg-red-400 transition-all" style={{ width: `${(progress.failed / progress.total) * 100}%` }} />
+              </div>
+            </div>
+            <label className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-slate-500">
+              Parallel
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                disabled={isRunning}
+                className="px-1.5 py-1 border border-slate-100 rounded-md bg-slate-50 text-xs text-slate-700 outline-none"
+              >
+                {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_v, idx) => idx + 1).map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            {isRunning ? (
+              <button
+                type="button"
+                onClick={stopRun}
+                className="px-4 py-2 bg-red-600 text-white rounded-xl text-xs font-bold uppercase tracking-wider hover:bg-red-700 shadow-md active:scale-95 transition-all"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={startRun}
+                disabled={progress.done === progress.total}
+                className="px-4 py-2 bg-emerald-700 text-white rounded-xl text-xs font-bold uppercase tracking-wider hover:bg-emerald-800 disabled:bg-slate-300 shadow-md active:scale-95 transition-all"
+                title="Asks every question that has no answer yet, including failed ones"
+              >
+                {progress.done === 0 && progress.failed === 0 ? 'Run' : progress.failed > 0 ? 'Resume / Retry Failed' : 'Resume'}
+              </button>
+            )}
+            <div className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-wider">
+              <button type="button" onClick={() => handleExport('csv')} className="text-emerald-700 hover:text-emerald-900">
+                CSV
+              </button>
+              <button type="button" onClick={() => handleExport('xlsx')} className="text-emerald-700 hover:text-emerald-900">
+                XLSX
+              </button>
+              <button type="button" onClick={deleteRun} disabled={isRunning} className="text-slate-400 hover:text-red-600 disabled:opacity-30">
+                Delete
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-auto min-h-0">
+            <table className="text-xs border-collapse">
+              <thead className="sticky top-0 z-10 bg-slate-50 text-[10px] uppercase tracking-wider text-slate-500">
+                <tr>
+                  <th className="sticky left-0 z-20 bg-slate-50 text-left px-3 py-2 min-w-[180px]">Document</th>
+                  {activeRun.questions.map((question, idx) => (
+                    <th
+                      key={idx}
+                      title={question}
+                      className="border-l border-slate-100 text-left px-3 py-2 min-w-[220px] max-w-[280px] font-bold normal-case tracking-normal text-slate-600"
+                    >
+                      <span className="line-clamp-2">{idx + 1}. {question}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {activeRun.fileIds.map(fileId => (
+                  <tr key={fileId}>
+                    <td className="sticky left-0 bg-white border-t border-slate-100 px-3 py-2 align-top font-bold text-emerald-900 max-w-[180px] truncate" title={fileName(fileId)}>
+                      {fileName(fileId) ?? <span className="text-slate-300 italic font-medium">Removed</span>}
+                    </td>
+                    {activeRun.questions.map((_question, idx) => renderCell(fileId, idx))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {selectedCell && (
+            <div className="max-h-[40%] overflow-y-auto border-t border-slate-200 px-6 py-4 shrink-0 bg-slate-50/50">
+              <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">
+                {fileName(selectedCell.fileId) ?? 'Removed document'}
+              </p>
+              <p className="text-xs font-bold text-emerald-900 mb-2">{activeRun.questions[selectedCell.questionIndex]}</p>
+              {selectedCell.status === 'done' ? (
+                <div className="text-sm text-slate-700">
+                  <MarkdownContent content={selectedCell.answer ?? ''} />
+                </div>
+              ) : (
+                <p className="text-xs text-slate-400">
+                  {selectedCell.status === 'failed' ? selectedCell.error?.message : 'Not answered yet.'}
+                </p>
+              )}
+              {!!selectedCell.citations?.length && (
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {selectedCell.citations.map((citation, idx) => (
+                    <button
+                      key={idx}
+                      type="button"
+                      onClick={() => onOpenCitation(citation)}
+                      title={citation.quote}
+                      className="flex items-center gap-1 px-2 py-1 rounded-full border text-[10px] font-bold bg-emerald-50 text-emerald-800 border-emerald-200 hover:bg-emerald-100 transition-colors"
+                    >
+                      <span className="opacity-60">[{idx + 1}]</span>
+                      <span className="truncate max-w-[160px]">{citation.fileName}</span>
+                      {citation.page && <span className="opacity-70 font-mono">p.{citation.page}</span>}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
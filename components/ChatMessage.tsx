@@ -1,16 +1,110 @@
 
-import React from 'react';
-import { ChatMessage as ChatMessageType } from '../types';
+import React, { useState, useRef } from 'react';
+import { ChatMessage as ChatMessageType, Citation } from '../types';
+import MarkdownContent from './MarkdownContent';
+import { formatCost } from '../services/usage';
 
 interface ChatMessageProps {
   message: ChatMessageType;
+  onOpenCitation?: (citation: Citation) => void;
+  selectable?: boolean;
+  selected?: boolean;
+  onToggleSelected?: () => void;
+  // Offered on a failed question while it can still be asked again
+  onRetry?: () => void;
+  onRegenerate?: (temperature?: number) => void;
+  onEdit?: (content: string) => void;
+  // Position among alternative branches at this point of the conversation
+  siblings?: {
+    index: number;
+    count: number;
+    onSelect?: (index: number) => void;
+  };
 }
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
+const TEMPERATURE_PRESETS: { label: string; value?: number }[] = [
+  { label: 'Same settings' },
+  { label: 'Precise (0)', value: 0 },
+  { label: 'Balanced (0.7)', value: 0.7 },
+  { label: 'Creative (1.2)', value: 1.2 }
+];
+
+const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  onOpenCitation,
+  selectable,
+  selected,
+  onToggleSelected,
+  onRetry,
+  onRegenerate,
+  onEdit,
+  siblings
+}) => {
   const isUser = message.role === 'user';
+  const [activeCitation, setActiveCitation] = useState<number | null>(null);
+  const citations = message.citations || [];
+  const selectedCitation = activeCitation !== null ? citations[activeCitation] : undefined;
+  const [copied, setCopied] = useState<'text' | 'markdown' | null>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [isRegenerateMenuOpen, setIsRegenerateMenuOpen] = useState(false);
+
+  const submitEdit = () => {
+    if (!draft?.trim() || !onEdit) return;
+    onEdit(draft);
+    setDraft(null);
+  };
+
+  // Without an explicit choice the answer is regenerated at the temperature it was produced with
+  const regenerate = (temperature = message.temperature) => {
+    setIsRegenerateMenuOpen(false);
+    onRegenerate?.(temperature);
+  };
+
+  const flashCopied = (kind: 'text' | 'markdown') => {
+    setCopied(kind);
+    setTimeout(() => setCopied(null), 1500);
+  };
+
+  // Rendered copies carry HTML too, so pasting into a memo keeps tables and lists
+  const copyRendered = async () => {
+    const element = contentRef.current;
+    if (!element) return;
+    try {
+      if (typeof ClipboardItem !== 'undefined') {
+        await navigator.clipboard.write([new ClipboardItem({
+          'text/html': new Blob([element.innerHTML], { type: 'text/html' }),
+          'text/plain': new Blob([element.innerText], { type: 'text/plain' })
+        })]);
+      } else {
+        await navigator.clipboard.writeText(element.innerText);
+      }
+      flashCopied('text');
+    } catch (err) {
+      console.error("Clipboard error:", err);
+    }
+  };
+
+  const copyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(message.content);
+      flashCopied('markdown');
+    } catch (err) {
+      console.error("Clipboard error:", err);
+    }
+  };
 
   return (
-    <div className={`flex w-full mb-6 ${isUser ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-2 duration-500`}>
+    <div className={`flex w-full mb-6 items-start gap-3 ${isUser ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-2 duration-500`}>
+      {selectable && (
+        <input
+          type="checkbox"
+          checked={!!selected}
+          onChange={onToggleSelected}
+          className={`mt-3 shrink-0 accent-emerald-700 cursor-pointer ${isUser ? 'mr-auto' : ''}`}
+          title="Include in export"
+        />
+      )}
       <div className={`flex max-w-[85%] md:max-w-[75%] ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
         <div className={`flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center border-2 ${isUser ? 'bg-emerald-700 border-emerald-800 ml-3 shadow-md' : 'bg-white border-emerald-100 mr-3 shadow-sm'}`}>
           {isUser ? (
@@ -29,13 +123,184 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
               ? 'bg-emerald-700 text-white rounded-tr-none border border-emerald-800' 
               : 'bg-white text-slate-800 rounded-tl-none border border-emerald-50'
           }`}>
-            <p className="text-[13px] md:text-sm leading-relaxed whitespace-pre-wrap font-medium">
-               {message.content}
-            </p>
+            {isUser && draft !== null ? (
+              <div className="flex flex-col gap-2 min-w-[260px]">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      submitEdit();
+                    } else if (e.key === 'Escape') {
+                      setDraft(null);
+                    }
+                  }}
+                  rows={Math.min(8, draft.split('\n').length + 1)}
+                  autoFocus
+                  className="w-full px-2 py-1.5 rounded-lg bg-white text-slate-800 text-[13px] md:text-sm font-medium outline-none focus:ring-2 focus:ring-emerald-300 resize-y"
+                />
+                <div className="flex justify-end gap-2 text-[10px] font-bold uppercase tracking-wider">
+                  <button type="button" onClick={() => setDraft(null)} className="px-2 py-1 text-emerald-100 hover:text-white">
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={submitEdit}
+                    disabled={!draft.trim() || !onEdit}
+                    className="px-2 py-1 rounded-md bg-white text-emerald-800 hover:bg-emerald-50 disabled:opacity-50"
+                  >
+                    Send
+                  </button>
+                </div>
+              </div>
+            ) : isUser ? (
+              <p className="text-[13px] md:text-sm leading-relaxed whitespace-pre-wrap font-medium">
+                {message.content}
+              </p>
+            ) : (
+              <div className="text-[13px] md:text-sm leading-relaxed font-medium">
+                <MarkdownContent ref={contentRef} content={message.content} />
+                {message.isStreaming && (
+                  <span className="inline-block w-1.5 h-4 mt-1 bg-emerald-500 animate-pulse" />
+                )}
+              </div>
+            )}
           </div>
-          <span className="text-[9px] text-slate-400 mt-1 uppercase tracking-widest font-black">
+          {isUser && message.scope && message.scope.length > 0 && (
+            <p className="mt-1 max-w-full text-[10px] text-emerald-700 font-semibold truncate" title={message.scope.join('\n')}>
+              Scope: {message.scope.length <= 3
+                ? message.scope.join(', ')
+                : `${message.scope.slice(0, 3).join(', ')} +${message.scope.length - 3} more`}
+            </p>
+          )}
+          {isUser && message.error && (
+            <div className="mt-2 flex items-center gap-3 max-w-full px-3 py-2 rounded-lg border border-red-200 bg-red-50 text-[12px] text-red-700 font-medium">
+              <svg className="w-4 h-4 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z" />
+              </svg>
+              <span>{message.error.message}</span>
+              {onRetry && (
+                <button
+                  type="button"
+                  onClick={onRetry}
+                  className="shrink-0 px-2 py-1 rounded-md bg-red-600 text-white text-[10px] font-bold uppercase tracking-wider hover:bg-red-700 transition-colors"
+                >
+                  Retry
+                </button>
+              )}
+            </div>
+          )}
+          {!isUser && citations.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {citations.map((citation, idx) => (
+                <button
+                  key={idx}
+                  type="button"
+                  onClick={() => {
+                    setActiveCitation(idx);
+                    onOpenCitation?.(citation);
+                  }}
+                  title={citation.quote}
+                  className={`flex items-center gap-1 px-2 py-1 rounded-full border text-[10px] font-bold transition-colors ${
+                    activeCitation === idx
+                      ? 'bg-emerald-700 text-white border-emerald-800'
+                      : 'bg-emerald-50 text-emerald-800 border-emerald-200 hover:bg-emerald-100'
+                  }`}
+                >
+                  <span className="opacity-60">[{idx + 1}]</span>
+                  <span className="truncate max-w-[160px]">{citation.fileName}</span>
+                  {citation.page && <span className="opacity-70 font-mono">p.{citation.page}</span>}
+                </button>
+              ))}
+            </div>
+          )}
+          {selectedCitation && (
+            <blockquote className="mt-2 w-full border-l-2 border-emerald-400 bg-emerald-50/60 px-3 py-2 rounded-r-lg text-[12px] text-slate-600 italic">
+              "{selectedCitation.quote}"
+              <span className="block mt-1 not-italic text-[9px] font-black uppercase tracking-widest text-emerald-700">
+                {selectedCitation.fileName}{selectedCitation.page ? ` • Page ${selectedCitation.page}` : ''}
+              </span>
+            </blockquote>
+          )}
+          <span className="relative text-[9px] text-slate-400 mt-1 uppercase tracking-widest font-black">
+            {siblings && (
+              <span className="mr-2 inline-flex items-center gap-1 font-mono" title="Alternative versions of this message">
+                <button
+                  type="button"
+                  onClick={() => siblings.onSelect?.(siblings.index - 1)}
+                  disabled={!siblings.onSelect || siblings.index === 0}
+                  className="px-1 hover:text-emerald-700 disabled:opacity-30"
+                >
+                  ‹
+                </button>
+                {siblings.index + 1}/{siblings.count}
+                <button
+                  type="button"
+                  onClick={() => siblings.onSelect?.(siblings.index + 1)}
+                  disabled={!siblings.onSelect || siblings.index === siblings.count - 1}
+                  className="px-1 hover:text-emerald-700 disabled:opacity-30"
+                >
+                  ›
+                </button>
+              </span>
+            )}
             {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} 
             {isUser ? ' • USER' : ' • ASSISTANT'}
+            {message.model && ` • ${message.model}`}
+            {message.temperature !== undefined && ` • T ${message.temperature}`}
+            {message.stopped && ' • STOPPED'}
+            {message.usage && (
+              <span title={`${message.usage.promptTokens.toLocaleString()} prompt + ${message.usage.responseTokens.toLocaleString()} response tokens${message.usage.estimated ? ' (estimated)' : ''}`}>
+                {` • ${(message.usage.promptTokens + message.usage.responseTokens).toLocaleString()} TOKENS • ${formatCost(message.usage.cost)}`}
+              </span>
+            )}
+            {!isUser && !message.isStreaming && (
+              <>
+                <button onClick={copyRendered} className="ml-2 hover:text-emerald-700 transition-colors" title="Copy formatted answer">
+                  {copied === 'text' ? 'COPIED' : 'COPY'}
+                </button>
+                <button onClick={copyMarkdown} className="ml-2 hover:text-emerald-700 transition-colors" title="Copy raw Markdown">
+                  {copied === 'markdown' ? 'COPIED' : 'COPY MD'}
+                </button>
+                {onRegenerate && (
+                  <>
+                    <button onClick={() => regenerate()} className="ml-2 hover:text-emerald-700 transition-colors" title="Answer this question again">
+                      REGENERATE
+                    </button>
+                    <button
+                      onClick={() => setIsRegenerateMenuOpen(prev => !prev)}
+                      className="ml-0.5 px-0.5 hover:text-emerald-700 transition-colors"
+                      title="Regenerate at a different temperature"
+                    >
+                      ▾
+                    </button>
+                    {isRegenerateMenuOpen && (
+                      <div className="absolute left-0 top-full mt-1 z-10 flex flex-col bg-white border border-emerald-100 rounded-lg shadow-lg py-1 normal-case tracking-normal">
+                        {TEMPERATURE_PRESETS.map(preset => (
+                          <button
+                            key={preset.label}
+                            onClick={() => regenerate(preset.value)}
+                            className="px-3 py-1.5 text-left text-[11px] font-semibold text-slate-600 hover:bg-emerald-50 hover:text-emerald-900"
+                          >
+                            {preset.label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+            {isUser && onEdit && draft === null && (
+              <button
+                onClick={() => setDraft(message.content)}
+                className="ml-2 hover:text-emerald-700 transition-colors"
+                title="Edit and resend as a new branch"
+              >
+                EDIT
+              </button>
+            )}
           </span>
         </div>
       </div>
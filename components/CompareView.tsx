@@ -0,0 +1,264 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChangeSection, DiffHunk, FileData, TokenUsage, ViewerTarget } from '../types';
+import { AskOptions, summarizeChanges } from '../services/geminiService';
+import { toAskError } from '../services/errors';
+import { canCompare, diffDocuments, diffWords } from '../services/diff';
+import { versionOf } from '../services/versions';
+
+interface CompareViewProps {
+  // Revisions in order, oldest first; each is compared with the one before it
+  files: FileData[];
+  askOptions: Pick<AskOptions, 'selection' | 'systemInstruction'>;
+  onUsage: (usage: TokenUsage, files: FileData[]) => void;
+  // Opens the exact file, since two versions of one document share a name
+  onOpenPassage: (target: ViewerTarget) => void;
+  onClose: () => void;
+}
+
+type KindFilter = 'all' | DiffHunk['kind'];
+
+const KIND_STYLES: Record<DiffHunk['kind'], { label: string; className: string }> = {
+  changed: { label: 'Changed', className: 'bg-amber-100 text-amber-800' },
+  added: { label: 'Added', className: 'bg-emerald-100 text-emerald-800' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-700' }
+};
+
+// Opening words of a passage, long enough for the viewer to find and highlight it
+const quoteOf = (text: string) => text.split(/\s+/).slice(0, 25).join(' ');
+
+const CompareView: React.FC<CompareViewProps> = ({ files, askOptions, onUsage, onOpenPassage, onClose }) => {
+  const [order, setOrder] = useState(files);
+  const [pairIndex, setPairIndex] = useState(0);
+  const [filter, setFilter] = useState<KindFilter>('all');
+  const [summaries, setSummaries] = useState<Record<string, ChangeSection[]>>({});
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [focusedHunk, setFocusedHunk] = useState<number | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const base = order[pairIndex];
+  const revised = order[pairIndex + 1];
+  const pairKey = `${base.id}:${revised.id}`;
+  const hunks = useMemo(() => diffDocuments(base, revised), [base, revised]);
+  const visibleHunks = filter === 'all' ? hunks : hunks.filter(hunk => hunk.kind === filter);
+  const sections = summaries[pairKey];
+  const unreadable = [base, revised].filter(file => !canCompare(file));
+  // Versions of one document share a name
+  const labelOf = (file: FileData) =>
+    order.some(other => other !== file && other.name === file.name) ? `${file.name} v${versionOf(file)}` : file.name;
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (focusedHunk !== null) document.getElementById(`hunk-${focusedHunk}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusedHunk]);
+
+  const selectPair = (index: number) => {
+    controllerRef.current?.abort();
+    setPairIndex(index);
+    setFocusedHunk(null);
+    setSummaryError(null);
+  };
+
+  const reverseOrder = () => {
+    controllerRef.current?.abort();
+    setOrder([...order].reverse());
+    setPairIndex(0);
+    setFocusedHunk(null);
+    setSummaryError(null);
+  };
+
+  const summarize = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsSummarizing(true);
+    setSummaryError(null);
+    try {
+      const result = await summarizeChanges(labelOf(base), labelOf(revised), hunks, { ...askOptions, signal: controller.signal });
+      setSummaries(prev => ({ ...prev, [pairKey]: result.sections }));
+      if (result.usage) onUsage(result.usage, [base, revised]);
+    } catch (err) {
+      if (!controller.signal.aborted) setSummaryError(toAskError(err).message);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsSummarizing(false);
+      }
+    }
+  };
+
+  const counts = {
+    changed: hunks.filter(hunk => hunk.kind === 'changed').length,
+    added: hunks.filter(hunk => hunk.kind === 'added').length,
+    removed: hunks.filter(hunk => hunk.kind === 'removed').length
+  };
+
+  const passageLink = (file: FileData, page: number | undefined, text: string) => (
+    <button
+      type="button"
+      onClick={() => onOpenPassage({ fileName: file.name, fileId: file.id, page, quote: text ? quoteOf(text) : undefined })}
+      className="flex items-center gap-1 px-2 py-0.5 rounded-full border text-[10px] font-bold bg-emerald-50 text-emerald-800 border-emerald-200 hover:bg-emerald-100 transition-colors"
+      title={text ? `Open this passage in ${file.name}` : `Open ${file.name} where the passage would be`}
+    >
+      <span className="truncate max-w-[140px]">{labelOf(file)}</span>
+      {page && <span className="opacity-70 font-mono">p.{page}</span>}
+    </button>
+  );
+
+  const renderHunkText = (hunk: DiffHunk) => {
+    if (hunk.kind === 'added') return <span className="bg-emerald-100 text-emerald-900">{hunk.after}</span>;
+    if (hunk.kind === 'removed') return <span className="bg-red-100 text-red-800 line-through">{hunk.before}</span>;
+    return diffWords(hunk.before, hunk.after).map((word, idx) =>
+      word.type === 'equal' ? <span key={idx}>{word.text}</span>
+        : word.type === 'delete' ? <del key={idx} className="bg-red-100 text-red-800">{word.text}</del>
+        : <ins key={idx} className="bg-emerald-100 text-emerald-900 no-underline">{word.text}</ins>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center justify-between gap-3 px-6 py-3 border-b border-slate-200 shrink-0">
+        <div className="flex items-center gap-3 min-w-0">
+          <h2 className="text-sm font-black text-emerald-900 uppercase tracking-tight shrink-0">Compare</h2>
+          <div className="flex items-center gap-1.5 min-w-0 overflow-x-auto">
+            {order.slice(0, -1).map((file, idx) => (
+              <button
+                key={`${file.id}:${order[idx + 1].id}`}
+                type="button"
+                onClick={() => selectPair(idx)}
+                className={`shrink-0 px-2.5 py-1 rounded-lg border text-[10px] font-bold transition-colors ${
+                  idx === pairIndex
+                    ? 'bg-emerald-50 border-emerald-500 text-emerald-900'
+                    : 'bg-white border-slate-100 text-slate-500 hover:border-emerald-200'
+                }`}
+              >
+                <span className="truncate max-w-[140px] inline-block align-bottom">{labelOf(file)}</span>
+                {' → '}
+                <span className="truncate max-w-[140px] inline-block align-bottom">{labelOf(order[idx + 1])}</span>
+              </button>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={reverseOrder}
+            className="shrink-0 text-[10px] font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-wider"
+            title="Treat the last document as the oldest revision"
+          >
+            Reverse
+          </button>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="shrink-0 text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider"
+        >
+          Back to Chat
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-4 min-h-0">
+        <div className="max-w-4xl mx-auto space-y-4">
+          {unreadable.length > 0 ? (
+            <p className="p-4 rounded-xl border border-amber-200 bg-amber-50 text-xs text-amber-800">
+              {unreadable.map(labelOf).join(' and ')} {unreadable.length > 1 ? 'have' : 'has'} no extracted text, so there is
+              nothing to compare. Scanned documents need a text layer first.
+            </p>
+          ) : (
+          <>
+          <div className="p-4 rounded-xl border border-emerald-100 bg-emerald-50/40">
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <span className="text-[10px] font-bold uppercase tracking-wider text-emerald-700">Summary of Changes</span>
+              <button
+                type="button"
+                onClick={summarize}
+                disabled={isSummarizing || hunks.length === 0}
+                className="px-3 py-1.5 bg-emerald-700 text-white rounded-lg text-[10px] font-bold uppercase tracking-wider hover:bg-emerald-800 disabled:bg-slate-300 shadow-sm active:scale-95 transition-all"
+              >
+                {isSummarizing ? 'Summarizing...' : sections ? 'Summarize Again' : 'Summarize with AI'}
+              </button>
+            </div>
+            {summaryError && <p className="text-xs text-red-600 font-medium">{summaryError}</p>}
+            {!sections && !summaryError && (
+              <p className="text-xs text-slate-500">
+                {hunks.length === 0
+                  ? 'The two documents have the same text.'
+                  : 'The model groups the changes below by section and explains the substantive ones. Only the changed passages are sent.'}
+              </p>
+            )}
+            {sections?.length === 0 && <p className="text-xs text-slate-500">The model found no substantive changes.</p>}
+            {sections && sections.length > 0 && (
+              <div className="space-y-3">
+                {sections.map((section, idx) => (
+                  <div key={idx}>
+                    <p className="text-xs font-bold text-emerald-900">{section.title}</p>
+                    <p className="text-xs text-slate-700 mt-0.5 whitespace-pre-wrap">{section.summary}</p>
+                    {section.hunkIds.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {section.hunkIds.map(id => (
+                          <button
+                            key={id}
+                            type="button"
+                            onClick={() => {
+                              setFilter('all');
+                              setFocusedHunk(id);
+                            }}
+                            className="px-1.5 py-0.5 rounded bg-white border border-emerald-200 text-[9px] font-bold text-emerald-700 hover:bg-emerald-100"
+                          >
+                            #{id}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            {(['all', 'changed', 'added', 'removed'] as KindFilter[]).map(kind => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => setFilter(kind)}
+                className={`px-3 py-1.5 rounded-lg border text-[10px] font-bold uppercase tracking-wider transition-colors ${
+                  filter === kind
+                    ? 'bg-emerald-50 border-emerald-500 text-emerald-900'
+                    : 'bg-white border-slate-100 text-slate-500 hover:border-emerald-200'
+                }`}
+              >
+                {kind === 'all' ? `All (${hunks.length})` : `${KIND_STYLES[kind].label} (${counts[kind]})`}
+              </button>
+            ))}
+          </div>
+
+          {visibleHunks.map(hunk => (
+            <div
+              key={hunk.id}
+              id={`hunk-${hunk.id}`}
+              className={`p-3 rounded-xl border transition-colors ${
+                focusedHunk === hunk.id ? 'border-emerald-500 ring-1 ring-emerald-500' : 'border-slate-100'
+              }`}
+            >
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <span className="text-[10px] font-black text-slate-400">#{hunk.id}</span>
+                <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase ${KIND_STYLES[hunk.kind].className}`}>
+                  {KIND_STYLES[hunk.kind].label}
+                </span>
+                <div className="flex items-center gap-1.5 ml-auto">
+                  {passageLink(base, hunk.beforePage, hunk.before)}
+                  {passageLink(revised, hunk.afterPage, hunk.after)}
+                </div>
+              </div>
+              <p className="text-xs text-slate-700 leading-relaxed">{renderHunkText(hunk)}</p>
+            </div>
+          ))}
+          </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
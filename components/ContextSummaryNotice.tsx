@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+import { ConversationSummary } from '../types';
+
+interface ContextSummaryNoticeProps {
+  summary: ConversationSummary;
+}
+
+// Marks where the verbatim context ends: messages above it reach the model only as a summary
+const ContextSummaryNotice: React.FC<ContextSummaryNoticeProps> = ({ summary }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="mb-6 flex flex-col items-center animate-in fade-in duration-500">
+      <div className="flex items-center w-full gap-3">
+        <div className="flex-1 border-t border-dashed border-emerald-200" />
+        <button
+          onClick={() => setIsExpanded(prev => !prev)}
+          className="text-[9px] uppercase tracking-widest font-black text-emerald-700 hover:text-emerald-900 transition-colors"
+          title="The model receives the messages above as a summary"
+        >
+          {summary.coveredCount} earlier messages condensed {isExpanded ? '▴' : '▾'}
+        </button>
+        <div className="flex-1 border-t border-dashed border-emerald-200" />
+      </div>
+      {isExpanded && (
+        <p className="mt-2 max-w-[75%] bg-emerald-50/60 border border-emerald-100 rounded-lg px-3 py-2 text-[12px] text-slate-600 whitespace-pre-wrap">
+          {summary.text || 'The summary is empty.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ContextSummaryNotice;
@@ -0,0 +1,79 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FileData, ViewerTarget } from '../types';
+import { getFormatInfo } from '../services/ingestion';
+
+interface DocumentPreviewProps {
+  file: FileData;
+  target: ViewerTarget;
+  onClose: () => void;
+}
+
+// Read-only preview for the non-PDF formats: images as-is, everything else as extracted text
+const DocumentPreview: React.FC<DocumentPreviewProps> = ({ file, target, onClose }) => {
+  const markRef = useRef<HTMLElement>(null);
+  const format = getFormatInfo(file.mimeType);
+  const text = (file.pages ?? []).join('\n\n');
+
+  // Split the text around the first case-insensitive occurrence of the quote
+  const segments = useMemo(() => {
+    const quote = target.quote?.trim();
+    if (!quote) return null;
+    const index = text.toLowerCase().indexOf(quote.toLowerCase());
+    if (index < 0) return null;
+    return [text.slice(0, index), text.slice(index, index + quote.length), text.slice(index + quote.length)];
+  }, [text, target]);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [segments]);
+
+  const [imageUrl, setImageUrl] = useState<string>();
+  useEffect(() => {
+    if (format.format !== 'image') return;
+    const url = URL.createObjectURL(file.blob);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file, format.format]);
+
+  return (
+    <aside className="flex flex-col w-full md:w-[45%] h-full min-w-0 bg-slate-100 border-l border-slate-200">
+      <div className="flex items-center justify-between gap-2 px-4 py-3 bg-white border-b border-slate-200 shrink-0">
+        <div className="overflow-hidden">
+          <p className="text-[10px] text-emerald-600 font-bold uppercase tracking-[0.15em]">Document Viewer • {format.label}</p>
+          <p className="text-xs font-bold text-slate-700 truncate" title={file.name}>{file.name}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-slate-400 hover:text-red-500 transition-colors p-1"
+          title="Close viewer"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 custom-scrollbar">
+        {format.format === 'image' ? (
+          <img
+            src={imageUrl}
+            alt={file.name}
+            className="mx-auto max-w-full shadow-lg bg-white"
+          />
+        ) : (
+          <pre className="whitespace-pre-wrap break-words bg-white shadow-lg p-6 text-[12px] leading-relaxed text-slate-700 font-mono">
+            {segments ? (
+              <>
+                {segments[0]}
+                <mark ref={markRef} className="bg-yellow-300/60 rounded-sm">{segments[1]}</mark>
+                {segments[2]}
+              </>
+            ) : text || 'No text could be extracted from this document.'}
+          </pre>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default DocumentPreview;
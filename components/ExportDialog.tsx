@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { ExportFormat } from '../services/export';
+
+interface ExportDialogProps {
+  totalCount: number;
+  selectedCount: number;
+  onClose: () => void;
+  onStartSelecting: () => void;
+  onExport: (format: ExportFormat, onlySelected: boolean) => void;
+}
+
+const FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: 'markdown', label: 'Markdown', description: 'For memos and wikis (.md)' },
+  { value: 'html', label: 'HTML', description: 'Self-contained report (.html)' },
+  { value: 'pdf', label: 'PDF', description: 'Printable report via the print dialog' },
+  { value: 'txt', label: 'Plain Text', description: 'Simple log (.txt)' }
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ totalCount, selectedCount, onClose, onStartSelecting, onExport }) => {
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [onlySelected, setOnlySelected] = useState(selectedCount > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-white rounded-2xl shadow-xl border border-emerald-100 p-6 animate-in fade-in slide-in-from-bottom-2"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-sm font-black text-emerald-900 uppercase tracking-tight">Export Conversation</h2>
+        <p className="text-[10px] text-slate-400 font-bold uppercase mb-4">Includes document list, hashes and citations</p>
+
+        <div className="grid grid-cols-2 gap-2 mb-5">
+          {FORMATS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setFormat(option.value)}
+              className={`text-left p-3 rounded-xl border transition-colors ${
+                format === option.value
+                  ? 'bg-emerald-50 border-emerald-500 ring-1 ring-emerald-500'
+                  : 'bg-white border-slate-100 hover:border-emerald-200'
+              }`}
+            >
+              <span className="block text-xs font-bold text-emerald-900">{option.label}</span>
+              <span className="block text-[10px] text-slate-500 mt-0.5">{option.description}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2 mb-6 text-xs font-medium text-slate-700">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="radio" checked={!onlySelected} onChange={() => setOnlySelected(false)} className="accent-emerald-700" />
+            Entire conversation ({totalCount} messages)
+          </label>
+          <label className={`flex items-center gap-2 ${selectedCount === 0 ? 'opacity-40' : 'cursor-pointer'}`}>
+            <input
+              type="radio"
+              checked={onlySelected}
+              disabled={selectedCount === 0}
+              onChange={() => setOnlySelected(true)}
+              className="accent-emerald-700"
+            />
+            Selected messages ({selectedCount})
+          </label>
+          <button
+            type="button"
+            onClick={onStartSelecting}
+            className="text-[10px] font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-wider"
+          >
+            {selectedCount > 0 ? 'Change selection' : 'Select messages...'}
+          </button>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onExport(format, onlySelected && selectedCount > 0)}
+            className="px-4 py-2 bg-emerald-700 text-white rounded-xl text-xs font-bold uppercase tracking-wider hover:bg-emerald-800 shadow-md active:scale-95 transition-all"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
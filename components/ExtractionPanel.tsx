@@ -0,0 +1,489 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Citation, ExtractionField, ExtractionRow, ExtractionTable, FileData, TokenUsage } from '../types';
+import { AskOptions } from '../services/geminiService';
+import { DEFAULT_BATCH_CONCURRENCY } from '../services/batch';
+import {
+  coerceValue,
+  createExtractionTable,
+  createField,
+  extractionProgress,
+  ExtractionExportFormat,
+  exportExtraction,
+  FIELD_TYPES,
+  formatValue,
+  getSchemaProblems,
+  revalidateRow,
+  runExtraction,
+  updateExtractionRow
+} from '../services/extraction';
+
+interface ExtractionPanelProps {
+  tables: ExtractionTable[];
+  files: FileData[];
+  // Documents ticked in the sidebar, preselected for a new table
+  selectedFileIds: string[];
+  askOptions: Pick<AskOptions, 'selection' | 'systemInstruction'>;
+  onCreate: (table: ExtractionTable) => void;
+  onUpdate: (tableId: string, updater: (table: ExtractionTable) => ExtractionTable) => void;
+  onDelete: (tableId: string) => void;
+  onUsage: (usage: TokenUsage, file: FileData) => void;
+  onOpenCitation: (citation: Citation) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-100 rounded-lg bg-slate-50 text-xs font-medium text-slate-700 focus:bg-white focus:ring-2 focus:ring-emerald-500 outline-none";
+
+const STATUS_BADGES: Record<ExtractionRow['status'], { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-slate-100 text-slate-500' },
+  done: { label: 'Valid', className: 'bg-emerald-100 text-emerald-800' },
+  invalid: { label: 'Review', className: 'bg-amber-100 text-amber-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' }
+};
+
+const ExtractionPanel: React.FC<ExtractionPanelProps> = ({
+  tables,
+  files,
+  selectedFileIds,
+  askOptions,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onUsage,
+  onOpenCitation,
+  onClose
+}) => {
+  const [activeTableId, setActiveTableId] = useState(tables[tables.length - 1]?.id ?? '');
+  const [isCreating, setIsCreating] = useState(tables.length === 0);
+  const [name, setName] = useState('');
+  const [draftFields, setDraftFields] = useState<ExtractionField[]>([createField()]);
+  const [draftFileIds, setDraftFileIds] = useState<string[]>(selectedFileIds.length > 0 ? selectedFileIds : files.map(file => file.id));
+  const [isRunning, setIsRunning] = useState(false);
+  const [inFlight, setInFlight] = useState<string[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const activeTable = tables.find(table => table.id === activeTableId);
+  const progress = activeTable ? extractionProgress(activeTable) : null;
+  const schemaProblems = getSchemaProblems(draftFields);
+
+  // Leaving the view stops extraction; finished rows are already saved, so it can be resumed
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const updateDraftField = (fieldId: string, patch: Partial<ExtractionField>) => {
+    setDraftFields(prev => prev.map(field => field.id === fieldId ? { ...field, ...patch } : field));
+  };
+
+  const startCreating = (fields: ExtractionField[] = [createField()]) => {
+    setDraftFields(fields);
+    setName('');
+    setIsCreating(true);
+  };
+
+  const createTable = () => {
+    if (schemaProblems.length > 0 || draftFileIds.length === 0) return;
+    const fields = draftFields.map(field => ({ ...field, name: field.name.trim(), description: field.description.trim() }));
+    const fileIds = files.filter(file => draftFileIds.includes(file.id)).map(file => file.id);
+    const table = createExtractionTable(name.trim() || `Extraction ${tables.length + 1}`, fields, fileIds);
+    onCreate(table);
+    setActiveTableId(table.id);
+    setIsCreating(false);
+    setNotice(null);
+  };
+
+  const startRun = async (fileIds?: string[]) => {
+    if (!activeTable || isRunning) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setNotice(null);
+
+    try {
+      await runExtraction(activeTable, files, {
+        ...askOptions,
+        concurrency: DEFAULT_BATCH_CONCURRENCY,
+        fileIds,
+        signal: controller.signal,
+        onStart: (fileId) => setInFlight(prev => [...prev, fileId]),
+        onRow: (row) => {
+          setInFlight(prev => prev.filter(id => id !== row.fileId));
+          onUpdate(activeTable.id, table => updateExtractionRow(table, row));
+        },
+        onUsage: (usage, fileId) => {
+          const file = files.find(f => f.id === fileId);
+          if (file) onUsage(usage, file);
+        }
+      });
+    } finally {
+      controllerRef.current = null;
+      setInFlight([]);
+      setIsRunning(false);
+      if (activeTable.rows.some(row => !files.some(file => file.id === row.fileId))) {
+        setNotice('Documents removed from the workspace were skipped.');
+      }
+    }
+  };
+
+  const stopRun = () => controllerRef.current?.abort();
+
+  // Hand corrections are kept when the row is extracted again
+  const editValue = (row: ExtractionRow, field: ExtractionField, input: unknown) => {
+    const { value } = coerceValue(field, input);
+    onUpdate(activeTableId, table => {
+      const current = table.rows.find(r => r.fileId === row.fileId) ?? row;
+      const edited: ExtractionRow = {
+        ...current,
+        values: { ...current.values, [field.id]: value },
+        citations: (current.citations ?? []).filter(citation => citation.field !== field.id),
+        editedFieldIds: [...new Set([...(current.editedFieldIds ?? []), field.id])]
+      };
+      return updateExtractionRow(table, revalidateRow(table.fields, edited));
+    });
+  };
+
+  const deleteTable = () => {
+    if (!activeTable || !window.confirm(`Delete the extraction "${activeTable.name}" and its values?`)) return;
+    onDelete(activeTable.id);
+    const remaining = tables.filter(table => table.id !== activeTable.id);
+    setActiveTableId(remaining[remaining.length - 1]?.id ?? '');
+    setIsCreating(remaining.length === 0);
+  };
+
+  const handleExport = (format: ExtractionExportFormat) => {
+    if (!activeTable) return;
+    exportExtraction(activeTable, files, format).catch((err) => {
+      console.error("Extraction export error:", err);
+      setNotice('The export could not be created.');
+    });
+  };
+
+  const fileName = (fileId: string) => files.find(file => file.id === fileId)?.name;
+
+  const renderInput = (row: ExtractionRow, field: ExtractionField) => {
+    const value = row.values[field.id];
+    const issue = row.issues?.find(i => i.fieldId === field.id);
+    const citation = row.citations?.find(c => c.field === field.id);
+    const disabled = isRunning || inFlight.includes(row.fileId);
+    const cellClass = `w-full px-2 py-1 rounded-md border bg-white text-[11px] text-slate-700 outline-none focus:ring-2 focus:ring-emerald-500 disabled:bg-slate-50 ${
+      issue ? 'border-amber-400' : 'border-slate-100'
+    }`;
+
+    return (
+      <td key={field.id} className="border-t border-l border-slate-100 px-2 py-1.5 align-top" title={issue?.message}>
+        {field.type === 'boolean' ? (
+          <select
+            value={value === null || value === undefined ? '' : String(value)}
+            onChange={(e) => editValue(row, field, e.target.value)}
+            disabled={disabled}
+            className={cellClass}
+          >
+            <option value="">—</option>
+            <option value="true">Yes</option>
+            <option value="false">No</option>
+          </select>
+        ) : (
+          // Uncontrolled so a half-typed number or date is not coerced on every keystroke
+          <input
+            key={`${row.fileId}:${formatValue(value)}`}
+            type={field.type === 'date' && (value === null || /^\d{4}-\d{2}-\d{2}$/.test(String(value ?? ''))) ? 'date' : 'text'}
+            defaultValue={formatValue(value)}
+            onBlur={(e) => {
+              if (e.target.value !== formatValue(value)) editValue(row, field, e.target.value);
+            }}
+            disabled={disabled}
+            className={cellClass}
+          />
+        )}
+        <div className="flex items-center gap-1.5 mt-0.5 text-[9px] font-bold">
+          {citation && (
+            <button
+              type="button"
+              onClick={() => onOpenCitation(citation)}
+              title={citation.quote}
+              className="text-emerald-700 hover:text-emerald-900"
+            >
+              {citation.page ? `p.${citation.page}` : 'Source'}
+            </button>
+          )}
+          {row.editedFieldIds?.includes(field.id) && <span className="text-slate-400 uppercase">Edited</span>}
+          {issue && <span className="text-amber-700 truncate max-w-[160px]">{issue.message}</span>}
+        </div>
+      </td>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex items-center justify-between gap-3 px-6 py-3 border-b border-slate-200 shrink-0">
+        <div className="flex items-center gap-3 min-w-0">
+          <h2 className="text-sm font-black text-emerald-900 uppercase tracking-tight shrink-0">Extraction</h2>
+          {tables.length > 0 && (
+            <select
+              value={isCreating ? '' : activeTableId}
+              onChange={(e) => {
+                setActiveTableId(e.target.value);
+                setIsCreating(false);
+              }}
+              disabled={isRunning}
+              className="px-2 py-1 border border-slate-100 rounded-lg bg-slate-50 text-xs font-medium text-slate-700 outline-none max-w-[240px]"
+            >
+              {isCreating && <option value="">New extraction</option>}
+              {tables.map(table => (
+                <option key={table.id} value={table.id}>{table.name}</option>
+              ))}
+            </select>
+          )}
+          <button
+            type="button"
+            onClick={() => startCreating()}
+            disabled={isRunning || isCreating}
+            className="text-[10px] font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-wider disabled:opacity-30"
+          >
+            + New Schema
+          </button>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider"
+        >
+          Back to Chat
+        </button>
+      </div>
+
+      {notice && (
+        <div className="mx-6 mt-3 px-3 py-2 rounded-lg bg-emerald-50 border border-emerald-100 text-xs font-medium text-emerald-800">
+          {notice}
+        </div>
+      )}
+
+      {isCreating ? (
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          <div className="max-w-4xl space-y-4">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Schema name, e.g. Supplier contracts"
+              className={`${inputClass} max-w-sm`}
+            />
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_110px_2fr_70px_24px] gap-2 text-[10px] font-bold uppercase tracking-wider text-slate-500">
+                <span>Field</span>
+                <span>Type</span>
+                <span>What to look for</span>
+                <span>Required</span>
+                <span />
+              </div>
+              {draftFields.map(field => (
+                <div key={field.id} className="grid grid-cols-[1fr_110px_2fr_70px_24px] gap-2 items-center">
+                  <input
+                    value={field.name}
+                    onChange={(e) => updateDraftField(field.id, { name: e.target.value })}
+                    placeholder="Termination date"
+                    className={inputClass}
+                  />
+                  <select
+                    value={field.type}
+                    onChange={(e) => updateDraftField(field.id, { type: e.target.value as ExtractionField['type'] })}
+                    className={inputClass}
+                  >
+                    {FIELD_TYPES.map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    value={field.description}
+                    onChange={(e) => updateDraftField(field.id, { description: e.target.value })}
+                    placeholder="Date the contract ends if not renewed"
+                    className={inputClass}
+                  />
+                  <input
+                    type="checkbox"
+                    checked={field.required}
+                    onChange={(e) => updateDraftField(field.id, { required: e.target.checked })}
+                    className="justify-self-center accent-emerald-600"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setDraftFields(prev => prev.filter(f => f.id !== field.id))}
+                    className="text-slate-400 hover:text-red-600"
+                    title="Remove field"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setDraftFields(prev => [...prev, createField()])}
+                className="text-[10px] font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-wider"
+              >
+                + Add Field
+              </button>
+            </div>
+
+            <div>
+              <div className="flex items-center gap-3 mb-2 text-[10px] font-bold uppercase tracking-wider">
+                <span className="text-slate-500">Documents</span>
+                <button
+                  type="button"
+                  onClick={() => setDraftFileIds(draftFileIds.length === files.length ? [] : files.map(file => file.id))}
+                  className="text-emerald-700 hover:text-emerald-900"
+                >
+                  {draftFileIds.length === files.length ? 'None' : 'All'}
+                </button>
+              </div>
+              <div className="max-h-48 overflow-y-auto border border-slate-100 rounded-xl divide-y divide-slate-100 max-w-xl">
+                {files.length === 0 && (
+                  <p className="p-4 text-center text-xs text-slate-400 font-medium">Upload documents first.</p>
+                )}
+                {files.map(file => (
+                  <label key={file.id} className="flex items-center gap-2 px-3 py-2 text-xs text-slate-700 cursor-pointer hover:bg-slate-50">
+                    <input
+                      type="checkbox"
+                      checked={draftFileIds.includes(file.id)}
+                      onChange={() => setDraftFileIds(prev => prev.includes(file.id) ? prev.filter(id => id !== file.id) : [...prev, file.id])}
+                      className="accent-emerald-600"
+                    />
+                    <span className="truncate">{file.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {schemaProblems.length > 0 && (
+              <p className="text-[10px] font-medium text-amber-700">{schemaProblems.join(' ')}</p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={createTable}
+                disabled={schemaProblems.length > 0 || draftFileIds.length === 0}
+                className="px-4 py-2 bg-emerald-700 text-white rounded-xl text-xs font-bold uppercase tracking-wider hover:bg-emerald-800 disabled:bg-slate-300 shadow-md active:scale-95 transition-all"
+              >
+                Create Table
+              </button>
+              {tables.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setIsCreating(false)}
+                  className="px-4 py-2 text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      ) : activeTable && progress && (
+        <>
+          <div className="flex flex-wrap items-center gap-4 px-6 py-3 border-b border-slate-100 shrink-0">
+            <div className="flex-1 min-w-[200px] flex gap-3 text-[10px] font-bold uppercase tracking-wider">
+              <span className="text-emerald-700">{progress.done} of {progress.total} valid</span>
+              {progress.invalid > 0 && <span className="text-amber-700">{progress.invalid} to review</span>}
+              {progress.failed > 0 && <span className="text-red-600">{progress.failed} failed</span>}
+            </div>
+            {isRunning ? (
+              <button
+                type="button"
+                onClick={stopRun}
+                className="px-4 py-2 bg-red-600 text-white rounded-xl text-xs font-bold uppercase tracking-wider hover:bg-red-700 shadow-md active:scale-95 transition-all"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => startRun()}
+                disabled={progress.done === progress.total}
+                className="px-4 py-2 bg-emerald-700 text-white rounded-xl text-xs font-bold uppercase tracking-wider hover:bg-emerald-800 disabled:bg-slate-300 shadow-md active:scale-95 transition-all"
+                title="Extracts every document that has no valid row yet"
+              >
+                {progress.done + progress.invalid + progress.failed === 0 ? 'Extract' : 'Extract Remaining'}
+              </button>
+            )}
+            <div className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-wider">
+              <button
+                type="button"
+                onClick={() => startCreating(activeTable.fields.map(field => ({ ...field, id: crypto.randomUUID() })))}
+                disabled={isRunning}
+                className="text-emerald-700 hover:text-emerald-900 disabled:opacity-30"
+                title="Start a new table from this schema"
+              >
+                Copy Schema
+              </button>
+              <button type="button" onClick={() => handleExport('csv')} className="text-emerald-700 hover:text-emerald-900">
+                CSV
+              </button>
+              <button type="button" onClick={() => handleExport('xlsx')} className="text-emerald-700 hover:text-emerald-900">
+                XLSX
+              </button>
+              <button type="button" onClick={deleteTable} disabled={isRunning} className="text-slate-400 hover:text-red-600 disabled:opacity-30">
+                Delete
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-auto min-h-0">
+            <table className="text-xs border-collapse">
+              <thead className="sticky top-0 z-10 bg-slate-50 text-[10px] uppercase tracking-wider text-slate-500">
+                <tr>
+                  <th className="sticky left-0 z-20 bg-slate-50 text-left px-3 py-2 min-w-[200px]">Document</th>
+                  {activeTable.fields.map(field => (
+                    <th key={field.id} title={field.description} className="border-l border-slate-100 text-left px-3 py-2 min-w-[160px]">
+                      {field.name}{field.required && <span className="text-red-500"> *</span>}
+                      <span className="block text-[9px] font-medium normal-case text-slate-400">
+                        {FIELD_TYPES.find(type => type.value === field.type)?.label}
+                      </span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {activeTable.rows.map(row => {
+                  const badge = STATUS_BADGES[row.status];
+                  const name = fileName(row.fileId);
+                  return (
+                    <tr key={row.fileId}>
+                      <td className="sticky left-0 bg-white border-t border-slate-100 px-3 py-2 align-top max-w-[200px]">
+                        <span className="block font-bold text-emerald-900 truncate" title={name}>
+                          {name ?? <span className="text-slate-300 italic font-medium">Removed</span>}
+                        </span>
+                        <div className="flex items-center gap-2 mt-1">
+                          {inFlight.includes(row.fileId) ? (
+                            <span className="text-emerald-600 font-bold uppercase tracking-wider text-[9px] animate-pulse">Extracting...</span>
+                          ) : (
+                            <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase ${badge.className}`} title={row.error?.message}>
+                              {badge.label}
+                            </span>
+                          )}
+                          {name && !isRunning && row.status !== 'pending' && (
+                            <button
+                              type="button"
+                              onClick={() => startRun([row.fileId])}
+                              className="text-[9px] font-bold uppercase text-slate-400 hover:text-emerald-700"
+                              title="Extract this document again; hand-edited values are kept"
+                            >
+                              Retry
+                            </button>
+                          )}
+                        </div>
+                        {row.status === 'failed' && (
+                          <span className="block mt-1 text-[10px] text-red-600 line-clamp-2">{row.error?.message}</span>
+                        )}
+                      </td>
+                      {activeTable.fields.map(field => renderInput(row, field))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExtractionPanel;
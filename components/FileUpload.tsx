@@ -1,100 +1,193 @@
 
-import React, { useState, useMemo, useCallback, useRef } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { FileData } from '../types';
+import {
+  ACCEPTED_EXTENSIONS,
+  detectFormat,
+  getFormatInfo,
+  getUploadLimits,
+  ingestFile,
+  DocumentFormat,
+  FileIdentity,
+  IngestProgress,
+  RejectedFileError
+} from '../services/ingestion';
+import { toAskError } from '../services/errors';
+import { activateVersion, addFiles, documentIdOf, getVersions, matchUpload, removeDocument, removeVersion, versionOf } from '../services/versions';
+import { matchesDocumentSearch } from '../services/library';
 
 interface FileUploadProps {
   files: FileData[];
-  onFilesChange: (files: FileData[]) => void;
+  // Stored versions of those documents that are not used for questions
+  versionFiles: FileData[];
+  onFilesChange: (files: FileData[], versionFiles: FileData[]) => void;
   isLoading: boolean;
+  selectedFileIds: string[];
+  onSelectionChange: (fileIds: string[]) => void;
+  activeFileName?: string;
+  onOpenFile: (file: FileData) => void;
+  // Opens the selected documents side by side as revisions of one another
+  onCompare?: (fileIds: string[]) => void;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ files, onFilesChange, isLoading }) => {
+// One file of an upload: in flight while it has no outcome, listed afterwards only when there is something to say
+interface UploadItem {
+  key: string;
+  name: string;
+  size: number;
+  progress?: IngestProgress;
+  outcome?: { kind: 'rejected' | 'failed' | 'note'; message: string };
+}
+
+const FORMAT_BADGE_CLASSES: Record<DocumentFormat, string> = {
+  pdf: 'bg-red-50 text-red-600 border-red-100',
+  docx: 'bg-blue-50 text-blue-600 border-blue-100',
+  text: 'bg-slate-50 text-slate-600 border-slate-200',
+  markdown: 'bg-violet-50 text-violet-600 border-violet-100',
+  csv: 'bg-green-50 text-green-700 border-green-100',
+  image: 'bg-amber-50 text-amber-700 border-amber-100'
+};
+
+const OUTCOME_CLASSES: Record<NonNullable<UploadItem['outcome']>['kind'], string> = {
+  rejected: 'bg-amber-50 border-amber-200 text-amber-800',
+  failed: 'bg-red-50 border-red-100 text-red-700',
+  note: 'bg-emerald-50 border-emerald-100 text-emerald-800'
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const describeProgress = (item: UploadItem): { label: string; share?: number } => {
+  const progress = item.progress;
+  if (!progress) return { label: 'Queued', share: 0 };
+  if (progress.stage === 'reading') {
+    const share = item.size > 0 ? progress.loaded / item.size : 1;
+    return { label: `${Math.round(share * 100)}%`, share };
+  }
+  if (progress.stage === 'extracting') return { label: 'Reading text' };
+  return { label: `OCR page ${progress.page} of ${progress.total}`, share: (progress.page - 1 + progress.pageProgress) / progress.total };
+};
+
+const FileUpload: React.FC<FileUploadProps> = ({ files, versionFiles, onFilesChange, isLoading, selectedFileIds, onSelectionChange, activeFileName, onOpenFile, onCompare }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [isDragging, setIsDragging] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
+  // Documents read since the last render, added to the workspace together once props are current
+  const [finished, setFinished] = useState<FileData[]>([]);
+  const [expandedDocumentId, setExpandedDocumentId] = useState<string | null>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  // Uploads that have been given an id but are not in `files` yet, so two copies of one file in flight
+  // are told apart from a new version
+  const claimsRef = useRef(new Map<string, FileData>());
+  // Bytes counted against the workspace limit for uploads not in `files` yet: by upload key while a file is
+  // read, then by document id until the document shows up in the props
+  const reservationsRef = useRef(new Map<string, number>());
+  // Read by uploads that finish long after the drop that started them
+  const latestRef = useRef({ files, versionFiles });
+  latestRef.current = { files, versionFiles };
 
-  const processFiles = useCallback(async (incomingFiles: File[]) => {
-    const validFiles = incomingFiles.filter(file => 
-      file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')
-    );
+  useEffect(() => () => controllersRef.current.forEach(controller => controller.abort()), []);
 
-    if (validFiles.length === 0) {
-      if (incomingFiles.length > 0) alert("Only PDF files are supported.");
-      return;
-    }
+  useEffect(() => {
+    if (finished.length === 0) return;
+    const next = addFiles({ files, inactive: versionFiles }, finished);
+    setFinished([]);
+    onFilesChange(next.files, next.inactive);
+  }, [finished]);
 
-    setIsProcessing(true);
-    setUploadProgress(0);
+  // Claims and reservations can go once their documents show up in the props
+  useEffect(() => {
+    [...files, ...versionFiles].forEach(file => {
+      claimsRef.current.delete(file.id);
+      reservationsRef.current.delete(file.id);
+    });
+  }, [files, versionFiles]);
 
-    const totalBytes = validFiles.reduce((acc, file) => acc + file.size, 0);
-    let loadedBytes = 0;
-    const duplicates: string[] = [];
+  const updateUpload = (key: string, changes: Partial<UploadItem>) =>
+    setUploads(prev => prev.map(item => item.key === key ? { ...item, ...changes } : item));
 
-    try {
-      const filePromises = validFiles.map(async (file) => {
-        const isDuplicate = files.some(
-          (existingFile) => existingFile.name === file.name && existingFile.size === file.size
-        );
-
-        if (isDuplicate) {
-          duplicates.push(file.name);
-          loadedBytes += file.size;
-          setUploadProgress(Math.round((loadedBytes / totalBytes) * 100));
-          return null;
-        }
-
-        return new Promise<FileData>((resolve) => {
-          const reader = new FileReader();
-          let lastLoaded = 0;
-
-          reader.onprogress = (event) => {
-            if (event.lengthComputable) {
-              const delta = event.loaded - lastLoaded;
-              lastLoaded = event.loaded;
-              loadedBytes += delta;
-              setUploadProgress(Math.min(99, Math.round((loadedBytes / totalBytes) * 100)));
-            }
-          };
-
-          reader.onload = () => {
-            const remaining = file.size - lastLoaded;
-            if (remaining > 0) loadedBytes += remaining;
-            setUploadProgress(Math.min(100, Math.round((loadedBytes / totalBytes) * 100)));
-
-            const result = reader.result as string;
-            const base64String = result.split(',')[1];
-            resolve({
-              name: file.name,
-              base64: base64String,
-              size: file.size
-            });
-          };
-
-          reader.readAsDataURL(file);
-        });
-      });
+  const dismissUpload = (key: string) => setUploads(prev => prev.filter(item => item.key !== key));
 
-      const processedResults = await Promise.all(filePromises);
-      const newFiles = processedResults.filter((f): f is FileData => f !== null);
+  const ingest = async (file: File, key: string) => {
+    const controller = new AbortController();
+    controllersRef.current.set(key, controller);
+    let claimedId: string | null = null;
+    let note: string | null = null;
 
-      if (duplicates.length > 0) {
-        alert(`Skipped ${duplicates.length} duplicate(s).`);
+    const identify = (hash: string): FileIdentity => {
+      const { files: current, versionFiles: versions } = latestRef.current;
+      const match = matchUpload(file.name, file.size, hash, [...current, ...versions, ...claimsRef.current.values()]);
+      if (match.kind === 'duplicate') {
+        throw new RejectedFileError(match.of.name === file.name ? 'Already in the workspace.' : `Same content as ${match.of.name}.`);
       }
+      const id = crypto.randomUUID();
+      const identity = match.kind === 'version'
+        ? { id, documentId: match.documentId, version: match.version }
+        : { id, documentId: id, version: 1 };
+      if (match.kind === 'version') note = `Added as version ${match.version} of an existing document.`;
+      claimsRef.current.set(id, { ...identity, name: file.name, mimeType: file.type, blob: file, size: file.size, hash });
+      claimedId = id;
+      return identity;
+    };
 
-      if (newFiles.length > 0) {
-        onFilesChange([...files, ...newFiles]);
-      }
+    try {
+      const document = await ingestFile(file, identify, {
+        signal: controller.signal,
+        onProgress: (progress) => updateUpload(key, { progress })
+      });
+      reservationsRef.current.set(document.id, document.size);
+      setFinished(prev => [...prev, document]);
+      if (note) updateUpload(key, { progress: undefined, outcome: { kind: 'note', message: note } });
+      else dismissUpload(key);
     } catch (err) {
-      console.error("File processing error:", err);
+      if (claimedId) claimsRef.current.delete(claimedId);
+      if (controller.signal.aborted) dismissUpload(key);
+      else if (err instanceof RejectedFileError) updateUpload(key, { progress: undefined, outcome: { kind: 'rejected', message: err.message } });
+      else {
+        console.error("File processing error:", err);
+        updateUpload(key, { progress: undefined, outcome: { kind: 'failed', message: 'The file could not be read.' } });
+      }
     } finally {
-      setTimeout(() => {
-        setIsProcessing(false);
-        setUploadProgress(0);
-      }, 500);
+      controllersRef.current.delete(key);
+      reservationsRef.current.delete(key);
+    }
+  };
+
+  // Every file is checked against the format and size limits as it comes in, then read on its own, so
+  // one bad or slow file neither blocks nor fails the rest
+  const processFiles = useCallback(async (incomingFiles: File[]) => {
+    if (incomingFiles.length === 0) return;
+    const items = incomingFiles.map(file => ({ file, key: crypto.randomUUID() }));
+    setUploads(prev => [...prev, ...items.map(({ file, key }) => ({ key, name: file.name, size: file.size }))]);
+    const reject = (key: string, message: string) => updateUpload(key, { outcome: { kind: 'rejected', message } });
+
+    let limits;
+    try {
+      limits = await getUploadLimits();
+    } catch (err) {
+      const message = `Upload limits could not be checked: ${toAskError(err).message}`;
+      items.forEach(({ key }) => updateUpload(key, { outcome: { kind: 'failed', message } }));
+      return;
     }
-  }, [files, onFilesChange]);
+
+    items.forEach(({ file, key }) => {
+      const { files: current, versionFiles: versions } = latestRef.current;
+      const storedBytes = [...current, ...versions].reduce((acc, stored) => acc + stored.size, 0);
+      const workspaceBytes = [...reservationsRef.current.values()].reduce((acc, size) => acc + size, storedBytes);
+      if (!detectFormat(file)) return reject(key, 'Not a supported format. Use PDF, DOCX, TXT, Markdown, CSV or an image.');
+      if (file.size === 0) return reject(key, 'The file is empty.');
+      if (file.size > limits.maxFileBytes) {
+        return reject(key, `${formatMegabytes(file.size)} is over the ${formatMegabytes(limits.maxFileBytes)} limit per file.`);
+      }
+      if (workspaceBytes + file.size > limits.maxTotalBytes) {
+        return reject(key, `Would take the workspace over its ${formatMegabytes(limits.maxTotalBytes)} limit.`);
+      }
+      reservationsRef.current.set(key, file.size);
+      ingest(file, key);
+    });
+  }, []);
+
+  const cancelUpload = (key: string) => controllersRef.current.get(key)?.abort();
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files) return;
@@ -105,7 +198,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, onFilesChange, isLoading
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
-    if (!isLoading && !isProcessing) setIsDragging(true);
+    if (!isLoading) setIsDragging(true);
   };
 
   const handleDragLeave = (e: React.DragEvent) => {
@@ -116,7 +209,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, onFilesChange, isLoading
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (isLoading || isProcessing) return;
+    if (isLoading) return;
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
       const filesArray = Array.from(e.dataTransfer.files) as File[];
       processFiles(filesArray);
@@ -124,27 +217,45 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, onFilesChange, isLoading
   };
 
   const removeFile = (originalIndex: number) => {
-    const updated = [...files];
-    updated.splice(originalIndex, 1);
-    onFilesChange(updated);
+    const file = files[originalIndex];
+    const versionCount = getVersions(file, [...files, ...versionFiles]).length;
+    if (versionCount > 1 && !window.confirm(`Remove "${file.name}" and all ${versionCount} of its versions?`)) return;
+    const next = removeDocument({ files, inactive: versionFiles }, file);
+    onFilesChange(next.files, next.inactive);
+  };
+
+  const selectVersion = (fileId: string) => {
+    const next = activateVersion({ files, inactive: versionFiles }, fileId);
+    onFilesChange(next.files, next.inactive);
+  };
+
+  const deleteVersion = (fileId: string) => {
+    const next = removeVersion({ files, inactive: versionFiles }, fileId);
+    onFilesChange(next.files, next.inactive);
+  };
+
+  const toggleSelected = (fileId: string) => {
+    onSelectionChange(
+      selectedFileIds.includes(fileId)
+        ? selectedFileIds.filter(id => id !== fileId)
+        : [...selectedFileIds, fileId]
+    );
   };
 
   const clearAllFiles = () => {
     if (window.confirm("Remove all departmental documents?")) {
-      onFilesChange([]);
+      onFilesChange([], []);
     }
   };
 
   const filteredFiles = useMemo(() => {
     return files
       .map((file, index) => ({ ...file, originalIndex: index }))
-      .filter((file) =>
-        file.name.toLowerCase().includes(searchQuery.toLowerCase())
-      );
+      .filter((file) => matchesDocumentSearch(file, searchQuery));
   }, [files, searchQuery]);
 
   return (
-    <div className="flex flex-col gap-4 p-4 bg-white border-r border-slate-200 h-full overflow-hidden w-full md:w-80 shadow-sm">
+    <div className="flex flex-col gap-4 p-4 bg-white flex-1 min-h-0 overflow-hidden w-full">
       <div className="flex items-center justify-between shrink-0 mb-1">
         <div className="flex flex-col">
           <h2 className="text-sm font-black text-emerald-900 uppercase tracking-tight">Document Library</h2>
@@ -175,6 +286,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, onFilesChange, isLoading
           <input
             type="text"
             placeholder="Search records..."
+            title="Matches names, titles, departments, tags and effective dates; narrow with title:, dept:, tag: or effective:"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="block w-full pl-9 pr-8 py-2 border border-slate-100 rounded-lg bg-slate-50 text-[11px] focus:bg-white focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all outline-none font-medium"
@@ -184,7 +296,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, onFilesChange, isLoading
           onClick={() => folderInputRef.current?.click()}
           className="p-2 bg-slate-50 text-slate-500 rounded-lg hover:bg-emerald-100 hover:text-emerald-700 transition-colors border border-slate-100"
           title="Upload folder"
-          disabled={isLoading || isProcessing}
+          disabled={isLoading}
         >
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
@@ -209,7 +321,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, onFilesChange, isLoading
         className={`flex flex-col items-center justify-center w-full shrink-0 transition-all duration-200 border-2 border-dashed rounded-xl cursor-pointer ${
           files.length === 0 ? 'h-32' : 'h-20'
         } ${
-          isLoading || isProcessing
+          isLoading
             ? 'bg-slate-50 border-slate-200 cursor-not-allowed opacity-60' 
             : isDragging 
               ? 'bg-emerald-50 border-emerald-500 border-solid scale-[1.02]' 
@@ -223,49 +335,185 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, onFilesChange, isLoading
             </svg>
           </div>
           <p className="text-[10px] text-slate-600 font-bold">
-            <span className="text-emerald-700">Add Internal PDFs</span>
+            <span className="text-emerald-700">Add Internal Documents</span>
           </p>
         </div>
         <input 
           type="file" 
           className="hidden" 
           multiple 
-          accept=".pdf" 
+          accept={ACCEPTED_EXTENSIONS} 
           onChange={handleFileChange} 
-          disabled={isLoading || isProcessing}
+          disabled={isLoading}
         />
       </label>
 
-      {/* Progress Section */}
-      {(isProcessing || uploadProgress > 0) && (
-        <div className="bg-emerald-50 border border-emerald-100 rounded-lg p-3 shrink-0">
+      {uploads.length > 0 && (
+        <div className="bg-emerald-50 border border-emerald-100 rounded-lg p-3 shrink-0 max-h-48 overflow-y-auto custom-scrollbar">
           <div className="flex items-center justify-between mb-2">
-            <span className="text-[10px] font-black text-emerald-800 uppercase tracking-tighter">Syncing Library</span>
-            <span className="text-[10px] font-black text-emerald-700">{uploadProgress}%</span>
+            <span className="text-[10px] font-black text-emerald-800 uppercase tracking-tighter">
+              {uploads.some(item => !item.outcome) ? `Syncing ${uploads.filter(item => !item.outcome).length} file(s)` : 'Upload Notes'}
+            </span>
+            {uploads.some(item => item.outcome) && (
+              <button
+                onClick={() => setUploads(prev => prev.filter(item => !item.outcome))}
+                className="text-[9px] font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-tighter transition-colors"
+              >
+                Clear
+              </button>
+            )}
           </div>
-          <div className="w-full bg-emerald-200 rounded-full h-1 overflow-hidden">
-            <div 
-              className="bg-emerald-700 h-full transition-all duration-300 ease-out"
-              style={{ width: `${uploadProgress}%` }}
-            ></div>
+          <div className="space-y-2">
+            {uploads.map(item => {
+              if (item.outcome) {
+                return (
+                  <div key={item.key} className={`flex items-start gap-2 px-2 py-1 rounded border text-[9px] ${OUTCOME_CLASSES[item.outcome.kind]}`}>
+                    <div className="flex-1 overflow-hidden">
+                      <p className="font-bold truncate" title={item.name}>{item.name}</p>
+                      <p>{item.outcome.message}</p>
+                    </div>
+                    <button
+                      onClick={() => dismissUpload(item.key)}
+                      className="shrink-0 opacity-60 hover:opacity-100 transition-opacity p-0.5"
+                      title="Dismiss"
+                    >
+                      <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                );
+              }
+              const { label, share } = describeProgress(item);
+              return (
+                <div key={item.key}>
+                  <div className="flex items-center justify-between gap-2 mb-1">
+                    <span className="text-[9px] font-bold text-emerald-800 truncate" title={item.name}>{item.name}</span>
+                    <span className="shrink-0 text-[9px] font-black text-emerald-700">{label}</span>
+                    <button
+                      onClick={() => cancelUpload(item.key)}
+                      className="shrink-0 text-emerald-400 hover:text-red-500 transition-colors"
+                      title="Cancel this upload"
+                    >
+                      <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                  <div className="w-full bg-emerald-200 rounded-full h-1 overflow-hidden">
+                    <div
+                      className={`bg-emerald-700 h-full transition-all duration-300 ease-out ${share === undefined ? 'animate-pulse' : ''}`}
+                      style={{ width: `${(share ?? 1) * 100}%` }}
+                    ></div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <div className="flex items-center justify-between shrink-0 -mb-2">
+          <span className="text-[9px] font-black text-slate-500 uppercase tracking-tight">
+            {selectedFileIds.length > 0
+              ? `${selectedFileIds.length} of ${files.length} in scope`
+              : 'All documents in scope'}
+          </span>
+          <div className="flex items-center gap-2">
+            {onCompare && selectedFileIds.length >= 2 && (
+              <button
+                onClick={() => onCompare(files.filter(file => selectedFileIds.includes(file.id)).map(file => file.id))}
+                className="text-[9px] font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-tighter transition-colors"
+                title="Compare the selected documents as revisions, in list order"
+              >
+                Compare
+              </button>
+            )}
+            {selectedFileIds.length > 0 && (
+              <button
+                onClick={() => onSelectionChange([])}
+                className="text-[9px] font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-tighter transition-colors"
+              >
+                Use All
+              </button>
+            )}
           </div>
         </div>
       )}
 
       <div className="flex-1 overflow-y-auto min-h-0 space-y-1.5 mt-1 pr-1 custom-scrollbar">
-        {filteredFiles.map((file) => (
-          <div key={`${file.name}-${file.originalIndex}`} className="flex items-center justify-between p-2 bg-white border border-slate-100 rounded-lg group animate-in fade-in slide-in-from-left-2 duration-300 hover:border-emerald-200 hover:shadow-sm transition-all">
-            <div className="flex items-center gap-2 overflow-hidden">
-              <div className="bg-red-50 p-1.5 rounded shrink-0">
-                <svg className="w-3.5 h-3.5 text-red-500" fill="currentColor" viewBox="0 0 20 20">
-                  <path d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2 2H6a2 2 0 01-2-2V4z" />
-                </svg>
-              </div>
+        {filteredFiles.map((file) => {
+          const versions = getVersions(file, [...files, ...versionFiles]);
+          const isExpanded = expandedDocumentId === documentIdOf(file);
+          return (
+          <div key={file.id}>
+          <div className={`flex items-center justify-between p-2 border rounded-lg group animate-in fade-in slide-in-from-left-2 duration-300 hover:border-emerald-200 hover:shadow-sm transition-all ${
+            file.name === activeFileName ? 'bg-emerald-50 border-emerald-300' : 'bg-white border-slate-100'
+          }`}>
+            <input
+              type="checkbox"
+              checked={selectedFileIds.includes(file.id)}
+              onChange={() => toggleSelected(file.id)}
+              className="mr-2 shrink-0 accent-emerald-700 cursor-pointer"
+              title="Limit questions to the ticked documents"
+            />
+            <button
+              type="button"
+              onClick={() => onOpenFile(files[file.originalIndex])}
+              className="flex flex-1 items-center gap-2 overflow-hidden text-left"
+              title="Open in viewer"
+            >
+              <span className={`w-9 shrink-0 py-1 rounded text-center text-[8px] font-black tracking-tight border ${FORMAT_BADGE_CLASSES[getFormatInfo(file.mimeType).format]}`}>
+                {getFormatInfo(file.mimeType).label}
+              </span>
               <div className="overflow-hidden">
                 <p className="text-[11px] font-bold text-slate-700 truncate" title={file.name}>{file.name}</p>
-                <p className="text-[9px] text-slate-400 font-mono">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
+                <p className="text-[9px] text-slate-400 font-mono">{(file.size / 1024 / 1024).toFixed(2)} MB{file.pages ? ` • ${file.pages.length} pp` : ''}</p>
+                {file.metadata && (file.metadata.title || file.metadata.department || file.metadata.effectiveDate || file.metadata.tags) && (
+                  <p className="text-[9px] text-slate-500 truncate" title={file.metadata.tags?.map(tag => `#${tag}`).join(' ')}>
+                    {[
+                      file.metadata.title,
+                      file.metadata.department,
+                      file.metadata.effectiveDate && `eff. ${file.metadata.effectiveDate}`,
+                      file.metadata.tags?.map(tag => `#${tag}`).join(' ')
+                    ].filter(Boolean).join(' • ')}
+                  </p>
+                )}
               </div>
-            </div>
+            </button>
+            {file.scannedPages && (
+              <span
+                className={`shrink-0 mr-1 px-1.5 py-0.5 rounded text-[8px] font-black border ${
+                  file.ocrPages?.length ? 'bg-violet-50 text-violet-700 border-violet-100' : 'bg-amber-50 text-amber-700 border-amber-200'
+                }`}
+                title={file.ocrPages?.length
+                  ? `${file.scannedPages.length} of ${file.pages?.length} pages are scanned images; their text was recognised by OCR and may contain errors`
+                  : `${file.scannedPages.length} of ${file.pages?.length} pages are scanned images without text; OCR did not complete`}
+              >
+                {file.ocrPages?.length ? 'OCR' : 'SCAN'}
+              </span>
+            )}
+            {file.collectionId && (
+              <span
+                className="shrink-0 mr-1 px-1.5 py-0.5 rounded text-[8px] font-black border bg-sky-50 text-sky-700 border-sky-100"
+                title="Published in the shared library"
+              >
+                LIB
+              </span>
+            )}
+            {versions.length > 1 && (
+              <button
+                type="button"
+                onClick={() => setExpandedDocumentId(isExpanded ? null : documentIdOf(file))}
+                className={`shrink-0 px-1.5 py-0.5 rounded text-[8px] font-black border transition-colors ${
+                  isExpanded ? 'bg-emerald-700 text-white border-emerald-700' : 'bg-emerald-50 text-emerald-700 border-emerald-200 hover:bg-emerald-100'
+                }`}
+                title={`${versions.length} versions; version ${versionOf(file)} is used for questions`}
+              >
+                v{versionOf(file)}
+              </button>
+            )}
             <button 
               onClick={() => removeFile(file.originalIndex)}
               className="text-slate-300 hover:text-red-500 transition-colors p-1"
@@ -275,7 +523,52 @@ const FileUpload: React.FC<FileUploadProps> = ({ files, onFilesChange, isLoading
               </svg>
             </button>
           </div>
-        ))}
+          {isExpanded && (
+            <div className="ml-6 mt-1 mb-1 space-y-1 border-l-2 border-emerald-100 pl-2">
+              {versions.map(version => (
+                <div key={version.id} className="flex items-center gap-2 text-[9px]">
+                  <span className="font-black text-slate-600 w-5">v{versionOf(version)}</span>
+                  <span className="flex-1 text-slate-400 font-mono truncate" title={version.hash ? `SHA-256 ${version.hash}` : undefined}>
+                    {(version.size / 1024 / 1024).toFixed(2)} MB{version.uploadedAt ? ` • ${new Date(version.uploadedAt).toLocaleDateString()}` : ''}
+                  </span>
+                  {version.id === file.id ? (
+                    <span className="font-bold text-emerald-700 uppercase tracking-tighter">In use</span>
+                  ) : (
+                    <>
+                      {onCompare && (
+                        <button
+                          onClick={() => onCompare(versionOf(version) < versionOf(file) ? [version.id, file.id] : [file.id, version.id])}
+                          className="font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-tighter"
+                          title="Compare with the version in use"
+                        >
+                          Diff
+                        </button>
+                      )}
+                      <button
+                        onClick={() => selectVersion(version.id)}
+                        className="font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-tighter"
+                        title="Answer questions from this version instead"
+                      >
+                        Use
+                      </button>
+                      <button
+                        onClick={() => deleteVersion(version.id)}
+                        className="text-slate-300 hover:text-red-500 transition-colors"
+                        title="Delete this version"
+                      >
+                        <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          </div>
+          );
+        })}
       </div>
       
       <style>{`
@@ -0,0 +1,442 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AuthUser, Collection, DocumentMetadata, FileData, hasRole, LibraryDocument } from '../types';
+import { toAskError } from '../services/errors';
+import { ACCEPTED_EXTENSIONS, detectFormat, readDocument } from '../services/ingestion';
+import {
+  createCollection,
+  deleteCollection,
+  fetchLibrary,
+  isCollectionAdded,
+  isCollectionCurrent,
+  publishDocument,
+  removeCollection,
+  syncCollection,
+  updateCollection,
+  updateDocumentMetadata,
+  withdrawDocument
+} from '../services/library';
+
+interface LibraryDialogProps {
+  user: AuthUser;
+  files: FileData[];
+  versionFiles: FileData[];
+  onFilesChange: (files: FileData[], versionFiles: FileData[]) => void;
+  onClose: () => void;
+}
+
+// Metadata as typed into the form; tags are comma-separated
+interface MetadataDraft {
+  title: string;
+  department: string;
+  effectiveDate: string;
+  tags: string;
+}
+
+const EMPTY_DRAFT: MetadataDraft = { title: '', department: '', effectiveDate: '', tags: '' };
+
+const toDraft = (metadata: DocumentMetadata): MetadataDraft => ({
+  title: metadata.title ?? '',
+  department: metadata.department ?? '',
+  effectiveDate: metadata.effectiveDate ?? '',
+  tags: (metadata.tags ?? []).join(', ')
+});
+
+const fromDraft = (draft: MetadataDraft): DocumentMetadata => ({
+  title: draft.title.trim() || undefined,
+  department: draft.department.trim() || undefined,
+  effectiveDate: draft.effectiveDate || undefined,
+  tags: draft.tags.split(',').map(tag => tag.trim()).filter(Boolean)
+});
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+const inputClass = "w-full px-3 py-2 border border-slate-100 rounded-lg bg-slate-50 text-xs font-medium text-slate-700 focus:bg-white focus:ring-2 focus:ring-emerald-500 outline-none";
+const linkClass = "text-xs font-semibold text-emerald-700 hover:text-emerald-900 disabled:opacity-30 uppercase tracking-wider";
+
+const MetadataFields: React.FC<{ draft: MetadataDraft; onChange: (draft: MetadataDraft) => void; titlePlaceholder?: string }> = ({ draft, onChange, titlePlaceholder }) => (
+  <div className="grid grid-cols-2 gap-2">
+    <input value={draft.title} onChange={(e) => onChange({ ...draft, title: e.target.value })} placeholder={titlePlaceholder ?? 'Title'} className={inputClass} />
+    <input value={draft.department} onChange={(e) => onChange({ ...draft, department: e.target.value })} placeholder="Department" className={inputClass} />
+    <input type="date" value={draft.effectiveDate} onChange={(e) => onChange({ ...draft, effectiveDate: e.target.value })} title="Effective date" className={inputClass} />
+    <input value={draft.tags} onChange={(e) => onChange({ ...draft, tags: e.target.value })} placeholder="Tags, comma-separated" className={inputClass} />
+  </div>
+);
+
+// Shared collections: everyone adds them to the workspace, curators maintain them
+const LibraryDialog: React.FC<LibraryDialogProps> = ({ user, files, versionFiles, onFilesChange, onClose }) => {
+  const isCurator = hasRole(user, 'curator');
+  const [collections, setCollections] = useState<Collection[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Collection form, for a new collection (no id) or the selected one
+  const [collectionForm, setCollectionForm] = useState<{ id?: string; name: string; description: string } | null>(null);
+  const [uploads, setUploads] = useState<File[]>([]);
+  const [uploadDraft, setUploadDraft] = useState<MetadataDraft>(EMPTY_DRAFT);
+  // Scanned pages are recognised before publishing, which can take a while
+  const [ocrStatus, setOcrStatus] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; draft: MetadataDraft } | null>(null);
+  // Stops reading the files being published when the dialog closes
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const reload = async () => {
+    const next = await fetchLibrary();
+    setCollections(next);
+    setSelectedId(prev => next.some(c => c.id === prev) ? prev : next[0]?.id ?? null);
+  };
+
+  useEffect(() => {
+    reload().catch(err => setError(toAskError(err).message));
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // Runs one change at a time and shows what went wrong, if anything
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(label);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(toAskError(err).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const selected = collections?.find(c => c.id === selectedId) ?? null;
+  const isAdded = selected ? isCollectionAdded(selected, files) : false;
+
+  const addToWorkspace = (collection: Collection) => run('sync', async () => {
+    const next = await syncCollection(collection, { files, inactive: versionFiles });
+    onFilesChange(next.files, next.inactive);
+  });
+
+  const removeFromWorkspace = (collection: Collection) => {
+    const next = removeCollection(collection.id, { files, inactive: versionFiles });
+    onFilesChange(next.files, next.inactive);
+  };
+
+  const saveCollection = () => collectionForm && run('collection', async () => {
+    const saved = collectionForm.id
+      ? await updateCollection(collectionForm.id, collectionForm.name, collectionForm.description)
+      : await createCollection(collectionForm.name, collectionForm.description);
+    setCollectionForm(null);
+    await reload();
+    setSelectedId(saved.id);
+  });
+
+  const removeCollectionFromLibrary = (collection: Collection) => {
+    if (!window.confirm(`Delete "${collection.name}" and its ${collection.documents.length} document(s) from the library? Workspaces keep their copies.`)) return;
+    run('collection', async () => {
+      await deleteCollection(collection.id);
+      await reload();
+    });
+  };
+
+  // Each file is published on its own so one failure does not hold back the rest
+  const publishUploads = (collection: Collection) => run('publish', async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const failures: string[] = [];
+    for (const file of uploads) {
+      try {
+        const read = await readDocument(file, {
+          signal: controller.signal,
+          onProgress: (progress) => {
+            if (progress.stage === 'ocr') setOcrStatus(`OCR page ${progress.page} of ${progress.total}`);
+          }
+        });
+        const metadata = fromDraft(uploadDraft);
+        await publishDocument(collection.id, read, {
+          ...metadata,
+          title: metadata.title && uploads.length === 1 ? metadata.title : stripExtension(file.name)
+        });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        failures.push(`${file.name}: ${toAskError(err).message}`);
+      } finally {
+        setOcrStatus(null);
+      }
+    }
+    setUploads([]);
+    setUploadDraft(EMPTY_DRAFT);
+    await reload();
+    if (failures.length > 0) setError(failures.join('\n'));
+  });
+
+  const saveMetadata = () => editing && run('metadata', async () => {
+    await updateDocumentMetadata(editing.id, fromDraft(editing.draft));
+    setEditing(null);
+    await reload();
+  });
+
+  const withdraw = (doc: LibraryDocument) => {
+    if (!window.confirm(`Withdraw "${doc.name}" from the library? Workspaces drop it when they next sync.`)) return;
+    run('withdraw', async () => {
+      await withdrawDocument(doc.id);
+      await reload();
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl h-[85vh] flex flex-col bg-white rounded-2xl shadow-xl border border-emerald-100 p-6 animate-in fade-in slide-in-from-bottom-2"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-3 mb-4 shrink-0">
+          <div>
+            <h2 className="text-sm font-black text-emerald-900 uppercase tracking-tight">Shared Library</h2>
+            <p className="text-[10px] text-slate-400 font-bold uppercase">Canonical document sets, published by curators</p>
+          </div>
+          {isCurator && (
+            <button type="button" onClick={() => setCollectionForm({ name: '', description: '' })} className={linkClass}>
+              New Collection
+            </button>
+          )}
+        </div>
+
+        {error && <p className="mb-3 text-xs text-red-600 font-medium whitespace-pre-line shrink-0">{error}</p>}
+
+        {collectionForm && (
+          <div className="mb-4 p-3 rounded-xl border border-emerald-100 bg-emerald-50/40 space-y-2 shrink-0">
+            <input
+              value={collectionForm.name}
+              onChange={(e) => setCollectionForm({ ...collectionForm, name: e.target.value })}
+              placeholder="Collection name"
+              autoFocus
+              className={inputClass}
+            />
+            <input
+              value={collectionForm.description}
+              onChange={(e) => setCollectionForm({ ...collectionForm, description: e.target.value })}
+              placeholder="Description (optional)"
+              className={inputClass}
+            />
+            <div className="flex justify-end gap-3">
+              <button type="button" onClick={() => setCollectionForm(null)} className="text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider">
+                Cancel
+              </button>
+              <button type="button" onClick={saveCollection} disabled={!collectionForm.name.trim() || busy !== null} className={linkClass}>
+                {collectionForm.id ? 'Save' : 'Create'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 flex gap-4 min-h-0">
+          <div className="w-60 shrink-0 overflow-y-auto space-y-1.5 pr-1">
+            {collections === null && !error && <p className="text-xs text-slate-400">Loading...</p>}
+            {collections?.length === 0 && (
+              <p className="text-xs text-slate-400">{isCurator ? 'No collections yet. Create one to publish documents.' : 'No collections have been published yet.'}</p>
+            )}
+            {collections?.map(collection => {
+              const added = isCollectionAdded(collection, files);
+              return (
+                <button
+                  key={collection.id}
+                  type="button"
+                  onClick={() => setSelectedId(collection.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+                    collection.id === selectedId ? 'bg-emerald-50 border-emerald-500' : 'bg-white border-slate-100 hover:border-emerald-200'
+                  }`}
+                >
+                  <p className="text-xs font-bold text-slate-700 truncate">{collection.name}</p>
+                  <p className="text-[9px] font-bold uppercase tracking-tighter text-slate-400">
+                    {collection.documents.length} document(s)
+                    {added && (isCollectionCurrent(collection, files)
+                      ? <span className="text-emerald-700"> • In workspace</span>
+                      : <span className="text-amber-600"> • Update available</span>)}
+                  </p>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex-1 flex flex-col min-h-0 min-w-0">
+            {selected && (
+              <>
+                <div className="flex items-start justify-between gap-3 mb-3 shrink-0">
+                  <div className="min-w-0">
+                    <h3 className="text-sm font-bold text-slate-800 truncate">{selected.name}</h3>
+                    {selected.description && <p className="text-xs text-slate-500">{selected.description}</p>}
+                    <p className="text-[10px] text-slate-400">Created by {selected.createdBy} • updated {new Date(selected.updatedAt).toLocaleDateString()}</p>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    {isCurator && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => setCollectionForm({ id: selected.id, name: selected.name, description: selected.description ?? '' })}
+                          className={linkClass}
+                        >
+                          Rename
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => removeCollectionFromLibrary(selected)}
+                          disabled={busy !== null}
+                          className="text-xs font-semibold text-red-500 hover:text-red-700 disabled:opacity-30 uppercase tracking-wider"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                    {isAdded && (
+                      <button type="button" onClick={() => removeFromWorkspace(selected)} disabled={busy !== null} className={linkClass}>
+                        Remove from Workspace
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => addToWorkspace(selected)}
+                      disabled={busy !== null || selected.documents.length === 0 || (isAdded && isCollectionCurrent(selected, files))}
+                      className="px-4 py-2 bg-emerald-700 text-white rounded-xl text-xs font-bold uppercase tracking-wider hover:bg-emerald-800 disabled:bg-slate-300 shadow-md active:scale-95 transition-all"
+                    >
+                      {busy === 'sync' ? 'Fetching...' : isAdded ? 'Sync' : 'Add to Workspace'}
+                    </button>
+                  </div>
+                </div>
+
+                {isCurator && (
+                  <div className="mb-3 p-3 rounded-xl border border-slate-100 bg-slate-50/60 space-y-2 shrink-0">
+                    <div className="flex items-center gap-3">
+                      <label className={`${linkClass} cursor-pointer`}>
+                        Choose Documents
+                        <input
+                          type="file"
+                          multiple
+                          accept={ACCEPTED_EXTENSIONS}
+                          className="hidden"
+                          onChange={(e) => {
+                            const chosen = Array.from(e.target.files ?? []);
+                            setUploads(chosen.filter(file => detectFormat(file) !== null));
+                            setError(chosen.some(file => detectFormat(file) === null) ? 'Supported formats: PDF, DOCX, TXT, Markdown, CSV and images.' : null);
+                            e.target.value = '';
+                          }}
+                        />
+                      </label>
+                      <span className="flex-1 text-[10px] text-slate-500 truncate">
+                        {uploads.length > 0 ? uploads.map(file => file.name).join(', ') : 'A name already in the collection is published as its next version'}
+                      </span>
+                    </div>
+                    {uploads.length > 0 && (
+                      <>
+                        <MetadataFields
+                          draft={uploadDraft}
+                          onChange={setUploadDraft}
+                          titlePlaceholder={uploads.length === 1 ? stripExtension(uploads[0].name) : 'Titles default to the file names'}
+                        />
+                        <div className="flex justify-end gap-3">
+                          <button type="button" onClick={() => setUploads([])} className="text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider">
+                            Cancel
+                          </button>
+                          <button type="button" onClick={() => publishUploads(selected)} disabled={busy !== null} className={linkClass}>
+                            {busy === 'publish' ? ocrStatus ?? 'Publishing...' : `Publish ${uploads.length}`}
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex-1 overflow-auto min-h-0 border border-slate-100 rounded-lg">
+                  <table className="w-full text-xs text-slate-700">
+                    <thead className="sticky top-0 bg-slate-50 text-[10px] uppercase tracking-wider text-slate-500">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Document</th>
+                        <th className="px-3 py-2 text-left">Department</th>
+                        <th className="px-3 py-2 text-left">Effective</th>
+                        <th className="px-3 py-2 text-left">Tags</th>
+                        <th className="px-3 py-2 text-left">Published</th>
+                        {isCurator && <th className="px-3 py-2" />}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selected.documents.map(doc => editing?.id === doc.id ? (
+                        <tr key={doc.id} className="border-t border-slate-100">
+                          <td colSpan={isCurator ? 6 : 5} className="px-3 py-2 space-y-2">
+                            <p className="text-[10px] font-bold text-slate-500">{doc.name}</p>
+                            <MetadataFields draft={editing.draft} onChange={(draft) => setEditing({ id: doc.id, draft })} />
+                            <div className="flex justify-end gap-3">
+                              <button type="button" onClick={() => setEditing(null)} className="text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider">
+                                Cancel
+                              </button>
+                              <button type="button" onClick={saveMetadata} disabled={busy !== null} className={linkClass}>
+                                Save
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      ) : (
+                        <tr key={doc.id} className="border-t border-slate-100 align-top">
+                          <td className="px-3 py-2 max-w-[260px]">
+                            <p className="font-bold break-words">{doc.metadata.title ?? doc.name}</p>
+                            <p className="text-[10px] text-slate-400 font-mono break-all" title={`SHA-256 ${doc.hash}`}>
+                              {doc.name} • v{doc.version} • {(doc.size / 1024 / 1024).toFixed(2)} MB
+                            </p>
+                          </td>
+                          <td className="px-3 py-2">{doc.metadata.department ?? '—'}</td>
+                          <td className="px-3 py-2 whitespace-nowrap font-mono text-[10px]">{doc.metadata.effectiveDate ?? '—'}</td>
+                          <td className="px-3 py-2">
+                            <div className="flex flex-wrap gap-1">
+                              {doc.metadata.tags?.map(tag => (
+                                <span key={tag} className="px-1.5 py-0.5 rounded bg-emerald-50 border border-emerald-100 text-[9px] font-bold text-emerald-700">{tag}</span>
+                              ))}
+                            </div>
+                          </td>
+                          <td className="px-3 py-2 text-[10px] text-slate-500 whitespace-nowrap">
+                            {new Date(doc.publishedAt).toLocaleDateString()}
+                            <br />
+                            {doc.publishedBy}
+                          </td>
+                          {isCurator && (
+                            <td className="px-3 py-2 whitespace-nowrap text-right space-x-2">
+                              <button
+                                type="button"
+                                onClick={() => setEditing({ id: doc.id, draft: toDraft(doc.metadata) })}
+                                className="text-[10px] font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-tighter"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => withdraw(doc)}
+                                disabled={busy !== null}
+                                className="text-[10px] font-bold text-red-500 hover:text-red-700 disabled:opacity-30 uppercase tracking-tighter"
+                              >
+                                Withdraw
+                              </button>
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                      {selected.documents.length === 0 && (
+                        <tr>
+                          <td colSpan={isCurator ? 6 : 5} className="px-3 py-6 text-center text-slate-400">No documents published in this collection yet.</td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end mt-4 shrink-0">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LibraryDialog;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { AuthMode, DevLoginRequest, Role } from '../types';
+import { ROLE_LABELS, startLogin } from '../services/auth';
+
+interface LoginScreenProps {
+  mode: AuthMode;
+  onDevLogin: (request: DevLoginRequest) => Promise<void>;
+}
+
+const ROLE_HINTS: Record<Role, string> = {
+  viewer: 'Asks questions of documents',
+  curator: 'Also manages shared document sets',
+  admin: 'Also reads and exports the audit log'
+};
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ mode, onDevLogin }) => {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('viewer');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submitDevLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onDevLogin({ name: name.trim(), email: email.trim() || undefined, role });
+    } catch {
+      setError('Sign-in failed. Check that the server is running.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-slate-50 p-4">
+      <div className="w-full max-w-sm bg-white rounded-2xl shadow-xl border border-emerald-100 p-6">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 bg-emerald-700 rounded-lg flex items-center justify-center border border-emerald-800 shadow-sm">
+            <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+          </div>
+          <div>
+            <h1 className="text-lg font-bold text-emerald-900 leading-tight">PMAD AI Document Assistant</h1>
+            <p className="text-[10px] text-emerald-600 font-bold uppercase tracking-[0.15em]">Internal Research Tool</p>
+          </div>
+        </div>
+
+        {mode === 'oidc' ? (
+          <>
+            <p className="text-xs text-slate-500 mb-5">Sign in with your organisation account. Questions you ask are recorded in an audit log.</p>
+            <button
+              type="button"
+              onClick={startLogin}
+              className="w-full px-4 py-2.5 bg-emerald-700 text-white rounded-xl text-xs font-bold uppercase tracking-wider hover:bg-emerald-800 shadow-md active:scale-95 transition-all"
+            >
+              Sign In
+            </button>
+          </>
+        ) : (
+          <form onSubmit={submitDevLogin} className="space-y-3">
+            <p className="text-[10px] font-bold uppercase tracking-wider text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+              Development sign-in: no password is checked
+            </p>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name"
+              autoFocus
+              required
+              className="w-full px-3 py-2 border border-slate-100 rounded-lg bg-slate-50 text-xs font-medium text-slate-700 focus:bg-white focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email (optional)"
+              className="w-full px-3 py-2 border border-slate-100 rounded-lg bg-slate-50 text-xs font-medium text-slate-700 focus:bg-white focus:ring-2 focus:ring-emerald-500 outline-none"
+            />
+            <div className="space-y-1.5">
+              {(Object.keys(ROLE_LABELS) as Role[]).map(value => (
+                <label
+                  key={value}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg border cursor-pointer transition-colors ${
+                    role === value ? 'bg-emerald-50 border-emerald-500' : 'bg-white border-slate-100 hover:border-emerald-200'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="role"
+                    checked={role === value}
+                    onChange={() => setRole(value)}
+                    className="accent-emerald-700"
+                  />
+                  <span className="text-xs font-bold text-slate-700">{ROLE_LABELS[value]}</span>
+                  <span className="text-[10px] text-slate-400">{ROLE_HINTS[value]}</span>
+                </label>
+              ))}
+            </div>
+            {error && <p className="text-xs text-red-600 font-medium">{error}</p>}
+            <button
+              type="submit"
+              disabled={!name.trim() || isSubmitting}
+              className="w-full px-4 py-2.5 bg-emerald-700 text-white rounded-xl text-xs font-bold uppercase tracking-wider hover:bg-emerald-800 disabled:bg-slate-300 shadow-md active:scale-95 transition-all"
+            >
+              {isSubmitting ? 'Signing In...' : 'Sign In'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoginScreen;
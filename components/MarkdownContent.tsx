@@ -0,0 +1,17 @@
+import React, { useMemo, forwardRef } from 'react';
+import { renderMarkdown } from '../services/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+}
+
+// Renders model output as sanitized Markdown (tables, nested lists, code blocks); styles live in index.html
+const MarkdownContent = forwardRef<HTMLDivElement, MarkdownContentProps>(({ content }, ref) => {
+  const html = useMemo(() => renderMarkdown(content), [content]);
+
+  return (
+    <div ref={ref} className="markdown-body" dangerouslySetInnerHTML={{ __html: html }} />
+  );
+});
+
+export default MarkdownContent;
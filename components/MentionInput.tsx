@@ -0,0 +1,110 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { FileData } from '../types';
+import { getMentionQuery } from '../services/scope';
+
+interface MentionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  files: FileData[];
+  placeholder: string;
+  disabled: boolean;
+  className: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// Text input that autocompletes `@filename` mentions from the current workspace's documents
+const MentionInput: React.FC<MentionInputProps> = ({ value, onChange, files, placeholder, disabled, className }) => {
+  const [caret, setCaret] = useState(0);
+  const [highlighted, setHighlighted] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const mention = getMentionQuery(value, caret);
+  const suggestions = useMemo(() => {
+    if (!mention) return [];
+    const query = mention.query.toLowerCase();
+    return files.filter(file => file.name.toLowerCase().includes(query)).slice(0, MAX_SUGGESTIONS);
+  }, [files, mention?.query, mention?.start]);
+  const isOpen = !dismissed && !disabled && suggestions.length > 0;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(e.target.value);
+    setCaret(e.target.selectionStart ?? e.target.value.length);
+    setHighlighted(0);
+    setDismissed(false);
+  };
+
+  const applySuggestion = (file: FileData) => {
+    if (!mention) return;
+    const before = value.slice(0, mention.start);
+    const after = value.slice(caret);
+    const inserted = `@${file.name} `;
+    onChange(before + inserted + after);
+
+    const nextCaret = before.length + inserted.length;
+    setCaret(nextCaret);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(prev => (prev - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <>
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-2 w-full max-w-sm bg-white border border-emerald-100 rounded-xl shadow-lg overflow-hidden z-10">
+          <p className="px-3 py-1.5 text-[9px] font-black text-emerald-700 uppercase tracking-widest bg-emerald-50 border-b border-emerald-100">
+            Limit question to document
+          </p>
+          {suggestions.map((file, idx) => (
+            <button
+              key={file.id}
+              type="button"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applySuggestion(file);
+              }}
+              className={`block w-full text-left px-3 py-2 text-[12px] font-medium truncate ${
+                idx === highlighted ? 'bg-emerald-700 text-white' : 'text-slate-700 hover:bg-emerald-50'
+              }`}
+            >
+              @{file.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+        onBlur={() => setDismissed(true)}
+        onFocus={() => setDismissed(false)}
+        placeholder={placeholder}
+        disabled={disabled}
+        className={className}
+      />
+    </>
+  );
+};
+
+export default MentionInput;
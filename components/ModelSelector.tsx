@@ -0,0 +1,38 @@
+import React from 'react';
+import { ModelSelection, ProviderInfo } from '../types';
+
+interface ModelSelectorProps {
+  providers: ProviderInfo[];
+  selection: ModelSelection | null;
+  disabled: boolean;
+  onChange: (selection: ModelSelection) => void;
+}
+
+const SEPARATOR = '::';
+
+const ModelSelector: React.FC<ModelSelectorProps> = ({ providers, selection, disabled, onChange }) => {
+  if (providers.length === 0 || !selection) return null;
+
+  return (
+    <select
+      value={`${selection.provider}${SEPARATOR}${selection.model}`}
+      onChange={(e) => {
+        const [provider, model] = e.target.value.split(SEPARATOR);
+        onChange({ provider, model });
+      }}
+      disabled={disabled}
+      title="Model used for this workspace"
+      className="max-w-[220px] px-2 py-1.5 border border-slate-100 rounded-lg bg-slate-50 text-[11px] font-bold text-slate-700 focus:bg-white focus:ring-2 focus:ring-emerald-500 outline-none disabled:opacity-60"
+    >
+      {providers.map(provider => (
+        <optgroup key={provider.id} label={provider.label}>
+          {provider.models.map(model => (
+            <option key={model} value={`${provider.id}${SEPARATOR}${model}`}>{model}</option>
+          ))}
+        </optgroup>
+      ))}
+    </select>
+  );
+};
+
+export default ModelSelector;
@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { FileData, ViewerTarget } from '../types';
+import { loadPdfDocument, findQuoteRects, HighlightRect } from '../services/pdf';
+
+interface PdfViewerProps {
+  file: FileData;
+  target: ViewerTarget;
+  onClose: () => void;
+}
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+const SCALE_STEP = 0.25;
+
+const PdfViewer: React.FC<PdfViewerProps> = ({ file, target, onClose }) => {
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [scale, setScale] = useState(1.25);
+  const [highlights, setHighlights] = useState<HighlightRect[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const renderTaskRef = useRef<RenderTask | null>(null);
+  const firstHighlightRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setDoc(null);
+    setError(null);
+
+    loadPdfDocument(file)
+      .then((pdf) => {
+        loaded = pdf;
+        if (cancelled) pdf.destroy();
+        else setDoc(pdf);
+      })
+      .catch((err) => {
+        console.error("PDF load error:", err);
+        if (!cancelled) setError("This document could not be opened.");
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file]);
+
+  // Jump whenever a new target is requested, even if it points at the same page again
+  useEffect(() => {
+    setCurrentPage(target.page && target.page > 0 ? target.page : 1);
+  }, [target]);
+
+  useEffect(() => {
+    if (!doc) return;
+    let cancelled = false;
+    const pageNumber = Math.min(Math.max(currentPage, 1), doc.numPages);
+
+    const render = async () => {
+      const page = await doc.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      const outputScale = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+      renderTaskRef.current?.cancel();
+      const task = page.render({
+        canvasContext: canvas.getContext('2d')!,
+        viewport,
+        transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined
+      });
+      renderTaskRef.current = task;
+      await task.promise;
+
+      const shouldHighlight = target.quote && (!target.page || target.page === pageNumber);
+      const rects = shouldHighlight ? await findQuoteRects(page, viewport, target.quote!) : [];
+      if (!cancelled) setHighlights(rects);
+    };
+
+    setHighlights([]);
+    render().catch((err) => {
+      if (err?.name !== 'RenderingCancelledException') console.error("PDF render error:", err);
+    });
+
+    return () => {
+      cancelled = true;
+      renderTaskRef.current?.cancel();
+    };
+  }, [doc, currentPage, scale, target]);
+
+  useEffect(() => {
+    firstHighlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlights]);
+
+  const numPages = doc?.numPages ?? 0;
+
+  const goToPage = (page: number) => {
+    if (!numPages) return;
+    setCurrentPage(Math.min(Math.max(page, 1), numPages));
+  };
+
+  const zoom = (delta: number) => {
+    setScale(prev => Math.min(MAX_SCALE, Math.max(MIN_SCALE, prev + delta)));
+  };
+
+  return (
+    <aside className="flex flex-col w-full md:w-[45%] h-full min-w-0 bg-slate-100 border-l border-slate-200">
+      <div className="flex items-center justify-between gap-2 px-4 py-3 bg-white border-b border-slate-200 shrink-0">
+        <div className="overflow-hidden">
+          <p className="text-[10px] text-emerald-600 font-bold uppercase tracking-[0.15em]">Document Viewer</p>
+          <p className="text-xs font-bold text-slate-700 truncate" title={file.name}>{file.name}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-slate-400 hover:text-red-500 transition-colors p-1"
+          title="Close viewer"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 px-4 py-2 bg-white border-b border-slate-200 shrink-0 text-[11px] font-bold text-slate-600">
+        <div className="flex items-center gap-1.5">
+          <button
+            onClick={() => goToPage(currentPage - 1)}
+            disabled={currentPage <= 1}
+            className="px-2 py-1 rounded-md bg-slate-50 border border-slate-100 hover:bg-emerald-50 hover:text-emerald-700 disabled:opacity-30"
+          >
+            Prev
+          </button>
+          <input
+            type="number"
+            min={1}
+            max={numPages || 1}
+            value={currentPage}
+            onChange={(e) => goToPage(Number(e.target.value))}
+            className="w-12 px-1 py-1 text-center border border-slate-100 rounded-md bg-slate-50 focus:ring-2 focus:ring-emerald-500 outline-none"
+          />
+          <span className="text-slate-400">/ {numPages || '–'}</span>
+          <button
+            onClick={() => goToPage(currentPage + 1)}
+            disabled={!numPages || currentPage >= numPages}
+            className="px-2 py-1 rounded-md bg-slate-50 border border-slate-100 hover:bg-emerald-50 hover:text-emerald-700 disabled:opacity-30"
+          >
+            Next
+          </button>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <button
+            onClick={() => zoom(-SCALE_STEP)}
+            disabled={scale <= MIN_SCALE}
+            className="w-7 py-1 rounded-md bg-slate-50 border border-slate-100 hover:bg-emerald-50 hover:text-emerald-700 disabled:opacity-30"
+            title="Zoom out"
+          >
+            −
+          </button>
+          <span className="w-10 text-center font-mono">{Math.round(scale * 100)}%</span>
+          <button
+            onClick={() => zoom(SCALE_STEP)}
+            disabled={scale >= MAX_SCALE}
+            className="w-7 py-1 rounded-md bg-slate-50 border border-slate-100 hover:bg-emerald-50 hover:text-emerald-700 disabled:opacity-30"
+            title="Zoom in"
+          >
+            +
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 custom-scrollbar">
+        {error ? (
+          <p className="text-center text-sm text-red-600 font-medium mt-8">{error}</p>
+        ) : !doc ? (
+          <p className="text-center text-[11px] text-emerald-700 font-bold uppercase tracking-widest animate-pulse mt-8">Loading document...</p>
+        ) : (
+          <div className="relative mx-auto w-fit shadow-lg bg-white">
+            <canvas ref={canvasRef} className="block" />
+            {highlights.map((rect, idx) => (
+              <div
+                key={idx}
+                ref={idx === 0 ? firstHighlightRef : undefined}
+                className="absolute bg-yellow-300/40 border-b-2 border-yellow-500 pointer-events-none"
+                style={{ left: rect.left, top: rect.top, width: rect.width, height: rect.height }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default PdfViewer;
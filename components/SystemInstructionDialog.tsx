@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+
+interface SystemInstructionDialogProps {
+  workspaceName: string;
+  instruction: string;
+  onSave: (instruction: string) => void;
+  onClose: () => void;
+}
+
+const SystemInstructionDialog: React.FC<SystemInstructionDialogProps> = ({ workspaceName, instruction, onSave, onClose }) => {
+  const [draft, setDraft] = useState(instruction);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-white rounded-2xl shadow-xl border border-emerald-100 p-6 animate-in fade-in slide-in-from-bottom-2"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-sm font-black text-emerald-900 uppercase tracking-tight">Model Instructions</h2>
+        <p className="text-[10px] text-slate-400 font-bold uppercase mb-4">Applies to every question in {workspaceName}</p>
+
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={8}
+          maxLength={4000}
+          autoFocus
+          placeholder="Leave empty to use the default: a factual assistant that answers only from the provided documents. For example: You review procurement contracts for the finance department. Answer in British English and flag any figure above £10,000."
+          className="w-full px-3 py-2 border border-slate-100 rounded-lg bg-slate-50 text-xs font-medium text-slate-700 focus:bg-white focus:ring-2 focus:ring-emerald-500 outline-none resize-y"
+        />
+        <p className="mt-1 mb-5 text-[10px] text-slate-400 font-medium">
+          Answers are always returned with citations, whatever the instruction says.
+        </p>
+
+        <div className="flex justify-between gap-3">
+          <button
+            type="button"
+            onClick={() => setDraft('')}
+            disabled={!draft}
+            className="px-4 py-2 text-xs font-semibold text-slate-500 hover:text-red-600 uppercase tracking-wider disabled:opacity-30"
+          >
+            Reset to Default
+          </button>
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => onSave(draft.trim())}
+              className="px-4 py-2 bg-emerald-700 text-white rounded-xl text-xs font-bold uppercase tracking-wider hover:bg-emerald-800 shadow-md active:scale-95 transition-all"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SystemInstructionDialog;
@@ -0,0 +1,177 @@
+import React, { useRef, useState } from 'react';
+import { PromptTemplate } from '../types';
+import { exportTemplates, getTemplateVariables, importTemplates } from '../services/templates';
+
+interface TemplateLibraryProps {
+  templates: PromptTemplate[];
+  canRun: boolean;
+  onChange: (templates: PromptTemplate[]) => void;
+  onApply: (template: PromptTemplate, run: boolean) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-100 rounded-lg bg-slate-50 text-xs font-medium text-slate-700 focus:bg-white focus:ring-2 focus:ring-emerald-500 outline-none";
+
+const TemplateLibrary: React.FC<TemplateLibraryProps> = ({ templates, canRun, onChange, onApply, onClose }) => {
+  const [editing, setEditing] = useState<PromptTemplate | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const saveEditing = () => {
+    if (!editing || !editing.name.trim() || !editing.text.trim()) return;
+    const template = { ...editing, name: editing.name.trim(), text: editing.text.trim() };
+    const exists = templates.some(t => t.id === template.id);
+    onChange(exists ? templates.map(t => t.id === template.id ? template : t) : [...templates, template]);
+    setEditing(null);
+  };
+
+  const deleteTemplate = (template: PromptTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) return;
+    onChange(templates.filter(t => t.id !== template.id));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importTemplates(await file.text(), templates);
+      onChange([...templates, ...imported]);
+      setNotice(imported.length > 0
+        ? `Imported ${imported.length} template${imported.length === 1 ? '' : 's'}.`
+        : 'Every template in the file is already in the library.');
+    } catch (err) {
+      setNotice((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[80vh] flex flex-col bg-white rounded-2xl shadow-xl border border-emerald-100 p-6 animate-in fade-in slide-in-from-bottom-2"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-sm font-black text-emerald-900 uppercase tracking-tight">Prompt Templates</h2>
+            <p className="text-[10px] text-slate-400 font-bold uppercase">
+              Use {'{{name}}'} for variables — {'{{document}}'} offers a document picker
+            </p>
+          </div>
+          <div className="flex items-center gap-3 text-[10px] font-bold uppercase tracking-wider">
+            <button type="button" onClick={() => fileInputRef.current?.click()} className="text-emerald-700 hover:text-emerald-900">
+              Import
+            </button>
+            <button
+              type="button"
+              onClick={() => exportTemplates(templates)}
+              disabled={templates.length === 0}
+              className="text-emerald-700 hover:text-emerald-900 disabled:opacity-30"
+            >
+              Export
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+        </div>
+
+        {notice && (
+          <div className="mb-3 px-3 py-2 rounded-lg bg-emerald-50 border border-emerald-100 text-xs font-medium text-emerald-800">
+            {notice}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-2 mb-4">
+          {templates.length === 0 && !editing && (
+            <p className="p-6 text-center text-xs text-slate-400 font-medium">No templates yet.</p>
+          )}
+          {templates.map(template => editing?.id === template.id ? null : (
+            <div key={template.id} className="group p-3 rounded-xl border border-slate-100 hover:border-emerald-200 transition-colors">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-xs font-bold text-emerald-900 truncate">{template.name}</span>
+                <div className="flex items-center gap-3 shrink-0 text-[10px] font-bold uppercase tracking-wider">
+                  <button type="button" onClick={() => onApply(template, false)} className="text-emerald-700 hover:text-emerald-900">
+                    Use
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onApply(template, true)}
+                    disabled={!canRun}
+                    className="text-emerald-700 hover:text-emerald-900 disabled:opacity-30"
+                    title={canRun ? 'Fill in and send right away' : 'Upload documents first'}
+                  >
+                    Run
+                  </button>
+                  <button type="button" onClick={() => setEditing(template)} className="text-slate-400 hover:text-slate-700">
+                    Edit
+                  </button>
+                  <button type="button" onClick={() => deleteTemplate(template)} className="text-slate-400 hover:text-red-600">
+                    Delete
+                  </button>
+                </div>
+              </div>
+              <p className="mt-1 text-[11px] text-slate-500 line-clamp-2">{template.text}</p>
+              {getTemplateVariables(template.text).length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-1.5">
+                  {getTemplateVariables(template.text).map(name => (
+                    <span key={name} className="px-1.5 py-0.5 rounded bg-emerald-50 text-[9px] font-bold text-emerald-700">{name}</span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          {editing && (
+            <div className="p-3 rounded-xl border border-emerald-500 ring-1 ring-emerald-500 space-y-2">
+              <input
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                placeholder="Template name"
+                autoFocus
+                className={inputClass}
+              />
+              <textarea
+                value={editing.text}
+                onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+                placeholder="List the penalties in {{document}} for {{offence}}."
+                rows={3}
+                className={`${inputClass} resize-y`}
+              />
+              <div className="flex justify-end gap-3 text-[10px] font-bold uppercase tracking-wider">
+                <button type="button" onClick={() => setEditing(null)} className="text-slate-500 hover:text-slate-700">
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={saveEditing}
+                  disabled={!editing.name.trim() || !editing.text.trim()}
+                  className="text-emerald-700 hover:text-emerald-900 disabled:opacity-30"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-between gap-3">
+          <button
+            type="button"
+            onClick={() => setEditing({ id: crypto.randomUUID(), name: '', text: '' })}
+            disabled={!!editing}
+            className="px-4 py-2 text-xs font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-wider disabled:opacity-30"
+          >
+            + New Template
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateLibrary;
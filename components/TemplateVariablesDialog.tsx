@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { FileData, PromptTemplate } from '../types';
+import { DOCUMENT_VARIABLE, documentVariableValue, fillTemplate, getTemplateVariables } from '../services/templates';
+
+interface TemplateVariablesDialogProps {
+  template: PromptTemplate;
+  files: FileData[];
+  canRun: boolean;
+  onSubmit: (text: string, run: boolean) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-100 rounded-lg bg-slate-50 text-xs font-medium text-slate-700 focus:bg-white focus:ring-2 focus:ring-emerald-500 outline-none";
+
+const TemplateVariablesDialog: React.FC<TemplateVariablesDialogProps> = ({ template, files, canRun, onSubmit, onClose }) => {
+  const variables = getTemplateVariables(template.text);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [documentId, setDocumentId] = useState('');
+
+  const filled = fillTemplate(template.text, {
+    ...values,
+    [DOCUMENT_VARIABLE]: documentVariableValue(files.find(file => file.id === documentId))
+  });
+  const isComplete = variables.every(name => name === DOCUMENT_VARIABLE || values[name]?.trim());
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-white rounded-2xl shadow-xl border border-emerald-100 p-6 animate-in fade-in slide-in-from-bottom-2"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-sm font-black text-emerald-900 uppercase tracking-tight">{template.name}</h2>
+        <p className="text-[10px] text-slate-400 font-bold uppercase mb-4">Fill in the template</p>
+
+        <div className="space-y-3 mb-4">
+          {variables.map(name => (
+            <label key={name} className="block">
+              <span className="block mb-1 text-[10px] font-bold uppercase tracking-wider text-slate-500">{name}</span>
+              {name === DOCUMENT_VARIABLE ? (
+                <select value={documentId} onChange={(e) => setDocumentId(e.target.value)} className={inputClass}>
+                  <option value="">All documents in scope</option>
+                  {files.map(file => (
+                    <option key={file.id} value={file.id}>{file.name}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  value={values[name] ?? ''}
+                  onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                  autoFocus={name === variables.find(v => v !== DOCUMENT_VARIABLE)}
+                  className={inputClass}
+                />
+              )}
+            </label>
+          ))}
+        </div>
+
+        <p className="mb-5 px-3 py-2 rounded-lg bg-emerald-50/60 border border-emerald-100 text-xs text-slate-700 whitespace-pre-wrap">
+          {filled}
+        </p>
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onSubmit(filled, false)}
+            disabled={!isComplete}
+            className="px-4 py-2 text-xs font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-wider disabled:opacity-30"
+          >
+            Fill Input
+          </button>
+          <button
+            type="button"
+            onClick={() => onSubmit(filled, true)}
+            disabled={!isComplete || !canRun}
+            className="px-4 py-2 bg-emerald-700 text-white rounded-xl text-xs font-bold uppercase tracking-wider hover:bg-emerald-800 disabled:bg-slate-300 shadow-md active:scale-95 transition-all"
+          >
+            Run
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateVariablesDialog;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { UsageRecord } from '../types';
+import { aggregateUsage, exportUsageCsv, formatCost, UsageGrouping } from '../services/usage';
+
+interface UsagePanelProps {
+  records: UsageRecord[];
+  onClose: () => void;
+}
+
+const GROUPINGS: { value: UsageGrouping; label: string }[] = [
+  { value: 'workspace', label: 'Workspace' },
+  { value: 'day', label: 'Day' },
+  { value: 'documents', label: 'Document Set' }
+];
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ records, onClose }) => {
+  const [grouping, setGrouping] = useState<UsageGrouping>('workspace');
+  const rows = aggregateUsage(records, grouping);
+
+  const now = new Date();
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+  const monthCost = records
+    .filter(record => record.timestamp >= monthStart)
+    .reduce((acc, record) => acc + record.usage.cost, 0);
+  const totalCost = records.reduce((acc, record) => acc + record.usage.cost, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[80vh] flex flex-col bg-white rounded-2xl shadow-xl border border-emerald-100 p-6 animate-in fade-in slide-in-from-bottom-2"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-sm font-black text-emerald-900 uppercase tracking-tight">Token Usage</h2>
+        <p className="text-[10px] text-slate-400 font-bold uppercase mb-4">
+          Requests from this browser — costs are estimates at the server's configured prices
+        </p>
+
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          <div className="p-3 rounded-xl border border-emerald-100 bg-emerald-50/50">
+            <span className="block text-[10px] font-bold uppercase tracking-wider text-emerald-700">This month</span>
+            <span className="block text-lg font-black text-emerald-900">{formatCost(monthCost)}</span>
+          </div>
+          <div className="p-3 rounded-xl border border-slate-100">
+            <span className="block text-[10px] font-bold uppercase tracking-wider text-slate-500">All time</span>
+            <span className="block text-lg font-black text-slate-800">{formatCost(totalCost)}</span>
+          </div>
+        </div>
+
+        <div className="flex gap-2 mb-3">
+          {GROUPINGS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setGrouping(option.value)}
+              className={`px-3 py-1.5 rounded-lg border text-[10px] font-bold uppercase tracking-wider transition-colors ${
+                grouping === option.value
+                  ? 'bg-emerald-50 border-emerald-500 text-emerald-900'
+                  : 'bg-white border-slate-100 text-slate-500 hover:border-emerald-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto border border-slate-100 rounded-xl mb-5">
+          {rows.length === 0 ? (
+            <p className="p-6 text-center text-xs text-slate-400 font-medium">No requests recorded yet.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-slate-50 text-[10px] uppercase tracking-wider text-slate-500">
+                <tr>
+                  <th className="text-left px-3 py-2">{GROUPINGS.find(option => option.value === grouping)?.label}</th>
+                  <th className="text-right px-3 py-2">Requests</th>
+                  <th className="text-right px-3 py-2">Prompt</th>
+                  <th className="text-right px-3 py-2">Response</th>
+                  <th className="text-right px-3 py-2">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.key} className="border-t border-slate-100 text-slate-700">
+                    <td className="px-3 py-2 max-w-[220px] truncate font-medium" title={row.key}>{row.key}</td>
+                    <td className="px-3 py-2 text-right font-mono">{row.requests}</td>
+                    <td className="px-3 py-2 text-right font-mono">{row.promptTokens.toLocaleString()}</td>
+                    <td className="px-3 py-2 text-right font-mono">{row.responseTokens.toLocaleString()}</td>
+                    <td className="px-3 py-2 text-right font-mono" title={row.estimated ? 'Includes estimated token counts' : undefined}>
+                      {row.estimated ? '≈' : ''}{formatCost(row.cost)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-xs font-semibold text-slate-500 hover:text-slate-700 uppercase tracking-wider"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={() => exportUsageCsv(records, grouping)}
+            disabled={rows.length === 0}
+            className="px-4 py-2 bg-emerald-700 text-white rounded-xl text-xs font-bold uppercase tracking-wider hover:bg-emerald-800 disabled:bg-slate-300 shadow-md active:scale-95 transition-all"
+          >
+            Export CSV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,136 @@
+import React from 'react';
+import { Workspace } from '../types';
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[];
+  activeWorkspace: Workspace;
+  disabled: boolean;
+  onSelectWorkspace: (workspaceId: string) => void;
+  onCreateWorkspace: () => void;
+  onRenameWorkspace: (workspaceId: string) => void;
+  onDuplicateWorkspace: (workspaceId: string) => void;
+  onDeleteWorkspace: (workspaceId: string) => void;
+  onEditInstructions: (workspaceId: string) => void;
+  onSelectThread: (threadId: string) => void;
+  onCreateThread: () => void;
+  onDeleteThread: (threadId: string) => void;
+}
+
+const iconButtonClass = "p-1.5 rounded-md text-slate-400 hover:text-emerald-700 hover:bg-emerald-50 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  workspaces,
+  activeWorkspace,
+  disabled,
+  onSelectWorkspace,
+  onCreateWorkspace,
+  onRenameWorkspace,
+  onDuplicateWorkspace,
+  onDeleteWorkspace,
+  onEditInstructions,
+  onSelectThread,
+  onCreateThread,
+  onDeleteThread
+}) => {
+  return (
+    <div className="flex flex-col gap-3 p-4 border-b border-slate-200 shrink-0">
+      <div className="flex items-center justify-between">
+        <div className="flex flex-col">
+          <h2 className="text-sm font-black text-emerald-900 uppercase tracking-tight">Workspaces</h2>
+          <p className="text-[10px] text-slate-400 font-bold uppercase">{workspaces.length} Dossier{workspaces.length === 1 ? '' : 's'}</p>
+        </div>
+        <button
+          onClick={onCreateWorkspace}
+          disabled={disabled}
+          className="text-[9px] font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-tighter transition-colors disabled:opacity-30"
+        >
+          + New
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <select
+          value={activeWorkspace.id}
+          onChange={(e) => onSelectWorkspace(e.target.value)}
+          disabled={disabled}
+          className="flex-1 min-w-0 px-2 py-2 border border-slate-100 rounded-lg bg-slate-50 text-[11px] font-bold text-slate-700 focus:bg-white focus:ring-2 focus:ring-emerald-500 outline-none disabled:opacity-60"
+        >
+          {workspaces.map(ws => (
+            <option key={ws.id} value={ws.id}>{ws.name}</option>
+          ))}
+        </select>
+        <button onClick={() => onRenameWorkspace(activeWorkspace.id)} disabled={disabled} className={iconButtonClass} title="Rename workspace">
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536a2 2 0 01-.878.506L8 18l.958-3.658A2 2 0 019 13z" />
+          </svg>
+        </button>
+        <button
+          onClick={() => onEditInstructions(activeWorkspace.id)}
+          disabled={disabled}
+          className={`${iconButtonClass} ${activeWorkspace.systemInstruction ? '!text-emerald-700' : ''}`}
+          title={activeWorkspace.systemInstruction ? 'Model instructions (customised)' : 'Model instructions'}
+        >
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+          </svg>
+        </button>
+        <button onClick={() => onDuplicateWorkspace(activeWorkspace.id)} disabled={disabled} className={iconButtonClass} title="Duplicate workspace">
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+          </svg>
+        </button>
+        <button onClick={() => onDeleteWorkspace(activeWorkspace.id)} disabled={disabled} className={`${iconButtonClass} hover:!text-red-500 hover:!bg-red-50`} title="Delete workspace">
+          <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between mt-1">
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-tight">Conversations</span>
+        <button
+          onClick={onCreateThread}
+          disabled={disabled}
+          className="text-[9px] font-bold text-emerald-700 hover:text-emerald-900 uppercase tracking-tighter transition-colors disabled:opacity-30"
+        >
+          + New Chat
+        </button>
+      </div>
+      <div className="max-h-32 overflow-y-auto space-y-1 pr-1 custom-scrollbar">
+        {activeWorkspace.threads.map(thread => {
+          const isActive = thread.id === activeWorkspace.activeThreadId;
+          return (
+            <div
+              key={thread.id}
+              className={`flex items-center justify-between gap-1 px-2 py-1.5 rounded-lg border group transition-colors ${
+                isActive ? 'bg-emerald-50 border-emerald-200' : 'bg-white border-transparent hover:border-slate-100'
+              }`}
+            >
+              <button
+                onClick={() => onSelectThread(thread.id)}
+                disabled={disabled}
+                className={`flex-1 min-w-0 text-left text-[11px] truncate ${isActive ? 'font-bold text-emerald-900' : 'font-medium text-slate-600'}`}
+                title={thread.title}
+              >
+                {thread.title}
+              </button>
+              <span className="text-[9px] text-slate-400 font-mono shrink-0">{thread.messages.length}</span>
+              <button
+                onClick={() => onDeleteThread(thread.id)}
+                disabled={disabled}
+                className="text-slate-300 hover:text-red-500 transition-colors p-0.5 opacity-0 group-hover:opacity-100"
+                title="Delete conversation"
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
@@ -0,0 +1,9 @@
+// Spreadsheets run a cell starting with one of these as a formula, so text cells get a leading quote
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// One CSV cell, quoted when needed; shared by the browser's exports and the server's audit export
+export const csvCell = (value: string | number | boolean | undefined) => {
+  let text = String(value ?? '');
+  if (typeof value === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
@@ -0,0 +1,96 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuditEntry } from '../types';
+
+let dir: string;
+let logPath: string;
+let audit: typeof import('./audit');
+
+const entry = (question: string): Omit<AuditEntry, 'id' | 'timestamp' | 'previousHash'> => ({
+  userId: 'u1',
+  userName: 'Dana Reviewer',
+  role: 'curator',
+  action: 'ask',
+  documents: [{ name: 'lease.pdf' }],
+  question,
+  provider: 'mock',
+  model: 'mock-model'
+});
+
+const readLines = () => fs.readFileSync(logPath, 'utf8').split('\n').filter(Boolean);
+const writeLines = (lines: string[]) => fs.writeFileSync(logPath, lines.map(line => `${line}\n`).join(''));
+const query = () => audit.queryAudit(audit.parseAuditQuery({}));
+
+// The log path is read from the environment when the config loads, so each test gets fresh modules
+beforeEach(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-test-'));
+  logPath = path.join(dir, 'audit.jsonl');
+  vi.stubEnv('AUDIT_LOG_PATH', logPath);
+  vi.resetModules();
+  audit = await import('./audit');
+  for (const question of ['first', 'second', 'third']) await audit.appendAudit(entry(question));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('audit chain', () => {
+  it('links each entry to the hash of the line before it', async () => {
+    const lines = readLines();
+    const entries: AuditEntry[] = lines.map(line => JSON.parse(line));
+    expect(entries[0].previousHash).toBe('0'.repeat(64));
+    expect(entries[1].previousHash).toBe(audit.sha256(lines[0]));
+    expect(entries[2].previousHash).toBe(audit.sha256(lines[1]));
+
+    const result = await query();
+    expect(result.intact).toBe(true);
+    expect(result.entries.map(e => e.question)).toEqual(['third', 'second', 'first']);
+  });
+
+  it('continues the chain across a restart', async () => {
+    vi.resetModules();
+    audit = await import('./audit');
+    await audit.appendAudit(entry('fourth'));
+    const lines = readLines();
+    expect(JSON.parse(lines[3]).previousHash).toBe(audit.sha256(lines[2]));
+    expect((await query()).intact).toBe(true);
+  });
+
+  it('is broken by an edited entry', async () => {
+    const lines = readLines();
+    writeLines([lines[0], lines[1].replace('"second"', '"changed"'), lines[2]]);
+    const result = await query();
+    expect(result.intact).toBe(false);
+    expect(result.total).toBe(3);
+  });
+
+  it('is broken by a deleted entry', async () => {
+    const lines = readLines();
+    writeLines([lines[0], lines[2]]);
+    expect((await query()).intact).toBe(false);
+  });
+
+  it('is broken by a line that is not JSON, which is left out of the results', async () => {
+    const lines = readLines();
+    writeLines([lines[0], 'garbage', ...lines.slice(1)]);
+    const result = await query();
+    expect(result.intact).toBe(false);
+    expect(result.total).toBe(3);
+  });
+
+  it('exports the original lines so the chain can be re-checked elsewhere', async () => {
+    expect(await audit.exportAudit({}, 'jsonl')).toBe(fs.readFileSync(logPath, 'utf8'));
+  });
+});
+
+describe('audit CSV export', () => {
+  it('neutralises cells a spreadsheet would run as formulas', async () => {
+    await audit.appendAudit(entry('=HYPERLINK("http://example.com")'));
+    const csv = await audit.exportAudit({ text: 'hyperlink' }, 'csv');
+    expect(csv.split('\n')[1]).toContain(`"'=HYPERLINK(""http://example.com"")"`);
+  });
+});
@@ -0,0 +1,145 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { AuditAction, AuditEntry, AuditQuery, AuditQueryResponse } from '../types';
+import { csvCell } from '../csv';
+import { config } from './config';
+
+const AUDIT_ACTIONS: AuditAction[] = ['ask', 'extract', 'compare'];
+// What the first entry records as its predecessor
+const GENESIS_HASH = '0'.repeat(64);
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+export const sha256 = (text: string) => crypto.createHash('sha256').update(text).digest('hex');
+
+const readLines = async (): Promise<string[]> => {
+  try {
+    return (await fs.promises.readFile(config.auditLogPath, 'utf8')).split('\n').filter(Boolean);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+};
+
+// Hash of the last line written, read from the file on first use
+let lastHash: string | null = null;
+let pending: Promise<unknown> = Promise.resolve();
+
+// Entries are only ever appended. Writes are queued so each one can record the hash of the line before it.
+export const appendAudit = (entry: Omit<AuditEntry, 'id' | 'timestamp' | 'previousHash'>): Promise<void> => {
+  const write = pending.then(async () => {
+    if (lastHash === null) {
+      const lines = await readLines();
+      lastHash = lines.length > 0 ? sha256(lines[lines.length - 1]) : GENESIS_HASH;
+    }
+    const record: AuditEntry = { id: crypto.randomUUID(), timestamp: Date.now(), ...entry, previousHash: lastHash };
+    const line = JSON.stringify(record);
+    try {
+      await fs.promises.mkdir(path.dirname(config.auditLogPath), { recursive: true });
+      await fs.promises.appendFile(config.auditLogPath, `${line}\n`);
+      lastHash = sha256(line);
+    } catch (error) {
+      // The file may or may not hold the line now, so the next write reads it again
+      lastHash = null;
+      throw error;
+    }
+  });
+  pending = write.catch(() => undefined);
+  return write;
+};
+
+interface AuditLog {
+  entries: AuditEntry[];
+  lines: string[];
+  intact: boolean;
+}
+
+// Reads the whole log and checks every entry against the hash its successor recorded
+const readLog = async (): Promise<AuditLog> => {
+  const lines = await readLines();
+  const entries: AuditEntry[] = [];
+  const kept: string[] = [];
+  let intact = true;
+  let expected = GENESIS_HASH;
+  lines.forEach(line => {
+    try {
+      const entry: AuditEntry = JSON.parse(line);
+      if (entry.previousHash !== expected) intact = false;
+      entries.push(entry);
+      kept.push(line);
+    } catch {
+      intact = false;
+    }
+    expected = sha256(line);
+  });
+  return { entries, lines: kept, intact };
+};
+
+const toTime = (value: unknown): number | undefined => {
+  if (typeof value !== 'string' || !value) return undefined;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : undefined;
+};
+
+const toCount = (value: unknown, fallback: number, max: number) => {
+  const count = typeof value === 'string' ? Number.parseInt(value, 10) : NaN;
+  return Number.isFinite(count) && count >= 0 ? Math.min(count, max) : fallback;
+};
+
+export const parseAuditQuery = (query: Record<string, unknown>): AuditQuery => ({
+  user: typeof query.user === 'string' && query.user.trim() ? query.user.trim() : undefined,
+  action: AUDIT_ACTIONS.includes(query.action as AuditAction) ? query.action as AuditAction : undefined,
+  text: typeof query.text === 'string' && query.text.trim() ? query.text.trim() : undefined,
+  from: toTime(query.from),
+  to: toTime(query.to),
+  limit: toCount(query.limit, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+  offset: toCount(query.offset, 0, Number.MAX_SAFE_INTEGER)
+});
+
+const matches = (entry: AuditEntry, query: AuditQuery) => {
+  const includes = (value: string | undefined, needle: string) => !!value?.toLowerCase().includes(needle.toLowerCase());
+  return (!query.user || includes(entry.userName, query.user) || includes(entry.email, query.user) || includes(entry.userId, query.user))
+    && (!query.action || entry.action === query.action)
+    && (!query.text || includes(entry.question, query.text) || entry.documents.some(doc => includes(doc.name, query.text!)))
+    && (query.from === undefined || entry.timestamp >= query.from)
+    && (query.to === undefined || entry.timestamp <= query.to);
+};
+
+export const queryAudit = async (query: AuditQuery): Promise<AuditQueryResponse> => {
+  const { entries, intact } = await readLog();
+  const matched = entries.filter(entry => matches(entry, query)).reverse();
+  const offset = query.offset ?? 0;
+  return {
+    entries: matched.slice(offset, offset + (query.limit ?? DEFAULT_PAGE_SIZE)),
+    total: matched.length,
+    intact
+  };
+};
+
+export type AuditExportFormat = 'csv' | 'jsonl';
+
+// Every matching entry, oldest first. JSONL keeps the original lines so the hash chain can be re-checked.
+export const exportAudit = async (query: AuditQuery, format: AuditExportFormat): Promise<string> => {
+  const { entries, lines } = await readLog();
+  const selected = entries.map((entry, idx) => ({ entry, line: lines[idx] })).filter(({ entry }) => matches(entry, query));
+  if (format === 'jsonl') return selected.map(({ line }) => `${line}\n`).join('');
+
+  const header = ['Time', 'User', 'Email', 'Role', 'Action', 'Documents', 'Question', 'Answer SHA-256', 'Error', 'Provider', 'Model', 'Entry', 'Previous SHA-256'];
+  const rows = selected.map(({ entry }) => [
+    new Date(entry.timestamp).toISOString(),
+    entry.userName,
+    entry.email,
+    entry.role,
+    entry.action,
+    entry.documents.map(doc => doc.sha256 ? `${doc.name} (${doc.sha256})` : doc.name).join('; '),
+    entry.question,
+    entry.answerHash,
+    entry.error,
+    entry.provider,
+    entry.model,
+    entry.id,
+    entry.previousHash
+  ]);
+  return [header, ...rows].map(cells => cells.map(csvCell).join(',')).join('\n');
+};
@@ -0,0 +1,156 @@
+import express from 'express';
+import { ApiErrorBody, AuthMode, AuthUser, DevLoginRequest, hasRole, Role, ROLE_RANK, SessionResponse } from '../types';
+import { config } from './config';
+import { clearCookie, readSignedCookie, setSignedCookie } from './session';
+import { completeLogin, createLoginState, getAuthorizationUrl, getLogoutUrl, IdTokenClaims, LoginState } from './oidc';
+
+const SESSION_COOKIE = 'pmad_session';
+const LOGIN_COOKIE = 'pmad_login';
+// Time allowed between leaving for the provider's sign-in page and coming back
+const LOGIN_MAX_AGE_MS = 10 * 60 * 1000;
+
+export const authMode: AuthMode = config.authMode === 'oidc' ? 'oidc' : 'dev';
+
+// Refuses to start when sign-in is misconfigured rather than letting anyone in
+export const checkAuthConfig = () => {
+  if (!config.authMode) {
+    throw new Error('Sign-in is not configured. Set OIDC_ISSUER and OIDC_CLIENT_ID, or AUTH_MODE=dev to use the local stand-in.');
+  }
+  if (config.authMode !== 'oidc' && config.authMode !== 'dev') {
+    throw new Error(`AUTH_MODE must be "oidc" or "dev", not "${config.authMode}".`);
+  }
+  if (authMode === 'oidc' && (!config.oidcIssuer || !config.oidcClientId)) {
+    throw new Error('AUTH_MODE=oidc needs OIDC_ISSUER and OIDC_CLIENT_ID.');
+  }
+};
+
+// AUTH_ADMINS and AUTH_CURATORS list email addresses or values of the roles claim. An address only counts
+// once the provider has verified it, since some providers let anyone sign up with any address.
+const roleFor = (claims: IdTokenClaims): Role => {
+  const claimed = claims[config.oidcRolesClaim];
+  const groups = Array.isArray(claimed) ? claimed.map(String) : typeof claimed === 'string' ? claimed.split(/[\s,]+/) : [];
+  const email = claims.email_verified === true ? claims.email : undefined;
+  const values = [email, ...groups].filter((value): value is string => !!value).map(value => value.toLowerCase());
+  const listed = (entries: string[]) => entries.some(entry => values.includes(entry.toLowerCase()));
+  if (listed(config.adminUsers)) return 'admin';
+  if (listed(config.curatorUsers)) return 'curator';
+  return 'viewer';
+};
+
+const startSession = (req: express.Request, res: express.Response, user: AuthUser) => {
+  setSignedCookie(res, req, SESSION_COOKIE, user, config.sessionHours * 60 * 60 * 1000);
+};
+
+const readSession = (req: express.Request): AuthUser | null => {
+  const session = readSignedCookie<AuthUser>(req, SESSION_COOKIE);
+  return session && { id: session.id, name: session.name, email: session.email, role: session.role };
+};
+
+export const currentUser = (res: express.Response): AuthUser => res.locals.user;
+
+export const requireUser: express.RequestHandler = (req, res, next) => {
+  const user = readSession(req);
+  if (!user) {
+    const body: ApiErrorBody = { error: 'Sign in to continue.', kind: 'unauthenticated' };
+    res.status(401).json(body);
+    return;
+  }
+  res.locals.user = user;
+  next();
+};
+
+// Use after requireUser
+export const requireRole = (role: Role): express.RequestHandler => (_req, res, next) => {
+  if (!hasRole(currentUser(res), role)) {
+    const body: ApiErrorBody = { error: `Only ${role}s can do this.`, kind: 'forbidden' };
+    res.status(403).json(body);
+    return;
+  }
+  next();
+};
+
+const failLogin = (res: express.Response, error: unknown) => {
+  console.error('Sign-in error:', error);
+  res.status(401).type('text/plain').send('Sign-in failed. Go back to the application and try again.');
+};
+
+export const authRouter = express.Router();
+
+authRouter.get('/api/auth/session', (req, res) => {
+  const body: SessionResponse = { mode: authMode, user: readSession(req) };
+  res.json(body);
+});
+
+authRouter.get('/api/auth/login', async (req, res) => {
+  if (authMode !== 'oidc') {
+    res.redirect('/');
+    return;
+  }
+  try {
+    const login = createLoginState();
+    setSignedCookie(res, req, LOGIN_COOKIE, login, LOGIN_MAX_AGE_MS);
+    res.redirect(await getAuthorizationUrl(login));
+  } catch (error) {
+    failLogin(res, error);
+  }
+});
+
+authRouter.get('/api/auth/callback', async (req, res) => {
+  const login = readSignedCookie<LoginState>(req, LOGIN_COOKIE);
+  clearCookie(res, LOGIN_COOKIE);
+  const { code, state, error } = req.query;
+  if (authMode !== 'oidc' || !login || typeof code !== 'string' || state !== login.state) {
+    failLogin(res, error ?? 'The sign-in response did not match a login started here.');
+    return;
+  }
+  try {
+    const claims = await completeLogin(code, login);
+    startSession(req, res, {
+      id: claims.sub,
+      name: claims.name ?? claims.preferred_username ?? claims.email ?? claims.sub,
+      email: claims.email,
+      role: roleFor(claims)
+    });
+    res.redirect('/');
+  } catch (loginError) {
+    failLogin(res, loginError);
+  }
+});
+
+const ROLES = Object.keys(ROLE_RANK) as Role[];
+
+authRouter.post('/api/auth/dev-login', (req, res) => {
+  const body: Partial<DevLoginRequest> | undefined = req.body;
+  if (authMode !== 'dev') {
+    res.status(404).json({ error: 'The dev sign-in is disabled.' });
+    return;
+  }
+  if (!body || typeof body.name !== 'string' || !body.name.trim() || !ROLES.includes(body.role as Role)) {
+    res.status(400).json({ error: 'A name and a role are required.' });
+    return;
+  }
+  const user: AuthUser = {
+    id: `dev:${body.name.trim().toLowerCase()}`,
+    name: body.name.trim(),
+    email: typeof body.email === 'string' && body.email.trim() ? body.email.trim() : undefined,
+    role: body.role as Role
+  };
+  startSession(req, res, user);
+  const session: SessionResponse = { mode: authMode, user };
+  res.json(session);
+});
+
+// Also returns the provider's logout page, if any, so the browser can end that session too
+authRouter.post('/api/auth/logout', async (req, res) => {
+  clearCookie(res, SESSION_COOKIE);
+  if (authMode !== 'oidc') {
+    res.json({});
+    return;
+  }
+  try {
+    res.json({ redirectUrl: await getLogoutUrl(`${req.protocol}://${req.get('host')}/`) });
+  } catch (error) {
+    console.error('Sign-out error:', error);
+    res.json({});
+  }
+});
@@ -0,0 +1,57 @@
+import 'dotenv/config';
+import path from 'node:path';
+import process from 'node:process';
+
+const list = (value: string | undefined, fallback: string[]) =>
+  value ? value.split(',').map(item => item.trim()).filter(Boolean) : fallback;
+
+// "model=input/output" pairs in US dollars per million tokens, e.g. "my-model=0.5/3,other=0/0"
+const prices = (value: string | undefined) =>
+  Object.fromEntries(list(value, []).map(entry => {
+    const [model, rates = ''] = entry.split('=');
+    const [input, output] = rates.split('/').map(Number);
+    return [model.trim(), { input: input || 0, output: output || 0 }];
+  }));
+
+export const config = {
+  port: Number(process.env.PORT) || 8787,
+  apiKey: process.env.API_KEY || '',
+  // 'gemini', 'openai' or 'mock'; the mock answers locally without any network call
+  defaultProvider: (process.env.MODEL_PROVIDER || 'gemini').toLowerCase(),
+  geminiModels: list(process.env.GEMINI_MODELS, ['gemini-3-flash-preview']),
+  // Any OpenAI-compatible chat completions server, e.g. an on-prem vLLM or Ollama instance
+  openaiBaseUrl: process.env.OPENAI_BASE_URL || '',
+  openaiApiKey: process.env.OPENAI_API_KEY || '',
+  openaiModels: list(process.env.OPENAI_MODELS, []),
+  // Model calls running longer than this are aborted and reported as timeouts
+  modelTimeoutMs: Number(process.env.MODEL_TIMEOUT_MS) || 120_000,
+  // Merged over the built-in price list in server/pricing.ts
+  modelPrices: prices(process.env.MODEL_PRICES),
+  staticDir: path.resolve(process.env.STATIC_DIR || 'dist'),
+  // Base64-encoded PDFs travel in the request body, so the limit has to be generous
+  bodyLimit: process.env.BODY_LIMIT || '50mb',
+  // Checked in the browser before a file is read. The default per-file size still fits BODY_LIMIT once base64-encoded.
+  maxFileMb: Number(process.env.MAX_FILE_MB) || 30,
+  maxWorkspaceMb: Number(process.env.MAX_WORKSPACE_MB) || 500,
+  // 'oidc' or the 'dev' stand-in. Unset means 'oidc' when an issuer is configured, otherwise 'dev',
+  // except in production where the server refuses to start without one or the other chosen
+  authMode: (process.env.AUTH_MODE
+    || (process.env.OIDC_ISSUER ? 'oidc' : process.env.NODE_ENV === 'production' ? '' : 'dev')).toLowerCase(),
+  oidcIssuer: process.env.OIDC_ISSUER || '',
+  oidcClientId: process.env.OIDC_CLIENT_ID || '',
+  oidcClientSecret: process.env.OIDC_CLIENT_SECRET || '',
+  // Must be registered with the provider; defaults to this server's callback route
+  oidcRedirectUri: process.env.OIDC_REDIRECT_URI || `http://localhost:${Number(process.env.PORT) || 8787}/api/auth/callback`,
+  oidcScopes: process.env.OIDC_SCOPES || 'openid profile email',
+  // ID token claim holding the user's groups or roles, matched against the lists below
+  oidcRolesClaim: process.env.OIDC_ROLES_CLAIM || 'groups',
+  // Email addresses or group names; everyone else who signs in is a viewer
+  adminUsers: list(process.env.AUTH_ADMINS, []),
+  curatorUsers: list(process.env.AUTH_CURATORS, []),
+  // Signs session cookies; without it a random secret is used and sessions end when the server restarts
+  sessionSecret: process.env.SESSION_SECRET || '',
+  sessionHours: Number(process.env.SESSION_HOURS) || 8,
+  auditLogPath: path.resolve(process.env.AUDIT_LOG_PATH || 'data/audit.jsonl'),
+  // Shared collections: an index file plus one file per published document
+  libraryDir: path.resolve(process.env.LIBRARY_DIR || 'data/library')
+};
@@ -0,0 +1,51 @@
+import { ErrorKind } from '../types';
+
+// Thrown by providers for failures they can recognise themselves, such as a safety block
+export class ModelError extends Error {
+  kind: ErrorKind;
+
+  constructor(kind: ErrorKind, message: string) {
+    super(message);
+    this.name = 'ModelError';
+    this.kind = kind;
+  }
+}
+
+// HTTP status the API answers with for each kind of failure
+export const STATUS_FOR_KIND: Record<ErrorKind, number> = {
+  unauthenticated: 401,
+  forbidden: 403,
+  auth: 502,
+  quota: 429,
+  payload_too_large: 413,
+  safety: 422,
+  timeout: 504,
+  network: 502,
+  unavailable: 503,
+  unknown: 502
+};
+
+export const kindForStatus = (status: number, message = ''): ErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 413) return 'payload_too_large';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'unavailable';
+  // Gemini reports both of these as a plain 400 INVALID_ARGUMENT
+  if (/api key/i.test(message)) return 'auth';
+  if (/exceeds the maximum|too large|too long|context length/i.test(message)) return 'payload_too_large';
+  return 'unknown';
+};
+
+// `timedOut` tells a timeout apart from other aborts, which surface as the same AbortError
+export const classifyError = (error: unknown, timedOut = false): ErrorKind => {
+  if (error instanceof ModelError) return error.kind;
+  if (timedOut) return 'timeout';
+
+  const { status, message = '', cause } = (error ?? {}) as { status?: unknown; message?: string; cause?: { code?: string } };
+  if (typeof status === 'number') return kindForStatus(status, message);
+  // fetch() rejects with a TypeError when the model endpoint cannot be reached at all
+  if (error instanceof TypeError && /fetch failed/i.test(message)) return 'network';
+  if (cause?.code && /^(ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT|EAI_AGAIN)$/.test(cause.code)) return 'network';
+  return 'unknown';
+};
@@ -0,0 +1,396 @@
+import express from 'express';
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  ApiErrorBody,
+  AskRequest,
+  AskResponse,
+  AskStreamEvent,
+  AuditAction,
+  AuditDocument,
+  ChatMessage,
+  CompareRequest,
+  CompareResponse,
+  CountTokensResponse,
+  ExtractRequest,
+  ExtractResponse,
+  ExtractionFieldType,
+  ErrorKind,
+  RequestFile,
+  DocumentChunk,
+  SummarizeRequest,
+  SummarizeResponse,
+  UploadLimits
+} from '../types';
+import { config } from './config';
+import { classifyError, STATUS_FOR_KIND } from './errors';
+import { authMode, authRouter, checkAuthConfig, currentUser, requireRole, requireUser } from './auth';
+import { appendAudit, AuditExportFormat, exportAudit, parseAuditQuery, queryAudit, sha256 } from './audit';
+import { libraryRouter } from './library';
+import { MAX_SYSTEM_INSTRUCTION_LENGTH } from './prompt';
+import { getDefaultProviderId, listProviders, resolveProvider, UnknownProviderError } from './providers';
+
+checkAuthConfig();
+
+const app = express();
+
+// Lets secure cookies work behind a reverse proxy on the same host or private network that terminates TLS
+app.set('trust proxy', 'loopback, linklocal, uniquelocal');
+app.use(express.json({ limit: config.bodyLimit }));
+
+// Items are checked for the fields the prompt builders read, so a malformed one is a 400 rather than a
+// provider error further on
+const isRequestFile = (file: unknown): file is RequestFile => {
+  const candidate = file as Partial<RequestFile> | null;
+  return typeof candidate === 'object' && candidate !== null
+    && typeof candidate.name === 'string'
+    && typeof candidate.mimeType === 'string'
+    && typeof candidate.base64 === 'string'
+    && (candidate.pages === undefined || (Array.isArray(candidate.pages) && candidate.pages.every(page => typeof page === 'string')));
+};
+
+const isDocumentChunk = (chunk: unknown): chunk is DocumentChunk => {
+  const candidate = chunk as Partial<DocumentChunk> | null;
+  return typeof candidate === 'object' && candidate !== null
+    && typeof candidate.fileName === 'string'
+    && typeof candidate.page === 'number'
+    && typeof candidate.text === 'string';
+};
+
+const isHistoryMessage = (message: unknown): message is ChatMessage => {
+  const candidate = message as Partial<ChatMessage> | null;
+  return typeof candidate === 'object' && candidate !== null
+    && (candidate.role === 'user' || candidate.role === 'model')
+    && typeof candidate.content === 'string';
+};
+
+const parseAskRequest = (body: Partial<AskRequest> | undefined): AskRequest | null => {
+  if (!body || typeof body.question !== 'string' || !body.question.trim()
+    || !Array.isArray(body.files) || !body.files.every(isRequestFile)) {
+    return null;
+  }
+  const chunks = Array.isArray(body.chunks) ? body.chunks : [];
+  const history = Array.isArray(body.history) ? body.history : [];
+  if (!chunks.every(isDocumentChunk) || !history.every(isHistoryMessage)) return null;
+  return {
+    files: body.files,
+    chunks,
+    history,
+    summary: typeof body.summary === 'string' && body.summary.trim() ? body.summary : undefined,
+    question: body.question,
+    systemInstruction: typeof body.systemInstruction === 'string'
+      ? body.systemInstruction.slice(0, MAX_SYSTEM_INSTRUCTION_LENGTH)
+      : undefined,
+    temperature: typeof body.temperature === 'number' ? Math.min(Math.max(body.temperature, 0), 2) : undefined,
+    provider: typeof body.provider === 'string' ? body.provider : undefined,
+    model: typeof body.model === 'string' ? body.model : undefined
+  };
+};
+
+const FIELD_TYPES: ExtractionFieldType[] = ['string', 'number', 'date', 'boolean', 'list'];
+const MAX_EXTRACTION_FIELDS = 50;
+
+const parseExtractRequest = (body: Partial<ExtractRequest> | undefined): ExtractRequest | null => {
+  if (!body || !Array.isArray(body.files) || body.files.length === 0 || !body.files.every(isRequestFile)
+    || !Array.isArray(body.fields)) {
+    return null;
+  }
+  const fields = body.fields
+    .filter(field => typeof field?.name === 'string' && field.name.trim() && FIELD_TYPES.includes(field.type))
+    .slice(0, MAX_EXTRACTION_FIELDS)
+    .map(field => ({
+      name: field.name.trim(),
+      type: field.type,
+      description: typeof field.description === 'string' ? field.description : '',
+      required: field.required === true
+    }));
+  if (fields.length === 0) return null;
+  return {
+    files: body.files,
+    fields,
+    corrections: Array.isArray(body.corrections) ? body.corrections.filter(c => typeof c === 'string') : undefined,
+    systemInstruction: typeof body.systemInstruction === 'string'
+      ? body.systemInstruction.slice(0, MAX_SYSTEM_INSTRUCTION_LENGTH)
+      : undefined,
+    provider: typeof body.provider === 'string' ? body.provider : undefined,
+    model: typeof body.model === 'string' ? body.model : undefined
+  };
+};
+
+app.get('/api/health', (_req, res) => {
+  res.json({ status: 'ok', defaultProvider: getDefaultProviderId() });
+});
+
+app.use(authRouter);
+// Everything below needs a signed-in user
+app.use('/api', requireUser);
+
+app.use(libraryRouter);
+
+app.get('/api/upload-limits', (_req, res) => {
+  const limits: UploadLimits = {
+    maxFileBytes: config.maxFileMb * 1024 * 1024,
+    maxTotalBytes: config.maxWorkspaceMb * 1024 * 1024
+  };
+  res.json(limits);
+});
+
+app.get('/api/providers', (_req, res) => {
+  res.json({ providers: listProviders(), defaultProvider: getDefaultProviderId() });
+});
+
+// Ends the model call when the client goes away or the configured timeout passes
+const createCallSignal = (res: express.Response) => {
+  const client = new AbortController();
+  const timeout = AbortSignal.timeout(config.modelTimeoutMs);
+  res.on('close', () => client.abort());
+  return { signal: AbortSignal.any([client.signal, timeout]), timeout };
+};
+
+// Documents sent whole plus those that excerpts were taken from
+const auditDocuments = (files: RequestFile[], chunks: DocumentChunk[] = []): AuditDocument[] => {
+  const documents = new Map(files.map(file => [file.name, { name: file.name, sha256: file.hash }]));
+  chunks.forEach(chunk => {
+    if (!documents.has(chunk.fileName)) documents.set(chunk.fileName, { name: chunk.fileName, sha256: undefined });
+  });
+  return [...documents.values()];
+};
+
+// Records who asked what of which documents, and a hash of the answer; failed requests are recorded too
+const recordAudit = (
+  res: express.Response,
+  action: AuditAction,
+  documents: AuditDocument[],
+  question: string,
+  selection: { provider?: string; model?: string },
+  outcome: { answer: string } | { error: ErrorKind }
+) => {
+  const user = currentUser(res);
+  return appendAudit({
+    userId: user.id,
+    userName: user.name,
+    email: user.email,
+    role: user.role,
+    action,
+    documents,
+    question,
+    answerHash: 'answer' in outcome ? sha256(outcome.answer) : undefined,
+    error: 'error' in outcome ? outcome.error : undefined,
+    provider: selection.provider || getDefaultProviderId(),
+    model: selection.model ?? ''
+  }).catch(error => console.error('Audit log error:', error));
+};
+
+const sendError = (res: express.Response, context: string, error: unknown, timedOut: boolean, message: string) => {
+  if (error instanceof UnknownProviderError) {
+    const body: ApiErrorBody = { error: error.message };
+    res.status(400).json(body);
+    return;
+  }
+  const kind = classifyError(error, timedOut);
+  console.error(`${context} (${kind}):`, error);
+  const body: ApiErrorBody = { error: message, kind };
+  res.status(STATUS_FOR_KIND[kind]).json(body);
+};
+
+app.post('/api/ask', async (req, res) => {
+  const request = parseAskRequest(req.body);
+  if (!request) {
+    res.status(400).json({ error: 'A question and a list of well-formed files, excerpts and messages are required.' });
+    return;
+  }
+
+  const { signal, timeout } = createCallSignal(res);
+  const documents = auditDocuments(request.files, request.chunks);
+  try {
+    const { provider, model } = resolveProvider(request.provider, request.model);
+    const payload: AskResponse = await provider.ask(request, { model, signal });
+    await recordAudit(res, 'ask', documents, request.question, { provider: provider.id, model }, { answer: payload.answer });
+    res.json(payload);
+  } catch (error) {
+    if (!(error instanceof UnknownProviderError)) {
+      await recordAudit(res, 'ask', documents, request.question, request, { error: classifyError(error, timeout.aborted) });
+    }
+    sendError(res, 'Model API Error', error, timeout.aborted, 'The model request failed.');
+  }
+});
+
+// Streams the answer as newline-delimited JSON events so the client can render it as it arrives
+app.post('/api/ask/stream', async (req, res) => {
+  const request = parseAskRequest(req.body);
+  if (!request) {
+    res.status(400).json({ error: 'A question and a list of well-formed files, excerpts and messages are required.' });
+    return;
+  }
+
+  let resolved: ReturnType<typeof resolveProvider>;
+  try {
+    resolved = resolveProvider(request.provider, request.model);
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+    return;
+  }
+
+  const { signal, timeout } = createCallSignal(res);
+
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache');
+  const send = (event: AskStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+  const documents = auditDocuments(request.files, request.chunks);
+  const selection = { provider: resolved.provider.id, model: resolved.model };
+  let answer = '';
+
+  try {
+    for await (const piece of resolved.provider.stream(request, { model: resolved.model, signal })) {
+      if (piece.type === 'chunk') answer += piece.text;
+      send(piece);
+    }
+    await recordAudit(res, 'ask', documents, request.question, selection, { answer });
+    send({ type: 'done' });
+  } catch (error) {
+    const kind = classifyError(error, timeout.aborted);
+    await recordAudit(res, 'ask', documents, request.question, selection, { error: kind });
+    // Headers are already sent, so the failure travels as the last event of the stream
+    if (!signal.aborted || timeout.aborted) {
+      console.error(`Model API Error (${kind}):`, error);
+      send({ type: 'error', message: 'The model request failed.', kind });
+    }
+  } finally {
+    res.end();
+  }
+});
+
+app.post('/api/count-tokens', async (req, res) => {
+  const request = parseAskRequest(req.body);
+  if (!request) {
+    res.status(400).json({ error: 'A question and a list of well-formed files, excerpts and messages are required.' });
+    return;
+  }
+
+  const { signal, timeout } = createCallSignal(res);
+  try {
+    const { provider, model } = resolveProvider(request.provider, request.model);
+    const payload: CountTokensResponse = await provider.countTokens(request, { model, signal });
+    res.json(payload);
+  } catch (error) {
+    sendError(res, 'Token count error', error, timeout.aborted, 'Tokens could not be counted.');
+  }
+});
+
+app.post('/api/summarize', async (req, res) => {
+  const body: Partial<SummarizeRequest> | undefined = req.body;
+  if (!body || !Array.isArray(body.messages) || body.messages.length === 0 || !body.messages.every(isHistoryMessage)) {
+    res.status(400).json({ error: 'A list of well-formed messages to summarize is required.' });
+    return;
+  }
+
+  const { signal, timeout } = createCallSignal(res);
+  try {
+    const { provider, model } = resolveProvider(body.provider, body.model);
+    const payload: SummarizeResponse = await provider.summarize({
+      previousSummary: typeof body.previousSummary === 'string' ? body.previousSummary : undefined,
+      messages: body.messages
+    }, { model, signal });
+    res.json(payload);
+  } catch (error) {
+    sendError(res, 'Summarization error', error, timeout.aborted, 'The conversation could not be summarized.');
+  }
+});
+
+app.post('/api/extract', async (req, res) => {
+  const request = parseExtractRequest(req.body);
+  if (!request) {
+    res.status(400).json({ error: 'A document and at least one named field are required.' });
+    return;
+  }
+
+  const { signal, timeout } = createCallSignal(res);
+  const documents = auditDocuments(request.files);
+  const question = `Extract fields: ${request.fields.map(field => field.name).join(', ')}`;
+  try {
+    const { provider, model } = resolveProvider(request.provider, request.model);
+    const payload: ExtractResponse = await provider.extract(request, { model, signal });
+    await recordAudit(res, 'extract', documents, question, { provider: provider.id, model }, { answer: JSON.stringify(payload.values) });
+    res.json(payload);
+  } catch (error) {
+    if (!(error instanceof UnknownProviderError)) {
+      await recordAudit(res, 'extract', documents, question, request, { error: classifyError(error, timeout.aborted) });
+    }
+    sendError(res, 'Extraction error', error, timeout.aborted, 'The fields could not be extracted.');
+  }
+});
+
+app.post('/api/compare', async (req, res) => {
+  const body: Partial<CompareRequest> | undefined = req.body;
+  if (!body || typeof body.baseName !== 'string' || typeof body.revisedName !== 'string' || !Array.isArray(body.hunks)) {
+    res.status(400).json({ error: 'Two document names and a list of changes are required.' });
+    return;
+  }
+
+  const { signal, timeout } = createCallSignal(res);
+  const documents: AuditDocument[] = [{ name: body.baseName }, { name: body.revisedName }];
+  const question = `Summarize the changes from "${body.baseName}" to "${body.revisedName}"`;
+  try {
+    const { provider, model } = resolveProvider(body.provider, body.model);
+    const payload: CompareResponse = await provider.compare({
+      baseName: body.baseName,
+      revisedName: body.revisedName,
+      hunks: body.hunks.filter(hunk => typeof hunk?.id === 'number'),
+      systemInstruction: typeof body.systemInstruction === 'string'
+        ? body.systemInstruction.slice(0, MAX_SYSTEM_INSTRUCTION_LENGTH)
+        : undefined
+    }, { model, signal });
+    await recordAudit(res, 'compare', documents, question, { provider: provider.id, model }, { answer: JSON.stringify(payload.sections) });
+    res.json(payload);
+  } catch (error) {
+    if (!(error instanceof UnknownProviderError)) {
+      await recordAudit(res, 'compare', documents, question, body, { error: classifyError(error, timeout.aborted) });
+    }
+    sendError(res, 'Comparison error', error, timeout.aborted, 'The changes could not be summarized.');
+  }
+});
+
+app.get('/api/audit', requireRole('admin'), async (req, res) => {
+  try {
+    res.json(await queryAudit(parseAuditQuery(req.query)));
+  } catch (error) {
+    console.error('Audit log error:', error);
+    res.status(500).json({ error: 'The audit log could not be read.' });
+  }
+});
+
+app.get('/api/audit/export', requireRole('admin'), async (req, res) => {
+  const format: AuditExportFormat = req.query.format === 'jsonl' ? 'jsonl' : 'csv';
+  try {
+    const content = await exportAudit(parseAuditQuery(req.query), format);
+    res.type(format === 'csv' ? 'text/csv' : 'application/x-ndjson');
+    res.attachment(`audit-log.${format}`);
+    res.send(content);
+  } catch (error) {
+    console.error('Audit log error:', error);
+    res.status(500).json({ error: 'The audit log could not be read.' });
+  }
+});
+
+// Request bodies over BODY_LIMIT are rejected by the JSON parser before any route runs
+app.use((error: { type?: string }, _req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (error?.type !== 'entity.too.large') {
+    next(error);
+    return;
+  }
+  const body: ApiErrorBody = { error: 'The documents are too large for one request.', kind: 'payload_too_large' };
+  res.status(413).json(body);
+});
+
+// Serve the built client alongside the API when a production build is present
+if (fs.existsSync(config.staticDir)) {
+  app.use(express.static(config.staticDir));
+  app.get(/^(?!\/api\/).*/, (_req, res) => {
+    res.sendFile(path.join(config.staticDir, 'index.html'));
+  });
+}
+
+app.listen(config.port, () => {
+  console.log(`PMAD AI server listening on http://localhost:${config.port} (default provider: ${getDefaultProviderId()})`);
+  if (authMode === 'dev') console.warn('Sign-in uses the dev stand-in: anyone can sign in under any name and role.');
+});
@@ -0,0 +1,327 @@
+import crypto from 'node:crypto';
+import express from 'express';
+import fs from 'node:fs';
+import path from 'node:path';
+import { Collection, DocumentMetadata, LibraryDocument, LibraryResponse, PublishRequest, RequestFile } from '../types';
+import { config } from './config';
+import { currentUser, requireRole } from './auth';
+
+const INDEX_PATH = path.join(config.libraryDir, 'library.json');
+const DOCUMENTS_DIR = path.join(config.libraryDir, 'documents');
+const MAX_NAME_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 1000;
+const MAX_TITLE_LENGTH = 200;
+const MAX_DEPARTMENT_LENGTH = 100;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+
+interface LibraryIndex {
+  collections: Collection[];
+}
+
+// What is stored per published document besides its index entry
+interface StoredContent {
+  base64: string;
+  pages?: string[];
+  scannedPages?: number[];
+  ocrPages?: number[];
+}
+
+class LibraryError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'LibraryError';
+  }
+}
+
+let indexPromise: Promise<LibraryIndex> | null = null;
+let pending: Promise<unknown> = Promise.resolve();
+
+const readIndex = async (): Promise<LibraryIndex> => {
+  try {
+    return JSON.parse(await fs.promises.readFile(INDEX_PATH, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { collections: [] };
+    throw error;
+  }
+};
+
+// Read once; a failure is not cached so the next request tries again
+const getIndex = (): Promise<LibraryIndex> => {
+  if (!indexPromise) {
+    indexPromise = readIndex().catch((error) => {
+      indexPromise = null;
+      throw error;
+    });
+  }
+  return indexPromise;
+};
+
+// Written beside the old file and renamed over it, so a crash never leaves half an index
+const writeIndex = async (index: LibraryIndex) => {
+  await fs.promises.mkdir(config.libraryDir, { recursive: true });
+  const temporary = `${INDEX_PATH}.${process.pid}.tmp`;
+  await fs.promises.writeFile(temporary, JSON.stringify(index, null, 2));
+  await fs.promises.rename(temporary, INDEX_PATH);
+};
+
+// Changes run one at a time against a copy, which replaces the index only once it is on disk
+const update = <T>(change: (index: LibraryIndex) => Promise<T> | T): Promise<T> => {
+  const run = pending.then(async () => {
+    const index: LibraryIndex = structuredClone(await getIndex());
+    const result = await change(index);
+    await writeIndex(index);
+    indexPromise = Promise.resolve(index);
+    return result;
+  });
+  pending = run.catch(() => undefined);
+  return run;
+};
+
+const contentPath = (id: string) => path.join(DOCUMENTS_DIR, `${id}.json`);
+
+const removeContent = (ids: string[]) =>
+  Promise.all(ids.map(id => fs.promises.rm(contentPath(id), { force: true })));
+
+const findCollection = (index: LibraryIndex, id: string): Collection => {
+  const collection = index.collections.find(c => c.id === id);
+  if (!collection) throw new LibraryError('The collection no longer exists.', 404);
+  return collection;
+};
+
+const findDocument = (index: LibraryIndex, id: string): { collection: Collection; document: LibraryDocument } => {
+  for (const collection of index.collections) {
+    const document = collection.documents.find(d => d.id === id);
+    if (document) return { collection, document };
+  }
+  throw new LibraryError('The document is no longer in the library.', 404);
+};
+
+const cleanText = (value: unknown, maxLength: number): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : undefined;
+
+const parseMetadata = (value: Partial<DocumentMetadata> | undefined): DocumentMetadata => {
+  const tags = Array.isArray(value?.tags)
+    ? [...new Set(value.tags.map(tag => cleanText(tag, MAX_TAG_LENGTH)).filter((tag): tag is string => !!tag))].slice(0, MAX_TAGS)
+    : [];
+  const effectiveDate = typeof value?.effectiveDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.effectiveDate)
+    ? value.effectiveDate
+    : undefined;
+  return {
+    title: cleanText(value?.title, MAX_TITLE_LENGTH),
+    department: cleanText(value?.department, MAX_DEPARTMENT_LENGTH),
+    effectiveDate,
+    tags: tags.length > 0 ? tags : undefined
+  };
+};
+
+const parseCollectionFields = (body: { name?: unknown; description?: unknown } | undefined) => {
+  const name = cleanText(body?.name, MAX_NAME_LENGTH);
+  if (!name) throw new LibraryError('A collection needs a name.', 400);
+  return { name, description: cleanText(body?.description, MAX_DESCRIPTION_LENGTH) };
+};
+
+const listCollections = async (): Promise<Collection[]> => (await getIndex()).collections;
+
+const createCollection = (fields: { name?: unknown; description?: unknown }, createdBy: string) => {
+  const { name, description } = parseCollectionFields(fields);
+  return update((index) => {
+    if (index.collections.some(c => c.name.toLowerCase() === name.toLowerCase())) {
+      throw new LibraryError(`A collection named "${name}" already exists.`, 409);
+    }
+    const now = Date.now();
+    const collection: Collection = { id: crypto.randomUUID(), name, description, documents: [], createdBy, createdAt: now, updatedAt: now };
+    index.collections.push(collection);
+    return collection;
+  });
+};
+
+const updateCollection = (id: string, fields: { name?: unknown; description?: unknown }) => {
+  const { name, description } = parseCollectionFields(fields);
+  return update((index) => {
+    const collection = findCollection(index, id);
+    if (index.collections.some(c => c.id !== id && c.name.toLowerCase() === name.toLowerCase())) {
+      throw new LibraryError(`A collection named "${name}" already exists.`, 409);
+    }
+    Object.assign(collection, { name, description, updatedAt: Date.now() });
+    return collection;
+  });
+};
+
+const deleteCollection = async (id: string) => {
+  const removed = await update((index) => {
+    const collection = findCollection(index, id);
+    index.collections = index.collections.filter(c => c.id !== id);
+    return collection.documents.map(d => d.id);
+  });
+  await removeContent(removed);
+};
+
+// Publishing under a name the collection already has replaces that document with its next version
+const publishDocument = async (collectionId: string, request: Partial<PublishRequest> | undefined, publishedBy: string) => {
+  const file = request?.file;
+  const name = cleanText(file?.name, 255);
+  if (!file || !name || typeof file.base64 !== 'string' || !file.base64 || typeof file.mimeType !== 'string') {
+    throw new LibraryError('A document with its content is required.', 400);
+  }
+  const bytes = Buffer.from(file.base64, 'base64');
+  // Hashed here rather than trusted from the client
+  const hash = crypto.createHash('sha256').update(bytes).digest('hex');
+  const pages = Array.isArray(file.pages) && file.pages.every(page => typeof page === 'string') ? file.pages : undefined;
+  const pageNumbers = (value: unknown) =>
+    pages && Array.isArray(value) && value.every(n => Number.isInteger(n) && n >= 1 && n <= pages.length) ? value as number[] : undefined;
+  const id = crypto.randomUUID();
+
+  await fs.promises.mkdir(DOCUMENTS_DIR, { recursive: true });
+  const content: StoredContent = { base64: file.base64, pages, scannedPages: pageNumbers(file.scannedPages), ocrPages: pageNumbers(file.ocrPages) };
+  await fs.promises.writeFile(contentPath(id), JSON.stringify(content));
+
+  try {
+    const { document, replaced } = await update((index) => {
+      const collection = findCollection(index, collectionId);
+      if (collection.documents.some(d => d.hash === hash)) {
+        throw new LibraryError(`"${name}" is already published in ${collection.name}.`, 409);
+      }
+      const previous = collection.documents.find(d => d.name === name);
+      const document: LibraryDocument = {
+        id,
+        collectionId,
+        documentId: previous?.documentId ?? id,
+        version: (previous?.version ?? 0) + 1,
+        name,
+        mimeType: file.mimeType,
+        size: bytes.length,
+        hash,
+        metadata: parseMetadata(request.metadata),
+        publishedBy,
+        publishedAt: Date.now()
+      };
+      collection.documents = [...collection.documents.filter(d => d !== previous), document];
+      collection.updatedAt = document.publishedAt;
+      return { document, replaced: previous?.id };
+    });
+    if (replaced) await removeContent([replaced]);
+    return document;
+  } catch (error) {
+    await removeContent([id]);
+    throw error;
+  }
+};
+
+const updateDocumentMetadata = (id: string, metadata: Partial<DocumentMetadata> | undefined) =>
+  update((index) => {
+    const { collection, document } = findDocument(index, id);
+    document.metadata = parseMetadata(metadata);
+    collection.updatedAt = Date.now();
+    return document;
+  });
+
+const withdrawDocument = async (id: string) => {
+  await update((index) => {
+    const { collection } = findDocument(index, id);
+    collection.documents = collection.documents.filter(d => d.id !== id);
+    collection.updatedAt = Date.now();
+  });
+  await removeContent([id]);
+};
+
+// The document as the client keeps it, ready to add to a workspace
+const readDocument = async (id: string): Promise<RequestFile> => {
+  const { document } = findDocument(await getIndex(), id);
+  const content: StoredContent = JSON.parse(await fs.promises.readFile(contentPath(id), 'utf8'));
+  return {
+    id: document.id,
+    name: document.name,
+    mimeType: document.mimeType,
+    base64: content.base64,
+    size: document.size,
+    pages: content.pages,
+    scannedPages: content.scannedPages,
+    ocrPages: content.ocrPages,
+    hash: document.hash,
+    documentId: document.documentId,
+    version: document.version,
+    uploadedAt: document.publishedAt,
+    collectionId: document.collectionId,
+    metadata: document.metadata
+  };
+};
+
+const sendLibraryError = (res: express.Response, error: unknown) => {
+  if (error instanceof LibraryError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  console.error('Library error:', error);
+  res.status(500).json({ error: 'The library could not be updated.' });
+};
+
+// Mount after requireUser: everyone reads, curators make changes
+export const libraryRouter = express.Router();
+
+libraryRouter.get('/api/library', async (_req, res) => {
+  try {
+    const body: LibraryResponse = { collections: await listCollections() };
+    res.json(body);
+  } catch (error) {
+    sendLibraryError(res, error);
+  }
+});
+
+libraryRouter.get('/api/library/documents/:id', async (req, res) => {
+  try {
+    res.json(await readDocument(req.params.id));
+  } catch (error) {
+    sendLibraryError(res, error);
+  }
+});
+
+libraryRouter.post('/api/library/collections', requireRole('curator'), async (req, res) => {
+  try {
+    res.status(201).json(await createCollection(req.body ?? {}, currentUser(res).name));
+  } catch (error) {
+    sendLibraryError(res, error);
+  }
+});
+
+libraryRouter.put('/api/library/collections/:id', requireRole('curator'), async (req, res) => {
+  try {
+    res.json(await updateCollection(req.params.id, req.body ?? {}));
+  } catch (error) {
+    sendLibraryError(res, error);
+  }
+});
+
+libraryRouter.delete('/api/library/collections/:id', requireRole('curator'), async (req, res) => {
+  try {
+    await deleteCollection(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    sendLibraryError(res, error);
+  }
+});
+
+libraryRouter.post('/api/library/collections/:id/documents', requireRole('curator'), async (req, res) => {
+  try {
+    res.status(201).json(await publishDocument(req.params.id, req.body, currentUser(res).name));
+  } catch (error) {
+    sendLibraryError(res, error);
+  }
+});
+
+libraryRouter.put('/api/library/documents/:id', requireRole('curator'), async (req, res) => {
+  try {
+    res.json(await updateDocumentMetadata(req.params.id, req.body?.metadata));
+  } catch (error) {
+    sendLibraryError(res, error);
+  }
+});
+
+libraryRouter.delete('/api/library/documents/:id', requireRole('curator'), async (req, res) => {
+  try {
+    await withdrawDocument(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    sendLibraryError(res, error);
+  }
+});
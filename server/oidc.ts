@@ -0,0 +1,168 @@
+import crypto from 'node:crypto';
+import { config } from './config';
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  end_session_endpoint?: string;
+}
+
+interface JsonWebKeySet {
+  keys: (JsonWebKey & { kid?: string })[];
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+  name?: string;
+  preferred_username?: string;
+  email?: string;
+  email_verified?: boolean;
+  [claim: string]: unknown;
+}
+
+// What the login redirect has to remember until the provider sends the user back
+export interface LoginState {
+  state: string;
+  nonce: string;
+  verifier: string;
+}
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+let metadataPromise: Promise<ProviderMetadata> | null = null;
+let jwksPromise: Promise<JsonWebKeySet> | null = null;
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) throw new OidcError(`${url} responded with status ${response.status}`);
+  return response.json() as Promise<T>;
+};
+
+// Discovery is fetched once; a failure is not cached so the next login tries again
+const getMetadata = (): Promise<ProviderMetadata> => {
+  if (!metadataPromise) {
+    const url = `${config.oidcIssuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+    metadataPromise = fetchJson<ProviderMetadata>(url).catch((error) => {
+      metadataPromise = null;
+      throw error;
+    });
+  }
+  return metadataPromise;
+};
+
+// Refetched when a token names a key we have not seen, which is how providers rotate keys
+const getJwks = async (refresh = false): Promise<JsonWebKeySet> => {
+  if (!jwksPromise || refresh) {
+    const { jwks_uri } = await getMetadata();
+    jwksPromise = fetchJson<JsonWebKeySet>(jwks_uri).catch((error) => {
+      jwksPromise = null;
+      throw error;
+    });
+  }
+  return jwksPromise;
+};
+
+const randomToken = () => crypto.randomBytes(32).toString('base64url');
+
+export const createLoginState = (): LoginState => ({ state: randomToken(), nonce: randomToken(), verifier: randomToken() });
+
+// Authorization code flow with PKCE
+export const getAuthorizationUrl = async ({ state, nonce, verifier }: LoginState): Promise<string> => {
+  const { authorization_endpoint } = await getMetadata();
+  const url = new URL(authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.oidcClientId,
+    redirect_uri: config.oidcRedirectUri,
+    scope: config.oidcScopes,
+    state,
+    nonce,
+    code_challenge: crypto.createHash('sha256').update(verifier).digest('base64url'),
+    code_challenge_method: 'S256'
+  }).toString();
+  return url.toString();
+};
+
+const VERIFY_OPTIONS: Record<string, { hash: string; padding?: number; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' }
+};
+
+const decodeSegment = <T>(segment: string): T => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+const verifyIdToken = async (idToken: string, nonce: string): Promise<IdTokenClaims> => {
+  const [headerPart, payloadPart, signaturePart] = idToken.split('.');
+  if (!headerPart || !payloadPart || !signaturePart) throw new OidcError('The ID token is malformed.');
+
+  const header = decodeSegment<{ alg: string; kid?: string }>(headerPart);
+  const options = VERIFY_OPTIONS[header.alg];
+  if (!options) throw new OidcError(`Unsupported ID token algorithm ${header.alg}.`);
+
+  const findKey = (jwks: JsonWebKeySet) => jwks.keys.find(key => (!header.kid || key.kid === header.kid) && key.use !== 'enc');
+  const jwk = findKey(await getJwks()) ?? findKey(await getJwks(true));
+  if (!jwk) throw new OidcError('The ID token was signed with an unknown key.');
+
+  const valid = crypto.verify(
+    options.hash,
+    Buffer.from(`${headerPart}.${payloadPart}`),
+    { key: crypto.createPublicKey({ key: jwk, format: 'jwk' }), padding: options.padding, dsaEncoding: options.dsaEncoding },
+    Buffer.from(signaturePart, 'base64url')
+  );
+  if (!valid) throw new OidcError('The ID token signature is invalid.');
+
+  const claims = decodeSegment<IdTokenClaims>(payloadPart);
+  const { issuer } = await getMetadata();
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== issuer) throw new OidcError('The ID token was issued by another provider.');
+  if (!audiences.includes(config.oidcClientId)) throw new OidcError('The ID token is meant for another client.');
+  // A minute of leeway for clock drift between the servers
+  if (claims.exp * 1000 < Date.now() - 60_000) throw new OidcError('The ID token has expired.');
+  if (claims.nonce !== nonce) throw new OidcError('The ID token does not belong to this login.');
+  return claims;
+};
+
+// Trades the code from the redirect for tokens and returns the verified identity
+export const completeLogin = async (code: string, login: LoginState): Promise<IdTokenClaims> => {
+  const { token_endpoint } = await getMetadata();
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.oidcRedirectUri,
+    client_id: config.oidcClientId,
+    code_verifier: login.verifier
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+  if (config.oidcClientSecret) {
+    const credentials = `${encodeURIComponent(config.oidcClientId)}:${encodeURIComponent(config.oidcClientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(token_endpoint, { method: 'POST', headers, body });
+  if (!tokens.id_token) throw new OidcError('The provider returned no ID token.');
+  return verifyIdToken(tokens.id_token, login.nonce);
+};
+
+// Where to send the browser to end the provider's session too, if it supports that
+export const getLogoutUrl = async (postLogoutRedirectUri: string): Promise<string | undefined> => {
+  const { end_session_endpoint } = await getMetadata();
+  if (!end_session_endpoint) return undefined;
+  const url = new URL(end_session_endpoint);
+  url.searchParams.set('client_id', config.oidcClientId);
+  url.searchParams.set('post_logout_redirect_uri', postLogoutRedirectUri);
+  return url.toString();
+};
@@ -0,0 +1,46 @@
+import { AskRequest, ExtractRequest, GeminiContent, TokenUsage } from '../types';
+import { config } from './config';
+import { buildContents, buildExtractionContents } from './prompt';
+
+// US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices at the time of writing; override or extend them with MODEL_PRICES
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 }
+};
+
+// Models without a known price (on-prem, mock) cost nothing
+const getPrice = (model: string): ModelPrice =>
+  config.modelPrices[model] ?? DEFAULT_PRICES[model] ?? { input: 0, output: 0 };
+
+export const inputCost = (model: string, tokens: number) => tokens * getPrice(model).input / 1_000_000;
+
+export const toUsage = (model: string, promptTokens: number, responseTokens: number, estimated: boolean): TokenUsage => {
+  const price = getPrice(model);
+  return {
+    promptTokens,
+    responseTokens,
+    estimated,
+    cost: (promptTokens * price.input + responseTokens * price.output) / 1_000_000
+  };
+};
+
+// Roughly four characters per token, the usual rule of thumb for English text
+export const estimateTextTokens = (text: string) => Math.ceil(text.length / 4);
+
+const contentsText = (contents: GeminiContent[]) =>
+  contents.flatMap(turn => turn.parts).map(part => part.text ?? '').join('');
+
+// Text length of the whole prompt as the text-only providers would send it
+export const estimateTokens = (request: AskRequest): number =>
+  estimateTextTokens(contentsText(buildContents(request, true)));
+
+export const estimateExtractionTokens = (request: ExtractRequest): number =>
+  estimateTextTokens(contentsText(buildExtractionContents(request, true)));
@@ -0,0 +1,167 @@
+import { AskRequest, CompareRequest, ExtractRequest, GeminiContent, GeminiPart, SummarizeRequest } from '../types';
+
+// Role and ground rules; a workspace can replace them with its own instruction
+export const DEFAULT_SYSTEM_INSTRUCTION = `You are a professional document assistant. 
+    Users will provide multiple documents (PDFs, Word files, text, CSV exports or scanned images),
+    or excerpts of them, each labelled with the document name. 
+    Analyze the contents of these files carefully. 
+    Answer questions based ONLY on the information in these files. 
+    If the information is not in the files, say you don't know based on the provided documents.
+    Be concise but thorough.`;
+
+// Always appended, whatever the workspace says, so answers stay parseable and cited
+const CITATION_INSTRUCTION = `Respond with JSON containing the answer text and a list of citations.
+    For every claim, add a citation with the exact document name, the 1-based page number
+    within that document (use 1 for documents without pages), and a short verbatim quote from that page supporting the claim.`;
+
+export const MAX_SYSTEM_INSTRUCTION_LENGTH = 4000;
+
+export const buildSystemInstruction = ({ systemInstruction }: AskRequest) =>
+  `${systemInstruction?.trim() || DEFAULT_SYSTEM_INSTRUCTION}\n    ${CITATION_INSTRUCTION}`;
+
+// Spelled out for providers without schema-constrained output
+export const JSON_FORMAT_INSTRUCTION = `Respond with a single JSON object and nothing else, shaped as
+    {"answer": string, "citations": [{"fileName": string, "page": number, "quote": string}]}`;
+
+// Documents, excerpts and the conversation summary, attached to the first user turn
+const buildContextParts = (
+  { files, chunks, summary }: Pick<AskRequest, 'files' | 'chunks' | 'summary'>,
+  textOnly: boolean
+): GeminiPart[] => {
+  const fileContent = (file: AskRequest['files'][number]): GeminiPart => {
+    if (file.base64 && !textOnly) {
+      return { inlineData: { mimeType: file.mimeType || 'application/pdf', data: file.base64 } };
+    }
+    if (file.pages?.some(page => page.trim())) {
+      return { text: file.pages.map((page, idx) => `[Page ${idx + 1}]\n${page}`).join('\n\n') };
+    }
+    return { text: '(This document has no extractable text and cannot be read by the selected model.)' };
+  };
+
+  // Prepare document parts: native formats as inline bytes, converted ones as text.
+  // Each is preceded by a label so the model can cite it by name.
+  const fileParts = files.flatMap(file => [
+    { text: `[Document: ${file.name}]` },
+    fileContent(file)
+  ]);
+
+  // Prepare retrieved excerpts with their provenance
+  const chunkParts = chunks.map(chunk => ({
+    text: `[Document: ${chunk.fileName} | Page: ${chunk.page}]\n${chunk.text}`
+  }));
+
+  const summaryParts = summary ? [{ text: `[Summary of the earlier conversation]\n${summary}` }] : [];
+
+  return [...fileParts, ...chunkParts, ...summaryParts];
+};
+
+// Builds role-separated turns: the recent history verbatim, then the current question.
+// `textOnly` is for providers that cannot read inline files: extracted text is used instead.
+export const buildContents = (request: AskRequest, textOnly = false): GeminiContent[] => {
+  const turns: GeminiContent[] = [];
+  const addTurn = (role: GeminiContent['role'], text: string) => {
+    // Roles must alternate; a question that never got an answer merges into the next one
+    const last = turns[turns.length - 1];
+    if (last?.role === role) last.parts.push({ text });
+    else turns.push({ role, parts: [{ text }] });
+  };
+  request.history.forEach(msg => addTurn(msg.role, msg.content));
+  addTurn('user', `Based on the provided documents, please answer the following question: ${request.question}`);
+
+  // The conversation must open with a user turn; that is where the documents go
+  const contextParts = buildContextParts(request, textOnly);
+  if (turns[0].role === 'user') {
+    turns[0] = { role: 'user', parts: [...contextParts, ...turns[0].parts] };
+  } else {
+    turns.unshift({ role: 'user', parts: contextParts });
+  }
+  return turns;
+};
+
+export const SUMMARY_INSTRUCTION = `You condense conversations between a user and a document assistant.
+    Write a short factual summary of the conversation below, merging it with the earlier summary if one is given.
+    Keep the questions asked, the answers given, names, figures, dates and the documents and pages they came from.
+    Respond with the summary text only.`;
+
+export const buildSummaryPrompt = ({ previousSummary, messages }: SummarizeRequest): string => [
+  ...(previousSummary ? [`Earlier summary:\n${previousSummary}`] : []),
+  'Conversation:',
+  ...messages.map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+].join('\n\n');
+
+// Always appended after the workspace's instruction, as for questions
+const EXTRACTION_INSTRUCTION = `Extract the requested fields from the document.
+    Respond with JSON containing a "values" object with one entry per field, keyed by the exact field name,
+    and a list of citations giving, for each value, the field name, the document name, the 1-based page number
+    and a short verbatim quote supporting it.
+    Use the field's type: numbers without currency symbols or thousands separators, dates as YYYY-MM-DD,
+    true or false for yes/no fields, and arrays of strings for lists.
+    Use null when the document does not contain a value. Never guess.`;
+
+export const buildExtractionSystemInstruction = ({ systemInstruction }: ExtractRequest) =>
+  `${systemInstruction?.trim() || DEFAULT_SYSTEM_INSTRUCTION}\n    ${EXTRACTION_INSTRUCTION}`;
+
+// Spelled out for providers without schema-constrained output
+export const EXTRACTION_FORMAT_INSTRUCTION = `Respond with a single JSON object and nothing else, shaped as
+    {"values": {"<field name>": value, ...}, "citations": [{"field": string, "fileName": string, "page": number, "quote": string}]}`;
+
+const TYPE_LABELS: Record<ExtractRequest['fields'][number]['type'], string> = {
+  string: 'text',
+  number: 'number',
+  date: 'date (YYYY-MM-DD)',
+  boolean: 'true/false',
+  list: 'list of strings'
+};
+
+export const buildExtractionPrompt = ({ fields, corrections }: ExtractRequest): string => [
+  'Fields to extract:',
+  ...fields.map(field =>
+    `- "${field.name}" (${TYPE_LABELS[field.type]}${field.required ? ', required' : ''})${field.description ? `: ${field.description}` : ''}`
+  ),
+  ...(corrections?.length
+    ? ['', 'Your previous answer had these problems. Read the document again and correct them:', ...corrections.map(c => `- ${c}`)]
+    : [])
+].join('\n');
+
+export const buildExtractionContents = (request: ExtractRequest, textOnly = false): GeminiContent[] => [{
+  role: 'user',
+  parts: [
+    ...buildContextParts({ files: request.files, chunks: [] }, textOnly),
+    { text: buildExtractionPrompt(request) }
+  ]
+}];
+
+// Changes beyond these limits are left out of the prompt rather than overflowing it
+export const MAX_COMPARE_HUNKS = 200;
+const MAX_HUNK_TEXT = 1500;
+
+export const COMPARE_INSTRUCTION = `You compare two revisions of the same document for a reviewer.
+    You receive the numbered passages that differ between them, found by a text diff.
+    Group the changes by the section, article or heading of the document they belong to, in document order.
+    For each group give a short title, a summary of what substantively changed (obligations, figures, dates,
+    scope, definitions) and the numbers of the changes it covers.
+    Mention changes that only fix wording, punctuation or numbering briefly, or group them under "Editorial changes".
+    Describe only what the passages show; do not speculate about intent.`;
+
+// Spelled out for providers without schema-constrained output
+export const COMPARE_FORMAT_INSTRUCTION = `Respond with a single JSON object and nothing else, shaped as
+    {"sections": [{"title": string, "summary": string, "changes": [number]}]}`;
+
+export const buildCompareSystemInstruction = ({ systemInstruction }: CompareRequest) =>
+  systemInstruction?.trim() ? `${systemInstruction.trim()}\n    ${COMPARE_INSTRUCTION}` : COMPARE_INSTRUCTION;
+
+const clip = (text: string) => text.length > MAX_HUNK_TEXT ? `${text.slice(0, MAX_HUNK_TEXT)}...` : text;
+
+const pageRef = (page?: number) => page ? `p. ${page}` : 'p. ?';
+
+export const buildComparePrompt = ({ baseName, revisedName, hunks }: CompareRequest): string => [
+  `Earlier revision: ${baseName}`,
+  `Later revision: ${revisedName}`,
+  '',
+  ...hunks.slice(0, MAX_COMPARE_HUNKS).map(hunk => [
+    `[Change ${hunk.id}] ${hunk.kind} (${pageRef(hunk.beforePage)} -> ${pageRef(hunk.afterPage)})`,
+    ...(hunk.before ? [`Before: ${clip(hunk.before)}`] : []),
+    ...(hunk.after ? [`After: ${clip(hunk.after)}`] : [])
+  ].join('\n')),
+  ...(hunks.length > MAX_COMPARE_HUNKS ? [`(${hunks.length - MAX_COMPARE_HUNKS} further changes are not shown.)`] : [])
+].join('\n\n');
@@ -0,0 +1,213 @@
+import { GoogleGenAI, GenerateContentResponse, GenerateContentResponseUsageMetadata, FinishReason } from "@google/genai";
+import {
+  AskRequest,
+  AskResponse,
+  AnswerStreamPiece,
+  CompareRequest,
+  CompareResponse,
+  CountTokensResponse,
+  ExtractRequest,
+  ExtractResponse,
+  SummarizeRequest,
+  SummarizeResponse,
+  TokenUsage
+} from '../../types';
+import { config } from '../config';
+import { ModelError } from '../errors';
+import {
+  SUMMARY_INSTRUCTION,
+  buildSystemInstruction,
+  buildContents,
+  buildSummaryPrompt,
+  buildExtractionContents,
+  buildExtractionSystemInstruction,
+  buildComparePrompt,
+  buildCompareSystemInstruction
+} from '../prompt';
+import { estimateExtractionTokens, estimateTextTokens, estimateTokens, inputCost, toUsage } from '../pricing';
+import {
+  ANSWER_SCHEMA,
+  COMPARE_SCHEMA,
+  buildExtractionSchema,
+  parseComparison,
+  parseExtraction,
+  parseStructuredAnswer,
+  readPartialAnswer
+} from '../structuredAnswer';
+import { ModelProvider, ProviderCallOptions } from './types';
+
+let client: GoogleGenAI | null = null;
+
+const getClient = () => {
+  if (!config.apiKey) {
+    throw new Error("API_KEY is not configured on the server.");
+  }
+  if (!client) client = new GoogleGenAI({ apiKey: config.apiKey });
+  return client;
+};
+
+const generationConfig = (request: AskRequest, signal?: AbortSignal) => ({
+  systemInstruction: buildSystemInstruction(request),
+  temperature: request.temperature ?? 0.2, // Lower temperature for more factual extraction
+  responseMimeType: 'application/json',
+  responseSchema: ANSWER_SCHEMA,
+  abortSignal: signal,
+});
+
+// Thinking tokens are billed as output, so they count towards the response
+const readUsage = (
+  model: string,
+  metadata: GenerateContentResponseUsageMetadata | undefined,
+  fallback: () => [number, number]
+): TokenUsage => {
+  if (metadata?.promptTokenCount === undefined) return toUsage(model, ...fallback(), true);
+  return toUsage(
+    model,
+    metadata.promptTokenCount,
+    (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+    false
+  );
+};
+
+const BLOCKING_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII
+];
+
+// Blocked prompts and answers arrive as successful responses without text
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new ModelError('safety', `The prompt was blocked (${blockReason}).`);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKING_FINISH_REASONS.includes(finishReason)) throw new ModelError('safety', `The answer was blocked (${finishReason}).`);
+};
+
+const ask = async (request: AskRequest, { model, signal }: ProviderCallOptions): Promise<AskResponse> => {
+  const response: GenerateContentResponse = await getClient().models.generateContent({
+    model,
+    contents: buildContents(request),
+    config: generationConfig(request, signal),
+  });
+  assertNotBlocked(response);
+
+  const result = parseStructuredAnswer(response.text || '');
+  return {
+    answer: result.answer || "I'm sorry, I couldn't generate a response.",
+    citations: result.citations,
+    usage: readUsage(model, response.usageMetadata, () => [estimateTokens(request), estimateTextTokens(response.text || '')])
+  };
+};
+
+async function* stream(request: AskRequest, { model, signal }: ProviderCallOptions): AsyncGenerator<AnswerStreamPiece> {
+  const response = await getClient().models.generateContentStream({
+    model,
+    contents: buildContents(request),
+    config: generationConfig(request, signal),
+  });
+
+  // The model streams raw JSON; forward only the newly decoded part of the answer field
+  let raw = '';
+  let sent = 0;
+  let metadata: GenerateContentResponseUsageMetadata | undefined;
+  for await (const chunk of response) {
+    // Counts are cumulative; the last chunk carries the totals
+    metadata = chunk.usageMetadata ?? metadata;
+    assertNotBlocked(chunk);
+    if (!chunk.text) continue;
+    raw += chunk.text;
+    const answer = readPartialAnswer(raw);
+    if (answer.length > sent) {
+      yield { type: 'chunk', text: answer.slice(sent) };
+      sent = answer.length;
+    }
+  }
+
+  const { answer, citations } = parseStructuredAnswer(raw);
+  if (sent === 0 && answer) {
+    yield { type: 'chunk', text: answer };
+  }
+  yield { type: 'citations', citations };
+  yield { type: 'usage', usage: readUsage(model, metadata, () => [estimateTokens(request), estimateTextTokens(raw)]) };
+}
+
+const countTokens = async (request: AskRequest, { model, signal }: ProviderCallOptions): Promise<CountTokensResponse> => {
+  const response = await getClient().models.countTokens({
+    model,
+    contents: buildContents(request),
+    config: { abortSignal: signal },
+  });
+  const totalTokens = response.totalTokens ?? 0;
+  return { totalTokens, estimated: false, cost: inputCost(model, totalTokens) };
+};
+
+const summarize = async (request: SummarizeRequest, { model, signal }: ProviderCallOptions): Promise<SummarizeResponse> => {
+  const response = await getClient().models.generateContent({
+    model,
+    contents: buildSummaryPrompt(request),
+    config: { systemInstruction: SUMMARY_INSTRUCTION, temperature: 0.2, abortSignal: signal },
+  });
+  const summary = (response.text || '').trim();
+  return {
+    summary,
+    usage: readUsage(model, response.usageMetadata, () => [
+      estimateTextTokens(SUMMARY_INSTRUCTION + buildSummaryPrompt(request)),
+      estimateTextTokens(summary)
+    ])
+  };
+};
+
+const extract = async (request: ExtractRequest, { model, signal }: ProviderCallOptions): Promise<ExtractResponse> => {
+  const response: GenerateContentResponse = await getClient().models.generateContent({
+    model,
+    contents: buildExtractionContents(request),
+    config: {
+      systemInstruction: buildExtractionSystemInstruction(request),
+      temperature: 0,
+      responseMimeType: 'application/json',
+      responseSchema: buildExtractionSchema(request),
+      abortSignal: signal,
+    },
+  });
+  assertNotBlocked(response);
+
+  return {
+    ...parseExtraction(response.text || ''),
+    usage: readUsage(model, response.usageMetadata, () => [estimateExtractionTokens(request), estimateTextTokens(response.text || '')])
+  };
+};
+
+const compare = async (request: CompareRequest, { model, signal }: ProviderCallOptions): Promise<CompareResponse> => {
+  const systemInstruction = buildCompareSystemInstruction(request);
+  const prompt = buildComparePrompt(request);
+  const response: GenerateContentResponse = await getClient().models.generateContent({
+    model,
+    contents: prompt,
+    config: {
+      systemInstruction,
+      temperature: 0.2,
+      responseMimeType: 'application/json',
+      responseSchema: COMPARE_SCHEMA,
+      abortSignal: signal,
+    },
+  });
+  assertNotBlocked(response);
+
+  return {
+    ...parseComparison(response.text || '', request.hunks.map(hunk => hunk.id)),
+    usage: readUsage(model, response.usageMetadata, () => [estimateTextTokens(systemInstruction + prompt), estimateTextTokens(response.text || '')])
+  };
+};
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: config.geminiModels,
+  ask,
+  stream,
+  countTokens,
+  summarize,
+  extract,
+  compare
+};
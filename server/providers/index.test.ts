@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// The config is read from the environment when it loads, so each case gets fresh modules
+const loadProviders = async (env: Record<string, string>) => {
+  vi.stubEnv('API_KEY', '');
+  vi.stubEnv('OPENAI_BASE_URL', '');
+  vi.stubEnv('OPENAI_MODELS', '');
+  vi.stubEnv('MODEL_PROVIDER', '');
+  Object.entries(env).forEach(([name, value]) => vi.stubEnv(name, value));
+  vi.resetModules();
+  return import('./index');
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('listProviders', () => {
+  it('offers only the mock when nothing else is configured', async () => {
+    const { listProviders } = await loadProviders({});
+    expect(listProviders()).toEqual([{ id: 'mock', label: 'Mock (offline)', models: ['mock-echo'] }]);
+  });
+
+  it('offers every configured provider, the mock last', async () => {
+    const { listProviders } = await loadProviders({
+      API_KEY: 'key',
+      OPENAI_BASE_URL: 'http://llm.internal/v1',
+      OPENAI_MODELS: 'llama-3, qwen'
+    });
+    expect(listProviders().map(({ id, models }) => [id, models])).toEqual([
+      ['gemini', ['gemini-3-flash-preview']],
+      ['openai', ['llama-3', 'qwen']],
+      ['mock', ['mock-echo']]
+    ]);
+  });
+
+  it('leaves out an OpenAI-compatible endpoint without models', async () => {
+    const { listProviders } = await loadProviders({ OPENAI_BASE_URL: 'http://llm.internal/v1' });
+    expect(listProviders().map(provider => provider.id)).toEqual(['mock']);
+  });
+});
+
+describe('resolveProvider', () => {
+  it('falls back to the configured default provider and its first model', async () => {
+    const { resolveProvider } = await loadProviders({
+      API_KEY: 'key',
+      OPENAI_BASE_URL: 'http://llm.internal/v1',
+      OPENAI_MODELS: 'llama-3,qwen',
+      MODEL_PROVIDER: 'openai'
+    });
+    const { provider, model } = resolveProvider();
+    expect([provider.id, model]).toEqual(['openai', 'llama-3']);
+  });
+
+  it('uses the first enabled provider when the default is not configured', async () => {
+    const { getDefaultProviderId, resolveProvider } = await loadProviders({ MODEL_PROVIDER: 'gemini' });
+    expect(getDefaultProviderId()).toBe('mock');
+    expect(resolveProvider().provider.id).toBe('mock');
+  });
+
+  it('honours a requested provider and model', async () => {
+    const { resolveProvider } = await loadProviders({ OPENAI_BASE_URL: 'http://llm.internal/v1', OPENAI_MODELS: 'llama-3,qwen' });
+    const { provider, model } = resolveProvider('openai', 'qwen');
+    expect([provider.id, model]).toEqual(['openai', 'qwen']);
+  });
+
+  it('rejects providers that are not enabled and models they do not offer', async () => {
+    const { resolveProvider, UnknownProviderError } = await loadProviders({});
+    expect(() => resolveProvider('gemini')).toThrow(UnknownProviderError);
+    expect(() => resolveProvider('gemini')).toThrow('Provider "gemini" is not available on this server.');
+    expect(() => resolveProvider('mock', 'gpt-4')).toThrow('Model "gpt-4" is not offered by Mock (offline).');
+  });
+});
@@ -0,0 +1,40 @@
+import { ProviderInfo } from '../../types';
+import { config } from '../config';
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { openaiCompatibleProvider } from './openaiCompatible';
+import { ModelProvider } from './types';
+
+// Only providers the server is configured for are offered to the client
+const getEnabledProviders = (): ModelProvider[] => [
+  ...(config.apiKey ? [geminiProvider] : []),
+  ...(config.openaiBaseUrl && config.openaiModels.length > 0 ? [openaiCompatibleProvider] : []),
+  mockProvider
+];
+
+export const listProviders = (): ProviderInfo[] =>
+  getEnabledProviders().map(({ id, label, models }) => ({ id, label, models }));
+
+export const getDefaultProviderId = () => {
+  const enabled = getEnabledProviders();
+  return (enabled.find(provider => provider.id === config.defaultProvider) ?? enabled[0]).id;
+};
+
+export class UnknownProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnknownProviderError';
+  }
+}
+
+// Resolves the provider/model pair for a request, falling back to the configured defaults
+export const resolveProvider = (providerId?: string, model?: string): { provider: ModelProvider; model: string } => {
+  const provider = getEnabledProviders().find(p => p.id === (providerId || getDefaultProviderId()));
+  if (!provider) throw new UnknownProviderError(`Provider "${providerId}" is not available on this server.`);
+  if (model && !provider.models.includes(model)) {
+    throw new UnknownProviderError(`Model "${model}" is not offered by ${provider.label}.`);
+  }
+  return { provider, model: model || provider.models[0] };
+};
+
+export type { ModelProvider, ProviderCallOptions } from './types';
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnswerStreamPiece, AskRequest } from '../../types';
+import { mockProvider } from './mock';
+
+const request: AskRequest = {
+  files: [{ id: 'f1', name: 'lease.pdf', mimeType: 'application/pdf', size: 10, base64: '' }],
+  chunks: [{ id: 'c1', fileId: 'f2', fileName: 'policy.pdf', page: 4, text: 'Insurance covers fire and flood damage.' }],
+  history: [],
+  question: 'Who pays for repairs?'
+};
+const options = { model: 'mock-echo' };
+
+const collect = async (pieces: AsyncGenerator<AnswerStreamPiece>) => {
+  const collected: AnswerStreamPiece[] = [];
+  for await (const piece of pieces) collected.push(piece);
+  return collected;
+};
+
+describe('mockProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('answers with what it received, citing every file and the top excerpts', async () => {
+    const response = await mockProvider.ask(request, options);
+    expect(response.answer).toContain('You asked: "Who pays for repairs?"');
+    expect(response.answer).toContain('Documents received (1): lease.pdf');
+    expect(response.citations).toEqual([
+      { fileName: 'lease.pdf', page: 1, quote: 'Mock citation for lease.pdf' },
+      { fileName: 'policy.pdf', page: 4, quote: 'Insurance covers fire and flood damage.' }
+    ]);
+    expect(response.usage?.estimated).toBe(true);
+  });
+
+  it('streams the same answer, then its citations and usage', async () => {
+    const expected = await mockProvider.ask(request, options);
+    const pieces = collect(mockProvider.stream(request, options));
+    await vi.runAllTimersAsync();
+    const collected = await pieces;
+
+    const text = collected.flatMap(piece => piece.type === 'chunk' ? [piece.text] : []).join('');
+    expect(text).toBe(expected.answer);
+    expect(collected.slice(-2)).toEqual([
+      { type: 'citations', citations: expected.citations },
+      { type: 'usage', usage: expected.usage }
+    ]);
+  });
+
+  it('fails with the abort reason when stopped mid-stream', async () => {
+    const controller = new AbortController();
+    const reason = new Error('Stopped');
+    const pieces = mockProvider.stream(request, { ...options, signal: controller.signal });
+    const first = pieces.next();
+    await vi.advanceTimersByTimeAsync(40);
+    expect((await first).value).toEqual({ type: 'chunk', text: '[Mock ' });
+
+    controller.abort(reason);
+    const second = expect(pieces.next()).rejects.toBe(reason);
+    await vi.advanceTimersByTimeAsync(40);
+    await second;
+  });
+
+  it('fills every extraction field with a value of its type', async () => {
+    const response = await mockProvider.extract({
+      files: request.files,
+      fields: [
+        { name: 'Rent', type: 'number', description: '', required: true },
+        { name: 'Start', type: 'date', description: '', required: false }
+      ]
+    }, options);
+    expect(response.values).toEqual({ Rent: 42, Start: '2025-01-31' });
+    expect(response.citations.map(citation => [citation.field, citation.fileName, citation.page])).toEqual([
+      ['Rent', 'lease.pdf', 1],
+      ['Start', 'lease.pdf', 1]
+    ]);
+  });
+});
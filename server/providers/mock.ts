@@ -0,0 +1,131 @@
+import {
+  AskRequest,
+  AskResponse,
+  AnswerStreamPiece,
+  CompareRequest,
+  CompareResponse,
+  CountTokensResponse,
+  ExtractRequest,
+  ExtractResponse,
+  ExtractionFieldType,
+  SummarizeRequest,
+  SummarizeResponse
+} from '../../types';
+import {
+  COMPARE_INSTRUCTION,
+  SUMMARY_INSTRUCTION,
+  buildComparePrompt,
+  buildSummaryPrompt
+} from '../prompt';
+import { estimateExtractionTokens, estimateTextTokens, estimateTokens, inputCost, toUsage } from '../pricing';
+import { ModelProvider, ProviderCallOptions } from './types';
+
+// Deterministic stand-in for a real model so the full request flow can be exercised without network access.
+const answerFor = ({ files, chunks, history, summary, question, temperature }: AskRequest): AskResponse => {
+  const names = files.map(file => file.name).join(', ') || 'none';
+  return {
+    answer: [
+      `[Mock model] You asked: "${question}"`,
+      `Documents received (${files.length}): ${names}`,
+      `Excerpts received: ${chunks.length}`,
+      `Previous messages in this conversation: ${history.length}${summary ? ' (plus a summary of earlier ones)' : ''}`,
+      `Temperature: ${temperature ?? 'default'}`,
+      `Select a real provider, or configure one on the server, to get real answers.`
+    ].join('\n'),
+    citations: [
+      ...files.map(file => ({
+        fileName: file.name,
+        page: 1,
+        quote: `Mock citation for ${file.name}`
+      })),
+      ...chunks.slice(0, 3).map(chunk => ({
+        fileName: chunk.fileName,
+        page: chunk.page,
+        quote: chunk.text.split(/\s+/).slice(0, 12).join(' ')
+      }))
+    ]
+  };
+};
+
+// Counts are always estimated, priced like any other model so the accounting flow can be tried offline
+const ask = async (request: AskRequest, { model }: ProviderCallOptions): Promise<AskResponse> => {
+  const result = answerFor(request);
+  return { ...result, usage: toUsage(model, estimateTokens(request), estimateTextTokens(result.answer), true) };
+};
+
+// Emits the answer word by word with a small delay so streaming UI can be exercised offline
+async function* stream(request: AskRequest, options: ProviderCallOptions): AsyncGenerator<AnswerStreamPiece> {
+  const { signal } = options;
+  const { answer, citations, usage } = await ask(request, options);
+  for (const token of answer.split(/(?<=\s)/)) {
+    await new Promise(resolve => setTimeout(resolve, 40));
+    // Fails like the real adapters do, so a timeout reaches the route as an error rather than a short answer
+    signal?.throwIfAborted();
+    yield { type: 'chunk', text: token };
+  }
+  yield { type: 'citations', citations };
+  if (usage) yield { type: 'usage', usage };
+}
+
+const countTokens = async (request: AskRequest, { model }: ProviderCallOptions): Promise<CountTokensResponse> => {
+  const totalTokens = estimateTokens(request);
+  return { totalTokens, estimated: true, cost: inputCost(model, totalTokens) };
+};
+
+// Keeps the opening words of each question so condensed threads stay recognisable offline
+const summarize = async (request: SummarizeRequest, { model }: ProviderCallOptions): Promise<SummarizeResponse> => {
+  const summary = [
+    ...(request.previousSummary ? [request.previousSummary] : []),
+    ...request.messages
+      .filter(msg => msg.role === 'user')
+      .map(msg => `- Asked: ${msg.content.split(/\s+/).slice(0, 12).join(' ')}`)
+  ].join('\n');
+  const promptTokens = estimateTextTokens(SUMMARY_INSTRUCTION + buildSummaryPrompt(request));
+  return { summary, usage: toUsage(model, promptTokens, estimateTextTokens(summary), true) };
+};
+
+const MOCK_VALUES: Record<ExtractionFieldType, unknown> = {
+  string: 'Mock value',
+  number: 42,
+  date: '2025-01-31',
+  boolean: true,
+  list: ['First mock item', 'Second mock item']
+};
+
+// Fills every field with a placeholder of the right type and cites page 1 of the document
+const extract = async (request: ExtractRequest, { model }: ProviderCallOptions): Promise<ExtractResponse> => {
+  const fileName = request.files[0]?.name ?? 'document';
+  const values = Object.fromEntries(request.fields.map(field => [field.name, MOCK_VALUES[field.type]]));
+  const citations = request.fields.map(field => ({ field: field.name, fileName, page: 1, quote: `Mock citation for ${field.name}` }));
+  const output = JSON.stringify({ values, citations });
+  return { values, citations, usage: toUsage(model, estimateExtractionTokens(request), estimateTextTokens(output), true) };
+};
+
+// One section per kind of change so the compare view can be tried offline
+const compare = async (request: CompareRequest, { model }: ProviderCallOptions): Promise<CompareResponse> => {
+  const kinds = [
+    { kind: 'changed', title: 'Changed passages' },
+    { kind: 'added', title: 'Added passages' },
+    { kind: 'removed', title: 'Removed passages' }
+  ] as const;
+  const sections = kinds.flatMap(({ kind, title }) => {
+    const hunks = request.hunks.filter(hunk => hunk.kind === kind);
+    return hunks.length > 0
+      ? [{ title, summary: `[Mock model] ${hunks.length} passage(s) ${kind} in ${request.revisedName}.`, hunkIds: hunks.map(hunk => hunk.id) }]
+      : [];
+  });
+  const promptTokens = estimateTextTokens(COMPARE_INSTRUCTION + buildComparePrompt(request));
+  return { sections, usage: toUsage(model, promptTokens, estimateTextTokens(JSON.stringify(sections)), true) };
+};
+
+export const mockProvider: ModelProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  models: ['mock-echo'],
+  ask,
+  stream,
+  countTokens,
+  summarize,
+  extract,
+  compare
+};
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnswerStreamPiece, AskRequest } from '../../types';
+
+const request: AskRequest = {
+  files: [{ id: 'f1', name: 'lease.pdf', mimeType: 'application/pdf', size: 10, base64: '', pages: ['The tenant pays for repairs.'] }],
+  chunks: [],
+  history: [],
+  question: 'Who pays for repairs?'
+};
+const options = { model: 'llama-3' };
+const fetchMock = vi.fn<typeof fetch>();
+
+const completion = (content: string, extra: Record<string, unknown> = {}) =>
+  new Response(JSON.stringify({ choices: [{ message: { content }, finish_reason: 'stop' }], ...extra }));
+
+const eventStream = (events: unknown[]) =>
+  new Response(events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n');
+
+let provider: typeof import('./openaiCompatible')['openaiCompatibleProvider'];
+
+beforeEach(async () => {
+  vi.stubEnv('OPENAI_BASE_URL', 'http://llm.internal/v1/');
+  vi.stubEnv('OPENAI_API_KEY', 'secret');
+  vi.stubEnv('OPENAI_MODELS', 'llama-3');
+  vi.stubEnv('MODEL_PRICES', 'llama-3=1/2');
+  vi.stubGlobal('fetch', fetchMock);
+  fetchMock.mockReset();
+  vi.resetModules();
+  ({ openaiCompatibleProvider: provider } = await import('./openaiCompatible'));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('openaiCompatibleProvider', () => {
+  it('sends documents as text to the chat completions endpoint', async () => {
+    fetchMock.mockResolvedValue(completion('{"answer":"The tenant.","citations":[]}'));
+    await provider.ask(request, options);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://llm.internal/v1/chat/completions');
+    expect(init?.headers).toMatchObject({ Authorization: 'Bearer secret' });
+    const body = JSON.parse(String(init?.body));
+    expect(body).toMatchObject({ model: 'llama-3', response_format: { type: 'json_object' }, stream: false });
+    expect(body.messages[0].role).toBe('system');
+    expect(body.messages.at(-1).role).toBe('user');
+    expect(JSON.stringify(body.messages)).toContain('The tenant pays for repairs.');
+  });
+
+  it('maps the JSON answer, its citations and the reported usage', async () => {
+    fetchMock.mockResolvedValue(completion(
+      '{"answer":"The tenant.","citations":[{"fileName":"lease.pdf","page":"2","quote":"The tenant pays"},{"quote":"no file"}]}',
+      { usage: { prompt_tokens: 1000, completion_tokens: 500 } }
+    ));
+    expect(await provider.ask(request, options)).toEqual({
+      answer: 'The tenant.',
+      citations: [{ fileName: 'lease.pdf', page: 2, quote: 'The tenant pays' }],
+      usage: { promptTokens: 1000, responseTokens: 500, estimated: false, cost: 0.002 }
+    });
+  });
+
+  it('treats a reply that is not JSON as the answer and estimates missing usage', async () => {
+    fetchMock.mockResolvedValue(completion('Plain text reply'));
+    const response = await provider.ask(request, options);
+    expect(response.answer).toBe('Plain text reply');
+    expect(response.citations).toEqual([]);
+    expect(response.usage).toMatchObject({ estimated: true, responseTokens: 4 });
+  });
+
+  it('reports a content filter stop as a safety error', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ choices: [{ message: { content: '' }, finish_reason: 'content_filter' }] })));
+    await expect(provider.ask(request, options)).rejects.toMatchObject({ name: 'ModelError', kind: 'safety' });
+  });
+
+  it('classifies an error status', async () => {
+    fetchMock.mockResolvedValue(new Response('Too many requests', { status: 429 }));
+    await expect(provider.ask(request, options)).rejects.toMatchObject({ name: 'ModelError', kind: 'quota' });
+  });
+
+  it('streams the answer text out of the JSON as it arrives', async () => {
+    const raw = '{"answer":"The tenant pays.","citations":[{"fileName":"lease.pdf","page":1,"quote":"pays"}]}';
+    fetchMock.mockResolvedValue(eventStream([
+      ...raw.match(/.{1,12}/g)!.map(content => ({ choices: [{ delta: { content } }] })),
+      { choices: [], usage: { prompt_tokens: 10, completion_tokens: 20 } }
+    ]));
+    const pieces: AnswerStreamPiece[] = [];
+    for await (const piece of provider.stream(request, options)) pieces.push(piece);
+
+    expect(pieces.flatMap(piece => piece.type === 'chunk' ? [piece.text] : []).join('')).toBe('The tenant pays.');
+    expect(pieces.slice(-2)).toEqual([
+      { type: 'citations', citations: [{ fileName: 'lease.pdf', page: 1, quote: 'pays' }] },
+      { type: 'usage', usage: { promptTokens: 10, responseTokens: 20, estimated: false, cost: 0.00005 } }
+    ]);
+  });
+
+  it('maps extracted values and keeps only citations naming a field', async () => {
+    fetchMock.mockResolvedValue(completion(JSON.stringify({
+      values: { Rent: '900' },
+      citations: [{ field: 'Rent', fileName: 'lease.pdf', page: 3, quote: 'EUR 900' }, { fileName: 'lease.pdf', quote: 'no field' }]
+    })));
+    const response = await provider.extract({
+      files: request.files,
+      fields: [{ name: 'Rent', type: 'number', description: '', required: true }]
+    }, options);
+    expect(response.values).toEqual({ Rent: '900' });
+    expect(response.citations).toEqual([{ field: 'Rent', fileName: 'lease.pdf', page: 3, quote: 'EUR 900' }]);
+    expect(JSON.parse(String(fetchMock.mock.calls[0][1]?.body)).temperature).toBe(0);
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  AskRequest,
+  AskResponse,
+  AnswerStreamPiece,
+  CompareRequest,
+  CompareResponse,
+  CountTokensResponse,
+  ExtractRequest,
+  ExtractResponse,
+  GeminiContent,
+  SummarizeRequest,
+  SummarizeResponse,
+  TokenUsage
+} from '../../types';
+import { config } from '../config';
+import { kindForStatus, ModelError } from '../errors';
+import {
+  COMPARE_FORMAT_INSTRUCTION,
+  EXTRACTION_FORMAT_INSTRUCTION,
+  JSON_FORMAT_INSTRUCTION,
+  SUMMARY_INSTRUCTION,
+  buildSystemInstruction,
+  buildContents,
+  buildSummaryPrompt,
+  buildExtractionContents,
+  buildExtractionSystemInstruction,
+  buildComparePrompt,
+  buildCompareSystemInstruction
+} from '../prompt';
+import { estimateExtractionTokens, estimateTextTokens, estimateTokens, inputCost, toUsage } from '../pricing';
+import { parseComparison, parseExtraction, parseStructuredAnswer, readPartialAnswer } from '../structuredAnswer';
+import { ModelProvider, ProviderCallOptions } from './types';
+
+// Talks to any server exposing the OpenAI chat completions API (vLLM, llama.cpp, Ollama, LocalAI...).
+// Such servers cannot read PDFs or images, so documents are sent as their extracted text.
+interface CompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const toMessages = (turns: GeminiContent[]): CompletionMessage[] =>
+  turns.map((turn): CompletionMessage => ({
+    role: turn.role === 'model' ? 'assistant' : 'user',
+    content: turn.parts.map(part => part.text ?? '').join('\n\n')
+  }));
+
+const buildMessages = (request: AskRequest): CompletionMessage[] => [
+  { role: 'system', content: `${buildSystemInstruction(request)}\n    ${JSON_FORMAT_INSTRUCTION}` },
+  ...toMessages(buildContents(request, true))
+];
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+// Not every compatible server reports usage; fall back to a length-based estimate
+const readUsage = (model: string, usage: CompletionUsage | undefined, fallback: () => [number, number]): TokenUsage =>
+  usage?.prompt_tokens === undefined
+    ? toUsage(model, ...fallback(), true)
+    : toUsage(model, usage.prompt_tokens, usage.completion_tokens ?? 0, false);
+
+const CONTENT_FILTER_ERROR = 'The answer was withheld by the content filter.';
+
+const callCompletions = async (
+  messages: CompletionMessage[],
+  { model, signal }: ProviderCallOptions,
+  { streaming = false, json = true, temperature = 0.2 }: { streaming?: boolean; json?: boolean; temperature?: number } = {}
+) => {
+  const response = await fetch(`${config.openaiBaseUrl.replace(/\/$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.openaiApiKey ? { Authorization: `Bearer ${config.openaiApiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+      temperature,
+      ...(json ? { response_format: { type: 'json_object' } } : {}),
+      stream: streaming,
+      // Asks for a final chunk carrying the token counts
+      ...(streaming ? { stream_options: { include_usage: true } } : {})
+    }),
+    signal
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new ModelError(
+      kindForStatus(response.status, detail),
+      `OpenAI-compatible endpoint responded with status ${response.status}: ${detail.slice(0, 200)}`
+    );
+  }
+  return response;
+};
+
+const ask = async (request: AskRequest, options: ProviderCallOptions): Promise<AskResponse> => {
+  const response = await callCompletions(buildMessages(request), options, { temperature: request.temperature });
+  const data = await response.json();
+  if (data.choices?.[0]?.finish_reason === 'content_filter') throw new ModelError('safety', CONTENT_FILTER_ERROR);
+  const content: string = data.choices?.[0]?.message?.content ?? '';
+  const result = parseStructuredAnswer(content);
+  return {
+    answer: result.answer || "I'm sorry, I couldn't generate a response.",
+    citations: result.citations,
+    usage: readUsage(options.model, data.usage, () => [estimateTokens(request), estimateTextTokens(content)])
+  };
+};
+
+async function* stream(request: AskRequest, options: ProviderCallOptions): AsyncGenerator<AnswerStreamPiece> {
+  const response = await callCompletions(buildMessages(request), options, { streaming: true, temperature: request.temperature });
+  if (!response.body) throw new Error('OpenAI-compatible endpoint returned no stream');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let raw = '';
+  let sent = 0;
+  let usage: CompletionUsage | undefined;
+
+  // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      const parsed = JSON.parse(data);
+      usage = parsed.usage ?? usage;
+      if (parsed.choices?.[0]?.finish_reason === 'content_filter') throw new ModelError('safety', CONTENT_FILTER_ERROR);
+      raw += parsed.choices?.[0]?.delta?.content ?? '';
+      const answer = readPartialAnswer(raw);
+      if (answer.length > sent) {
+        yield { type: 'chunk', text: answer.slice(sent) };
+        sent = answer.length;
+      }
+    }
+  }
+
+  const { answer, citations } = parseStructuredAnswer(raw);
+  if (sent === 0 && answer) {
+    yield { type: 'chunk', text: answer };
+  }
+  yield { type: 'citations', citations };
+  yield { type: 'usage', usage: readUsage(options.model, usage, () => [estimateTokens(request), estimateTextTokens(raw)]) };
+}
+
+// The chat completions API has no token counting endpoint
+const countTokens = async (request: AskRequest, { model }: ProviderCallOptions): Promise<CountTokensResponse> => {
+  const totalTokens = estimateTokens(request);
+  return { totalTokens, estimated: true, cost: inputCost(model, totalTokens) };
+};
+
+const summarize = async (request: SummarizeRequest, options: ProviderCallOptions): Promise<SummarizeResponse> => {
+  const prompt = buildSummaryPrompt(request);
+  const response = await callCompletions([
+    { role: 'system', content: SUMMARY_INSTRUCTION },
+    { role: 'user', content: prompt }
+  ], options, { json: false });
+  const data = await response.json();
+  const summary: string = (data.choices?.[0]?.message?.content ?? '').trim();
+  return {
+    summary,
+    usage: readUsage(options.model, data.usage, () => [estimateTextTokens(SUMMARY_INSTRUCTION + prompt), estimateTextTokens(summary)])
+  };
+};
+
+const extract = async (request: ExtractRequest, options: ProviderCallOptions): Promise<ExtractResponse> => {
+  const response = await callCompletions([
+    { role: 'system', content: `${buildExtractionSystemInstruction(request)}\n    ${EXTRACTION_FORMAT_INSTRUCTION}` },
+    ...toMessages(buildExtractionContents(request, true))
+  ], options, { temperature: 0 });
+  const data = await response.json();
+  if (data.choices?.[0]?.finish_reason === 'content_filter') throw new ModelError('safety', CONTENT_FILTER_ERROR);
+  const content: string = data.choices?.[0]?.message?.content ?? '';
+  return {
+    ...parseExtraction(content),
+    usage: readUsage(options.model, data.usage, () => [estimateExtractionTokens(request), estimateTextTokens(content)])
+  };
+};
+
+const compare = async (request: CompareRequest, options: ProviderCallOptions): Promise<CompareResponse> => {
+  const systemInstruction = `${buildCompareSystemInstruction(request)}\n    ${COMPARE_FORMAT_INSTRUCTION}`;
+  const prompt = buildComparePrompt(request);
+  const response = await callCompletions([
+    { role: 'system', content: systemInstruction },
+    { role: 'user', content: prompt }
+  ], options);
+  const data = await response.json();
+  if (data.choices?.[0]?.finish_reason === 'content_filter') throw new ModelError('safety', CONTENT_FILTER_ERROR);
+  const content: string = data.choices?.[0]?.message?.content ?? '';
+  return {
+    ...parseComparison(content, request.hunks.map(hunk => hunk.id)),
+    usage: readUsage(options.model, data.usage, () => [estimateTextTokens(systemInstruction + prompt), estimateTextTokens(content)])
+  };
+};
+
+export const openaiCompatibleProvider: ModelProvider = {
+  id: 'openai',
+  label: 'Local (OpenAI-compatible)',
+  models: config.openaiModels,
+  ask,
+  stream,
+  countTokens,
+  summarize,
+  extract,
+  compare
+};
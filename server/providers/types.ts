@@ -0,0 +1,33 @@
+import {
+  AskRequest,
+  AskResponse,
+  AnswerStreamPiece,
+  CompareRequest,
+  CompareResponse,
+  CountTokensResponse,
+  ExtractRequest,
+  ExtractResponse,
+  SummarizeRequest,
+  SummarizeResponse
+} from '../../types';
+
+export interface ProviderCallOptions {
+  model: string;
+  signal?: AbortSignal;
+}
+
+// Every model backend (hosted, on-prem or mock) implements this contract
+export interface ModelProvider {
+  id: string;
+  label: string;
+  models: string[];
+  ask(request: AskRequest, options: ProviderCallOptions): Promise<AskResponse>;
+  stream(request: AskRequest, options: ProviderCallOptions): AsyncGenerator<AnswerStreamPiece>;
+  countTokens(request: AskRequest, options: ProviderCallOptions): Promise<CountTokensResponse>;
+  // Folds older messages into a plain-text rolling summary
+  summarize(request: SummarizeRequest, options: ProviderCallOptions): Promise<SummarizeResponse>;
+  // Reads schema fields out of a document as JSON
+  extract(request: ExtractRequest, options: ProviderCallOptions): Promise<ExtractResponse>;
+  // Summarizes the differences a local diff found between two revisions
+  compare(request: CompareRequest, options: ProviderCallOptions): Promise<CompareResponse>;
+}
@@ -0,0 +1,59 @@
+import crypto from 'node:crypto';
+import type express from 'express';
+import { config } from './config';
+
+// Random per process when SESSION_SECRET is not set, which signs everyone out on restart
+const secret = config.sessionSecret || crypto.randomBytes(32).toString('hex');
+
+const sign = (value: string) => crypto.createHmac('sha256', secret).update(value).digest('base64url');
+
+// A value that is not valid percent-encoding is dropped, as if the cookie were not there
+const decodeCookie = (value: string): string | null => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+};
+
+const readCookies = (req: express.Request): Record<string, string> =>
+  Object.fromEntries(
+    (req.headers.cookie ?? '')
+      .split(';')
+      .map(part => part.trim().split('='))
+      .filter(([name, value]) => name && value !== undefined)
+      .flatMap(([name, ...rest]) => {
+        const value = decodeCookie(rest.join('='));
+        return value === null ? [] : [[name, value]];
+      })
+  );
+
+// Cookies hold JSON signed with the server secret; they expire on their own via `exp`
+export const setSignedCookie = (res: express.Response, req: express.Request, name: string, payload: object, maxAgeMs: number) => {
+  const body = Buffer.from(JSON.stringify({ ...payload, exp: Date.now() + maxAgeMs })).toString('base64url');
+  res.cookie(name, `${body}.${sign(body)}`, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: req.secure,
+    maxAge: maxAgeMs,
+    path: '/'
+  });
+};
+
+export const readSignedCookie = <T>(req: express.Request, name: string): T | null => {
+  const [body, signature] = (readCookies(req)[name] ?? '').split('.');
+  if (!body || !signature) return null;
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as T & { exp: number };
+    return payload.exp > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearCookie = (res: express.Response, name: string) => {
+  res.clearCookie(name, { path: '/' });
+};
@@ -0,0 +1,196 @@
+import { Type } from "@google/genai";
+import { AskResponse, ChangeSection, Citation, CompareResponse, ExtractRequest, ExtractResponse, ExtractionFieldType } from '../types';
+
+// Schema for Gemini structured output. `answer` is ordered first so it can be streamed
+// to the client before the citations list is complete.
+export const ANSWER_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    answer: {
+      type: Type.STRING,
+      description: 'The answer to the question, based only on the provided documents.'
+    },
+    citations: {
+      type: Type.ARRAY,
+      description: 'Every source passage the answer relies on.',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          fileName: { type: Type.STRING, description: 'Exact name of the document that was cited.' },
+          page: { type: Type.INTEGER, description: '1-based page number within that document.' },
+          quote: { type: Type.STRING, description: 'Short verbatim snippet from the document supporting the claim.' }
+        },
+        required: ['fileName', 'quote'],
+        propertyOrdering: ['fileName', 'page', 'quote']
+      }
+    }
+  },
+  required: ['answer', 'citations'],
+  propertyOrdering: ['answer', 'citations']
+};
+
+const CITATIONS_ITEM_SCHEMA = ANSWER_SCHEMA.properties.citations.items;
+
+const FIELD_SCHEMAS: Record<ExtractionFieldType, object> = {
+  string: { type: Type.STRING },
+  number: { type: Type.NUMBER },
+  // Formatted as YYYY-MM-DD per the extraction instruction
+  date: { type: Type.STRING },
+  boolean: { type: Type.BOOLEAN },
+  list: { type: Type.ARRAY, items: { type: Type.STRING } }
+};
+
+// One property per field, keyed by the field's name; optional fields may be null when the document is silent
+export const buildExtractionSchema = ({ fields }: ExtractRequest) => ({
+  type: Type.OBJECT,
+  properties: {
+    values: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(fields.map(field => [field.name, {
+        ...FIELD_SCHEMAS[field.type],
+        description: field.description || undefined,
+        nullable: !field.required
+      }])),
+      required: fields.filter(field => field.required).map(field => field.name),
+      propertyOrdering: fields.map(field => field.name)
+    },
+    citations: {
+      type: Type.ARRAY,
+      description: 'Where each value was found.',
+      items: {
+        ...CITATIONS_ITEM_SCHEMA,
+        properties: {
+          field: { type: Type.STRING, description: 'Name of the field the citation supports.' },
+          ...CITATIONS_ITEM_SCHEMA.properties
+        },
+        required: ['field', ...CITATIONS_ITEM_SCHEMA.required],
+        propertyOrdering: ['field', ...CITATIONS_ITEM_SCHEMA.propertyOrdering]
+      }
+    }
+  },
+  required: ['values', 'citations'],
+  propertyOrdering: ['values', 'citations']
+});
+
+export const COMPARE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    sections: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING, description: 'Section, article or heading the changes belong to.' },
+          summary: { type: Type.STRING, description: 'What substantively changed in this section.' },
+          changes: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: 'Numbers of the changes covered.' }
+        },
+        required: ['title', 'summary', 'changes'],
+        propertyOrdering: ['title', 'summary', 'changes']
+      }
+    }
+  },
+  required: ['sections']
+};
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// Decodes as much of the `answer` string as has arrived in a partial JSON payload
+export const readPartialAnswer = (raw: string): string => {
+  const match = /"answer"\s*:\s*"/.exec(raw);
+  if (!match) return '';
+
+  let result = '';
+  for (let i = match.index + match[0].length; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '"') break;
+    if (char !== '\\') {
+      result += char;
+      continue;
+    }
+
+    const next = raw[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = raw.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    result += ESCAPES[next] ?? next;
+    i++;
+  }
+  return result;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toCitation = (value: unknown): Citation | null => {
+  if (!isRecord(value) || typeof value.fileName !== 'string' || typeof value.quote !== 'string') return null;
+  const page = Number(value.page);
+  return {
+    fileName: value.fileName,
+    page: Number.isInteger(page) && page > 0 ? page : undefined,
+    quote: value.quote
+  };
+};
+
+// Falls back to treating the whole payload as the answer if the model did not return valid JSON
+export const parseStructuredAnswer = (raw: string): AskResponse => {
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      answer: typeof parsed.answer === 'string' ? parsed.answer : '',
+      citations: Array.isArray(parsed.citations)
+        ? parsed.citations.map(toCitation).filter((c: Citation | null): c is Citation => c !== null)
+        : []
+    };
+  } catch {
+    return { answer: raw, citations: [] };
+  }
+};
+
+// Invalid JSON yields no values at all, which the client's validation reports like any other miss
+export const parseExtraction = (raw: string): Omit<ExtractResponse, 'usage'> => {
+  try {
+    const parsed = JSON.parse(raw);
+    const values = isRecord(parsed?.values) ? parsed.values : {};
+    const citations = Array.isArray(parsed?.citations)
+      ? parsed.citations.flatMap((value: unknown) => {
+          const citation = toCitation(value);
+          return citation && isRecord(value) && typeof value.field === 'string' ? [{ ...citation, field: value.field }] : [];
+        })
+      : [];
+    return { values, citations };
+  } catch {
+    return { values: {}, citations: [] };
+  }
+};
+
+interface SectionReply {
+  title: string;
+  summary: string;
+  changes?: unknown;
+}
+
+const isSectionReply = (value: unknown): value is SectionReply =>
+  isRecord(value) && typeof value.title === 'string' && typeof value.summary === 'string';
+
+// Change numbers the model made up are dropped; an unparseable reply becomes a single section
+export const parseComparison = (raw: string, hunkIds: number[]): Omit<CompareResponse, 'usage'> => {
+  const known = new Set(hunkIds);
+  try {
+    const parsed = JSON.parse(raw);
+    const sections: ChangeSection[] = (Array.isArray(parsed?.sections) ? parsed.sections : [])
+      .filter(isSectionReply)
+      .map((section: SectionReply) => ({
+        title: section.title,
+        summary: section.summary,
+        hunkIds: Array.isArray(section.changes) ? section.changes.map(Number).filter(id => known.has(id)) : []
+      }));
+    return { sections };
+  } catch {
+    return { sections: raw.trim() ? [{ title: 'Summary of changes', summary: raw.trim(), hunkIds: [] }] : [] };
+  }
+};
@@ -0,0 +1,55 @@
+import { AuditEntry, AuditQuery, AuditQueryResponse, DevLoginRequest, Role, SessionResponse } from "../types";
+import { errorFromResponse } from "./errors";
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  curator: 'Curator',
+  admin: 'Admin'
+};
+
+export const fetchSession = async (): Promise<SessionResponse> => {
+  const response = await fetch('/api/auth/session');
+  if (!response.ok) throw await errorFromResponse(response);
+  return response.json();
+};
+
+// The OIDC sign-in is a full-page redirect through the identity provider
+export const startLogin = () => {
+  window.location.assign('/api/auth/login');
+};
+
+export const devLogin = async (request: DevLoginRequest): Promise<SessionResponse> => {
+  const response = await fetch('/api/auth/dev-login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+  if (!response.ok) throw await errorFromResponse(response);
+  return response.json();
+};
+
+// Resolves with the identity provider's logout page when it has one
+export const logout = async (): Promise<string | undefined> => {
+  const response = await fetch('/api/auth/logout', { method: 'POST' });
+  const body: { redirectUrl?: string } = await response.json().catch(() => ({}));
+  return body.redirectUrl;
+};
+
+const toSearchParams = (query: AuditQuery): URLSearchParams =>
+  new URLSearchParams(
+    Object.entries(query)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => [key, String(value)])
+  );
+
+export const fetchAuditLog = async (query: AuditQuery, signal?: AbortSignal): Promise<AuditQueryResponse> => {
+  const response = await fetch(`/api/audit?${toSearchParams(query)}`, { signal });
+  if (!response.ok) throw await errorFromResponse(response);
+  return response.json();
+};
+
+// A plain link, so the browser downloads the file with the server's name for it
+export const auditExportUrl = (query: AuditQuery, format: 'csv' | 'jsonl') =>
+  `/api/audit/export?${toSearchParams({ ...query, limit: undefined, offset: undefined })}&format=${format}`;
+
+export const describeDocuments = (entry: AuditEntry) => entry.documents.map(doc => doc.name).join(', ');
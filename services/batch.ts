@@ -0,0 +1,166 @@
+import { BatchCell, BatchRun, Citation, FileData, TokenUsage } from "../types";
+import { askQuestionAboutFiles, AskOptions } from "./geminiService";
+import { toAskError } from "./errors";
+import { downloadBlob } from "./export";
+import { csvCell } from "../csv";
+import { buildXlsx } from "./xlsx";
+import { documentIdOf } from "./versions";
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 6;
+export const MAX_BATCH_QUESTIONS = 100;
+
+// Leading list markers: "1.", "2)", "-", "*", "•"
+const LIST_MARKER = /^\s*(?:\d+[.)]|[-*•])\s+/;
+
+// First field of a CSV line, honouring quotes, so a spreadsheet column of questions can be uploaded as is
+const firstCsvField = (line: string): string => {
+  if (!line.startsWith('"')) return line.split(',')[0];
+  let field = '';
+  for (let i = 1; i < line.length; i++) {
+    if (line[i] === '"' && line[i + 1] === '"') {
+      field += '"';
+      i++;
+    } else if (line[i] === '"') {
+      break;
+    } else {
+      field += line[i];
+    }
+  }
+  return field;
+};
+
+// One question per line; list markers, blank lines and repeats are dropped
+export const parseQuestionList = (text: string, isCsv = false): string[] => {
+  const questions = text
+    .split(/\r?\n/)
+    .map(line => (isCsv ? firstCsvField(line) : line).replace(LIST_MARKER, '').trim())
+    .filter(Boolean);
+  return [...new Set(questions)];
+};
+
+export const createBatchRun = (name: string, questions: string[], fileIds: string[]): BatchRun => ({
+  id: crypto.randomUUID(),
+  name,
+  questions,
+  fileIds,
+  cells: fileIds.flatMap(fileId => questions.map((_question, questionIndex) => ({
+    fileId,
+    questionIndex,
+    status: 'pending' as const
+  }))),
+  createdAt: Date.now()
+});
+
+// The version in use of a run's document. Older runs keyed cells by file id, which matches a first version.
+export const resolveBatchFile = (files: FileData[], id: string): FileData | undefined =>
+  files.find(file => documentIdOf(file) === id) ?? files.find(file => file.id === id);
+
+export const getBatchCell = (run: BatchRun, fileId: string, questionIndex: number): BatchCell | undefined =>
+  run.cells.find(cell => cell.fileId === fileId && cell.questionIndex === questionIndex);
+
+export const updateBatchCell = (run: BatchRun, cell: BatchCell): BatchRun => ({
+  ...run,
+  cells: run.cells.map(c => c.fileId === cell.fileId && c.questionIndex === cell.questionIndex ? cell : c)
+});
+
+export const batchProgress = (run: BatchRun) => ({
+  total: run.cells.length,
+  done: run.cells.filter(cell => cell.status === 'done').length,
+  failed: run.cells.filter(cell => cell.status === 'failed').length
+});
+
+// Runs `work` over the items with at most `concurrency` in flight; no new item starts once `signal` aborts
+export const runConcurrently = async <T>(
+  items: T[],
+  concurrency: number,
+  signal: AbortSignal | undefined,
+  work: (item: T) => Promise<void>
+): Promise<void> => {
+  const queue = [...items];
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      await work(queue.shift()!);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+};
+
+export interface BatchRunOptions extends AskOptions {
+  concurrency?: number;
+  onStart?: (cell: BatchCell) => void;
+  onCell: (cell: BatchCell, usage?: TokenUsage) => void;
+}
+
+// Asks every unfinished cell's question of its document alone, a few at a time. Each cell is reported as
+// soon as it settles, so stopping (aborting the signal) loses at most the requests still in flight.
+export const runBatch = async (run: BatchRun, files: FileData[], options: BatchRunOptions): Promise<void> => {
+  const { concurrency = DEFAULT_BATCH_CONCURRENCY, onStart, onCell, ...askOptions } = options;
+  // Documents removed from the workspace since the run was created are skipped
+  const queue = run.cells.filter(cell => cell.status !== 'done' && resolveBatchFile(files, cell.fileId));
+
+  await runConcurrently(queue, concurrency, askOptions.signal, async (cell) => {
+    onStart?.(cell);
+    try {
+      const response = await askQuestionAboutFiles([resolveBatchFile(files, cell.fileId)!], [], run.questions[cell.questionIndex], askOptions);
+      onCell({ ...cell, status: 'done', answer: response.answer, citations: response.citations, error: undefined }, response.usage);
+    } catch (error) {
+      if (askOptions.signal?.aborted) return;
+      onCell({ ...cell, status: 'failed', error: toAskError(error).toFailure() });
+    }
+  });
+};
+
+const pageLabel = (page?: number) => page ? `, p. ${page}` : '';
+
+const formatSources = (citations: Citation[]) =>
+  citations.map((citation, idx) => `[${idx + 1}] ${citation.fileName}${pageLabel(citation.page)} — "${citation.quote}"`).join('\n');
+
+// Answer followed by its sources, as one spreadsheet cell
+const cellText = (cell: BatchCell | undefined): string => {
+  if (!cell) return '';
+  if (cell.status === 'failed') return `Error: ${cell.error?.message ?? 'No answer'}`;
+  if (cell.status !== 'done') return '';
+  return cell.citations?.length ? `${cell.answer}\n\nSources:\n${formatSources(cell.citations)}` : cell.answer ?? '';
+};
+
+const fileNameOf = (files: FileData[], fileId: string) =>
+  resolveBatchFile(files, fileId)?.name ?? '(removed document)';
+
+// Documents down, questions across
+const gridRows = (run: BatchRun, files: FileData[]): string[][] => [
+  ['Document', ...run.questions],
+  ...run.fileIds.map(fileId => [
+    fileNameOf(files, fileId),
+    ...run.questions.map((_question, idx) => cellText(getBatchCell(run, fileId, idx)))
+  ])
+];
+
+// One row per citation, for filtering and pivoting in a spreadsheet
+const sourceRows = (run: BatchRun, files: FileData[]): (string | number)[][] => [
+  ['Document', 'Question', 'Source', 'Page', 'Quote'],
+  ...run.cells.flatMap(cell => (cell.citations ?? []).map(citation => [
+    fileNameOf(files, cell.fileId),
+    run.questions[cell.questionIndex],
+    citation.fileName,
+    citation.page ?? '',
+    citation.quote
+  ]))
+];
+
+export const toBatchCsv = (run: BatchRun, files: FileData[]): string =>
+  gridRows(run, files).map(cells => cells.map(csvCell).join(',')).join('\n');
+
+export type BatchExportFormat = 'csv' | 'xlsx';
+
+export const exportBatch = async (run: BatchRun, files: FileData[], format: BatchExportFormat) => {
+  const baseName = run.name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'batch';
+  if (format === 'csv') {
+    return downloadBlob(toBatchCsv(run, files), `${baseName}.csv`, 'text/csv');
+  }
+  const workbook = await buildXlsx([
+    { name: 'Answers', rows: gridRows(run, files), columnWidths: [32, ...run.questions.map(() => 60)] },
+    { name: 'Sources', rows: sourceRows(run, files), columnWidths: [32, 48, 32, 8, 80] }
+  ]);
+  downloadBlob(workbook, `${baseName}.xlsx`, workbook.type);
+};
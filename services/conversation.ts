@@ -0,0 +1,60 @@
+import { ChatMessage, ConversationSummary, TokenUsage } from "../types";
+import { AskOptions, summarizeMessages } from "./geminiService";
+
+// Estimated tokens of conversation history sent verbatim with each question
+export const HISTORY_TOKEN_BUDGET = 4000;
+// The latest exchanges always stay verbatim, even when they alone exceed the budget
+export const MIN_VERBATIM_MESSAGES = 4;
+
+// Roughly four characters per token, as the server estimates it
+const estimateMessageTokens = (message: ChatMessage) => Math.ceil(message.content.length / 4);
+
+// Index of the oldest message that still fits the budget, never reaching back past `coveredCount`
+export const findWindowStart = (history: ChatMessage[], coveredCount: number): number => {
+  let start = history.length;
+  let tokens = 0;
+  while (start > coveredCount) {
+    const cost = estimateMessageTokens(history[start - 1]);
+    if (history.length - start >= MIN_VERBATIM_MESSAGES && tokens + cost > HISTORY_TOKEN_BUDGET) break;
+    tokens += cost;
+    start--;
+  }
+  // Open the window on a question so no answer is sent without the turn that prompted it
+  if (start > coveredCount) {
+    while (start < history.length && history[start].role !== 'user') start++;
+  }
+  return start;
+};
+
+// A summary written on another branch does not describe this one
+export const getBranchSummary = (branch: ChatMessage[], summary: ConversationSummary | undefined) =>
+  summary && branch[summary.coveredCount - 1]?.id === summary.throughId ? summary : undefined;
+
+export interface PreparedHistory {
+  recent: ChatMessage[];
+  summary?: ConversationSummary;
+  // Cost of the summarization call, when one was needed
+  usage?: TokenUsage;
+}
+
+// Splits a branch into the messages sent verbatim and a summary of everything older,
+// folding newly overflowing messages into the existing summary first.
+export const prepareHistory = async (
+  history: ChatMessage[],
+  threadSummary: ConversationSummary | undefined,
+  options: AskOptions = {}
+): Promise<PreparedHistory> => {
+  const summary = getBranchSummary(history, threadSummary);
+  const coveredCount = summary?.coveredCount ?? 0;
+  const start = findWindowStart(history, coveredCount);
+  if (start === coveredCount) {
+    return { recent: history.slice(coveredCount), summary };
+  }
+
+  const result = await summarizeMessages(history.slice(coveredCount, start), summary?.text, options);
+  return {
+    recent: history.slice(start),
+    summary: { text: result.summary, coveredCount: start, throughId: history[start - 1].id },
+    usage: result.usage
+  };
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { FileData } from '../types';
+import { DiffOp, diffDocuments, diffSequences, diffWords } from './diff';
+
+const document = (pages: string[]): FileData => ({
+  id: crypto.randomUUID(),
+  name: 'contract.pdf',
+  mimeType: 'application/pdf',
+  blob: new Blob(),
+  size: 0,
+  pages
+});
+
+// Rebuilds both sequences from the operations, which any correct diff must allow
+const replay = (a: string[], b: string[], ops: DiffOp[]) => ({
+  before: ops.filter(op => op.type !== 'insert').map(op => a[op.index]),
+  after: ops.filter(op => op.type !== 'delete').map(op => op.type === 'insert' ? b[op.index] : a[op.index])
+});
+
+describe('diffSequences', () => {
+  it('matches identical sequences item for item', () => {
+    const ops = diffSequences(['a', 'b', 'c'], ['a', 'b', 'c']);
+    expect(ops).toEqual([0, 1, 2].map(index => ({ type: 'equal', index })));
+  });
+
+  it('handles empty sequences', () => {
+    expect(diffSequences([], [])).toEqual([]);
+    expect(diffSequences([], ['x'])).toEqual([{ type: 'insert', index: 0 }]);
+    expect(diffSequences(['x'], [])).toEqual([{ type: 'delete', index: 0 }]);
+  });
+
+  it('finds a shortest edit script', () => {
+    const a = 'ABCABBA'.split('');
+    const b = 'CBABAC'.split('');
+    const ops = diffSequences(a, b);
+    expect(ops.filter(op => op.type !== 'equal')).toHaveLength(5);
+    expect(replay(a, b, ops)).toEqual({ before: a, after: b });
+  });
+
+  it('indexes edits in the middle against the full sequences', () => {
+    const a = ['keep', 'old', 'keep too'];
+    const b = ['keep', 'new', 'keep too'];
+    expect(diffSequences(a, b)).toEqual([
+      { type: 'equal', index: 0 },
+      { type: 'delete', index: 1 },
+      { type: 'insert', index: 1 },
+      { type: 'equal', index: 2 }
+    ]);
+  });
+});
+
+describe('diffDocuments', () => {
+  it('reports no hunks when only the line breaks changed', () => {
+    const base = document(['The tenant pays rent monthly. Notice is three months.']);
+    const revised = document(['The tenant pays\nrent monthly.   Notice is three months.']);
+    expect(diffDocuments(base, revised)).toEqual([]);
+  });
+
+  it('groups changed, added and removed sentences into hunks on their pages', () => {
+    const base = document(['Rent is due monthly. Notice is three months.', 'The deposit is returned.']);
+    const revised = document(['Rent is due quarterly. Notice is three months.', 'The deposit is returned. Pets are allowed.']);
+    expect(diffDocuments(base, revised)).toEqual([
+      { id: 1, kind: 'changed', before: 'Rent is due monthly.', beforePage: 1, after: 'Rent is due quarterly.', afterPage: 1 },
+      { id: 2, kind: 'added', before: '', beforePage: 2, after: 'Pets are allowed.', afterPage: 2 }
+    ]);
+  });
+
+  it('treats a document without pages as empty', () => {
+    const hunks = diffDocuments(document([]), document(['Only sentence.']));
+    expect(hunks).toEqual([{ id: 1, kind: 'added', before: '', beforePage: undefined, after: 'Only sentence.', afterPage: 1 }]);
+  });
+});
+
+describe('diffWords', () => {
+  it('keeps whitespace so the pieces join back into either text', () => {
+    const changes = diffWords('pay within 30 days', 'pay within 60 days');
+    expect(changes.filter(change => change.type !== 'insert').map(change => change.text).join('')).toBe('pay within 30 days');
+    expect(changes.filter(change => change.type !== 'delete').map(change => change.text).join('')).toBe('pay within 60 days');
+    expect(changes.filter(change => change.type !== 'equal')).toEqual([
+      { type: 'delete', text: '30' },
+      { type: 'insert', text: '60' }
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import { DiffHunk, FileData } from "../types";
+
+export type DiffOpType = 'equal' | 'delete' | 'insert';
+
+export interface DiffOp {
+  type: DiffOpType;
+  // Index into the first sequence for equal/delete, into the second for insert
+  index: number;
+}
+
+// Beyond this many edits the revisions are treated as unrelated rather than diffed further
+const MAX_EDIT_DISTANCE = 3000;
+
+// Myers' O(ND) diff. Keeps one snapshot of the frontier per edit step to walk the path back,
+// so memory grows with the square of the number of differences, not with the document length.
+const myers = (a: string[], b: string[]): DiffOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(n + m, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, d, n, m);
+    }
+  }
+  return null;
+};
+
+const backtrack = (trace: Int32Array[], distance: number, n: number, m: number): DiffOp[] => {
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = distance; d > 0; d--) {
+    const frontier = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && frontier[k - 1 + d] < frontier[k + 1 + d]) ? k + 1 : k - 1;
+    const prevX = frontier[prevK + d];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', index: --x });
+      y--;
+    }
+    if (x === prevX) ops.push({ type: 'insert', index: --y });
+    else ops.push({ type: 'delete', index: --x });
+  }
+  while (x > 0) {
+    ops.push({ type: 'equal', index: --x });
+  }
+  return ops.reverse();
+};
+
+// Common leading and trailing items are matched up front, which is most of a revised document
+export const diffSequences = (a: string[], b: string[]): DiffOp[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = myers(middleA, middleB) ?? [
+    ...middleA.map((_item, index) => ({ type: 'delete' as const, index })),
+    ...middleB.map((_item, index) => ({ type: 'insert' as const, index }))
+  ];
+
+  return [
+    ...Array.from({ length: start }, (_v, index) => ({ type: 'equal' as const, index })),
+    ...middle.map(op => ({ ...op, index: op.index + start })),
+    ...Array.from({ length: a.length - endA }, (_v, idx) => ({ type: 'equal' as const, index: endA + idx }))
+  ];
+};
+
+interface Segment {
+  text: string;
+  page: number;
+}
+
+// Sentences rather than lines, so text that merely reflowed between revisions still matches
+const segmentDocument = (file: FileData): Segment[] =>
+  (file.pages ?? []).flatMap((page, idx) =>
+    page
+      .split(/(?<=[.;:!?])\s+|\n\s*\n/)
+      .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .map(text => ({ text, page: idx + 1 }))
+  );
+
+// Only documents with a text layer can be compared
+export const canCompare = (file: FileData) => !!file.pages?.some(page => page.trim());
+
+// Groups runs of removed and added sentences into hunks, each located in both documents.
+// A pure addition or removal is anchored to the page where it sits in the other document.
+export const diffDocuments = (base: FileData, revised: FileData): DiffHunk[] => {
+  const before = segmentDocument(base);
+  const after = segmentDocument(revised);
+  const ops = diffSequences(before.map(s => s.text), after.map(s => s.text));
+
+  const hunks: DiffHunk[] = [];
+  let removed: Segment[] = [];
+  let added: Segment[] = [];
+  let beforeIndex = 0;
+  let afterIndex = 0;
+
+  const flush = () => {
+    if (removed.length === 0 && added.length === 0) return;
+    const beforeAnchor = removed[0] ?? before[Math.min(beforeIndex, before.length - 1)];
+    const afterAnchor = added[0] ?? after[Math.min(afterIndex, after.length - 1)];
+    hunks.push({
+      id: hunks.length + 1,
+      kind: removed.length === 0 ? 'added' : added.length === 0 ? 'removed' : 'changed',
+      before: removed.map(s => s.text).join(' '),
+      beforePage: beforeAnchor?.page,
+      after: added.map(s => s.text).join(' '),
+      afterPage: afterAnchor?.page
+    });
+    removed = [];
+    added = [];
+  };
+
+  ops.forEach(op => {
+    if (op.type === 'equal') {
+      flush();
+      beforeIndex++;
+      afterIndex++;
+    } else if (op.type === 'delete') {
+      removed.push(before[op.index]);
+      beforeIndex++;
+    } else {
+      added.push(after[op.index]);
+      afterIndex++;
+    }
+  });
+  flush();
+  return hunks;
+};
+
+export interface WordChange {
+  type: DiffOpType;
+  text: string;
+}
+
+// Word-level detail for one changed hunk; whitespace is kept so the pieces join back into the text
+export const diffWords = (before: string, after: string): WordChange[] => {
+  const a = before.split(/(\s+)/);
+  const b = after.split(/(\s+)/);
+  return diffSequences(a, b).map(op => ({ type: op.type, text: op.type === 'insert' ? b[op.index] : a[op.index] }));
+};
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AskError, waitForRetry, withRetry } from './errors';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('waitForRetry', () => {
+  it('resolves after the delay and stops listening to the signal', async () => {
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const wait = waitForRetry(1000, controller.signal);
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(wait).resolves.toBeUndefined();
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('rejects as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const wait = waitForRetry(1000, controller.signal);
+    controller.abort();
+    await expect(wait).rejects.toMatchObject({ name: 'AbortError' });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('rejects at once on a signal that has already aborted', async () => {
+    await expect(waitForRetry(1000, AbortSignal.abort())).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures and reports each retry', async () => {
+    const run = vi.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new AskError('unavailable'))
+      .mockResolvedValueOnce('answer');
+    const onRetry = vi.fn();
+    const result = withRetry(run, undefined, onRetry);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('answer');
+    expect(onRetry).toHaveBeenCalledWith(1, expect.objectContaining({ kind: 'unavailable' }));
+  });
+
+  it('does not retry a failure that will not go away', async () => {
+    const run = vi.fn<() => Promise<string>>().mockRejectedValue(new AskError('safety'));
+    await expect(withRetry(run)).rejects.toMatchObject({ kind: 'safety' });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
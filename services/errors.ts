@@ -0,0 +1,108 @@
+import { ApiErrorBody, ErrorKind, RequestFailure } from "../types";
+
+export const ERROR_MESSAGES: Record<ErrorKind, string> = {
+  unauthenticated: "Your session has ended. Sign in again to continue.",
+  forbidden: "Your role does not allow this action.",
+  auth: "The server's model credentials were rejected. Ask an administrator to check the API key.",
+  quota: "The model's rate limit or quota was reached. Wait a moment and retry.",
+  payload_too_large: "The documents are too large for one request. Ask about fewer documents, or @-mention specific ones.",
+  safety: "The model declined to answer because of its safety filters. Try rephrasing the question.",
+  timeout: "The model took too long to answer. Retry, or narrow the question to fewer documents.",
+  network: "The server could not be reached. Check your connection and retry.",
+  unavailable: "The model service is temporarily unavailable. Retry in a moment.",
+  unknown: "Failed to get an answer from the AI. Please check your files and try again."
+};
+
+// Failures that tend to clear up on their own; the rest would fail the same way again
+const TRANSIENT_KINDS: ErrorKind[] = ['quota', 'network', 'unavailable'];
+
+export const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+
+export class AskError extends Error {
+  kind: ErrorKind;
+
+  constructor(kind: ErrorKind, message = ERROR_MESSAGES[kind]) {
+    super(message);
+    this.name = 'AskError';
+    this.kind = kind;
+  }
+
+  get transient() {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+
+  toFailure(): RequestFailure {
+    return { kind: this.kind, message: this.message };
+  }
+}
+
+// Used when the proxy answered without a classified body, e.g. the dev server with the API server down
+const kindForStatus = (status: number): ErrorKind => {
+  if (status === 413) return 'payload_too_large';
+  if (status === 429) return 'quota';
+  if (status === 504) return 'timeout';
+  if (status >= 500) return 'unavailable';
+  return 'unknown';
+};
+
+const unauthenticatedListeners = new Set<() => void>();
+
+// Lets the app go back to the sign-in screen when a session ends in the middle of its work
+export const onUnauthenticated = (listener: () => void) => {
+  unauthenticatedListeners.add(listener);
+  return () => {
+    unauthenticatedListeners.delete(listener);
+  };
+};
+
+export const errorFromResponse = async (response: Response): Promise<AskError> => {
+  const body: Partial<ApiErrorBody> = await response.json().catch(() => ({}));
+  const kind = body.kind ?? kindForStatus(response.status);
+  if (kind === 'unauthenticated') unauthenticatedListeners.forEach(listener => listener());
+  // Routes that do not classify their errors, such as the library's, word them for the user
+  return body.kind || !body.error ? new AskError(kind) : new AskError(kind, body.error);
+};
+
+// fetch() rejects with a TypeError when the request never reached the server
+export const toAskError = (error: unknown): AskError => {
+  if (error instanceof AskError) return error;
+  if (error instanceof TypeError) return new AskError('network');
+  return new AskError('unknown');
+};
+
+// Exponential backoff with jitter: about 1s, then 2s
+export const retryDelay = (attempt: number) => BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 250;
+
+// The abort listener is removed once the wait is over, so retries leave nothing behind on a long-lived signal
+export const waitForRetry = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs a request, retrying transient failures; `onRetry` lets the UI say what is going on
+export const withRetry = async <T>(
+  run: () => Promise<T>,
+  signal?: AbortSignal,
+  onRetry?: (attempt: number, error: AskError) => void
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const askError = toAskError(error);
+      if (signal?.aborted || !askError.transient || attempt >= MAX_ATTEMPTS) throw askError;
+      onRetry?.(attempt, askError);
+      await waitForRetry(retryDelay(attempt), signal);
+    }
+  }
+};
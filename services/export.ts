@@ -0,0 +1,205 @@
+import { ChatMessage, FileData } from "../types";
+import { sha256Hex } from "./encoding";
+import { renderMarkdown } from "./markdown";
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf' | 'txt';
+
+export interface ExportDocumentEntry {
+  name: string;
+  size: number;
+  sha256: string;
+}
+
+export interface ExportData {
+  workspaceName: string;
+  threadTitle: string;
+  exportedAt: number;
+  documents: ExportDocumentEntry[];
+  messages: ChatMessage[];
+}
+
+export const buildExportData = async (
+  workspaceName: string,
+  threadTitle: string,
+  files: FileData[],
+  messages: ChatMessage[]
+): Promise<ExportData> => ({
+  workspaceName,
+  threadTitle,
+  exportedAt: Date.now(),
+  documents: await Promise.all(files.map(async (file) => ({
+    name: file.name,
+    size: file.size,
+    sha256: file.hash ?? await sha256Hex(await file.blob.arrayBuffer())
+  }))),
+  messages
+});
+
+const formatSize = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+const roleLabel = (msg: ChatMessage) => msg.role === 'user' ? 'Question' : 'Answer';
+const pageLabel = (page?: number) => page ? `, p. ${page}` : '';
+
+export const toPlainText = (data: ExportData): string => {
+  let content = `PMAD AI Assistant - Chat History\n`;
+  content += `Workspace: ${data.workspaceName}\n`;
+  content += `Date: ${formatTime(data.exportedAt)}\n`;
+  content += `--------------------------------------------------\n\n`;
+
+  data.messages.forEach((msg) => {
+    const role = msg.role === 'user' ? 'USER' : 'ASSISTANT';
+    content += `[${formatTime(msg.timestamp)}] ${role}:\n${msg.content}\n`;
+    if (msg.scope) {
+      content += `  Scope: ${msg.scope.join(', ')}\n`;
+    }
+    msg.citations?.forEach((citation) => {
+      content += `  - Source: ${citation.fileName}${pageLabel(citation.page)} — "${citation.quote}"\n`;
+    });
+    content += `\n`;
+  });
+  return content;
+};
+
+export const toMarkdown = (data: ExportData): string => {
+  const lines: string[] = [
+    `# ${data.threadTitle}`,
+    '',
+    `- **Workspace:** ${data.workspaceName}`,
+    `- **Exported:** ${formatTime(data.exportedAt)}`,
+    '',
+    '## Documents',
+    '',
+    '| Name | Size | SHA-256 |',
+    '| --- | --- | --- |',
+    ...data.documents.map(doc => `| ${doc.name.replace(/\|/g, '\\|')} | ${formatSize(doc.size)} | \`${doc.sha256}\` |`),
+    '',
+    '## Conversation',
+    ''
+  ];
+
+  data.messages.forEach((msg) => {
+    lines.push(`### ${roleLabel(msg)} — ${formatTime(msg.timestamp)}`, '');
+    if (msg.scope) lines.push(`_Scope: ${msg.scope.join(', ')}_`, '');
+    lines.push(msg.content, '');
+    if (msg.citations?.length) {
+      lines.push('**Sources**', '');
+      msg.citations.forEach((citation, idx) => {
+        lines.push(`${idx + 1}. ${citation.fileName}${pageLabel(citation.page)} — "${citation.quote}"`);
+      });
+      lines.push('');
+    }
+  });
+  return lines.join('\n');
+};
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #1e293b; max-width: 820px; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.55; }
+  h1 { color: #064e3b; margin-bottom: 0.25rem; }
+  h2 { color: #065f46; border-bottom: 2px solid #d1fae5; padding-bottom: 0.25rem; margin-top: 2rem; }
+  .meta { color: #64748b; font-size: 0.85rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.8rem; }
+  th, td { border: 1px solid #e2e8f0; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+  th { background: #ecfdf5; }
+  code { font-family: ui-monospace, monospace; font-size: 0.75rem; word-break: break-all; }
+  .message { border: 1px solid #e2e8f0; border-radius: 12px; padding: 0.75rem 1rem; margin: 1rem 0; page-break-inside: avoid; }
+  .message.user { background: #ecfdf5; border-color: #a7f3d0; }
+  .role { font-size: 0.7rem; font-weight: 800; text-transform: uppercase; letter-spacing: 0.1em; color: #047857; }
+  .content { white-space: pre-wrap; margin-top: 0.4rem; }
+  .content.markdown { white-space: normal; }
+  .content.markdown table { margin: 0.5rem 0; }
+  .content.markdown pre { background: #f1f5f9; border-radius: 8px; padding: 0.6rem 0.8rem; overflow-x: auto; }
+  .sources { margin: 0.6rem 0 0; padding-left: 1.2rem; font-size: 0.8rem; color: #475569; }
+  @media print { body { margin: 0; } }
+`;
+
+export const toHtml = (data: ExportData): string => {
+  const documents = data.documents.map(doc =>
+    `<tr><td>${escapeHtml(doc.name)}</td><td>${formatSize(doc.size)}</td><td><code>${doc.sha256}</code></td></tr>`
+  ).join('');
+
+  const messages = data.messages.map((msg) => {
+    const scope = msg.scope ? `<div class="meta">Scope: ${escapeHtml(msg.scope.join(', '))}</div>` : '';
+    const sources = msg.citations?.length
+      ? `<ol class="sources">${msg.citations.map(c =>
+          `<li>${escapeHtml(c.fileName)}${pageLabel(c.page)} — “${escapeHtml(c.quote)}”</li>`
+        ).join('')}</ol>`
+      : '';
+    return `<section class="message ${msg.role}">
+      <div class="role">${roleLabel(msg)} · ${escapeHtml(formatTime(msg.timestamp))}</div>
+      ${scope}
+      ${msg.role === 'model'
+        ? `<div class="content markdown">${renderMarkdown(msg.content)}</div>`
+        : `<div class="content">${escapeHtml(msg.content)}</div>`}
+      ${sources}
+    </section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(data.threadTitle)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(data.threadTitle)}</h1>
+<p class="meta">Workspace: ${escapeHtml(data.workspaceName)} · Exported ${escapeHtml(formatTime(data.exportedAt))} · PMAD AI Document Assistant</p>
+<h2>Documents</h2>
+<table><thead><tr><th>Name</th><th>Size</th><th>SHA-256</th></tr></thead><tbody>${documents}</tbody></table>
+<h2>Conversation</h2>
+${messages}
+</body>
+</html>`;
+};
+
+export const downloadBlob = (content: BlobPart, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// PDFs are produced through the browser's print dialog ("Save as PDF") from the HTML report
+const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    setTimeout(() => document.body.removeChild(frame), 1000);
+  };
+  frame.srcdoc = html;
+};
+
+export const exportConversation = (data: ExportData, format: ExportFormat) => {
+  const timestamp = new Date(data.exportedAt).toISOString().replace(/[:.]/g, '-');
+  const baseName = `chat-history-${timestamp}`;
+
+  switch (format) {
+    case 'markdown':
+      return downloadBlob(toMarkdown(data), `${baseName}.md`, 'text/markdown');
+    case 'html':
+      return downloadBlob(toHtml(data), `${baseName}.html`, 'text/html');
+    case 'pdf':
+      return printHtml(toHtml(data));
+    case 'txt':
+      return downloadBlob(toPlainText(data), `${baseName}.txt`, 'text/plain');
+  }
+};
@@ -0,0 +1,142 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExtractionField, ExtractionRow, FileData } from '../types';
+import { extractFields } from './geminiService';
+import { coerceValue, createExtractionTable, revalidateRow, runExtraction, validateExtraction } from './extraction';
+
+vi.mock('./geminiService', () => ({ extractFields: vi.fn() }));
+
+const field = (type: ExtractionField['type'], overrides: Partial<ExtractionField> = {}): ExtractionField => ({
+  id: `${type}-id`,
+  name: `${type[0].toUpperCase()}${type.slice(1)} field`,
+  type,
+  description: '',
+  required: false,
+  ...overrides
+});
+
+describe('coerceValue', () => {
+  it('treats blanks as missing and flags them only when required', () => {
+    expect(coerceValue(field('string'), '  ')).toEqual({ value: null, problem: undefined });
+    expect(coerceValue(field('list'), [])).toEqual({ value: null, problem: undefined });
+    expect(coerceValue(field('number', { required: true }), null).problem).toBe('"Number field" is required but no value was found.');
+  });
+
+  it.each([
+    ['1250', 1250],
+    ['$1,250.00', 1250],
+    ['1 250,5', 1250.5],
+    ['€1.250,50', 1250.5],
+    ['12%', 12],
+    ['-3.5', -3.5],
+    ['1.250.000', 1250000]
+  ])('reads the number %s', (text, value) => {
+    expect(coerceValue(field('number'), text)).toEqual({ value });
+  });
+
+  it.each(['3 to 5 years', '12 and 13', '1,250 000', '1.250.5', '1.250', 'about 40'])('flags %s instead of guessing a number', (text) => {
+    expect(coerceValue(field('number'), text)).toEqual({ value: text, problem: `"Number field" should be a number, got "${text}".` });
+  });
+
+  it.each([
+    ['2024-03-01', '2024-03-01'],
+    ['2024/3/1', '2024-03-01'],
+    ['01.03.2024', '2024-03-01'],
+    ['1 March 2024', '2024-03-01'],
+    ['1st Mar. 2024', '2024-03-01'],
+    ['March 1, 2024', '2024-03-01'],
+    ['Sept 30 2024', '2024-09-30']
+  ])('reads the date %s', (text, value) => {
+    expect(coerceValue(field('date'), text)).toEqual({ value });
+  });
+
+  it.each(['03/01/2024', '2023-02-30', 'next Tuesday', 'Smarch 1, 2024', '2024'])('flags %s instead of guessing a date', (text) => {
+    expect(coerceValue(field('date'), text).problem).toBe(`"Date field" should be a date (YYYY-MM-DD), got "${text}".`);
+  });
+
+  it('reads yes and no in their usual spellings', () => {
+    expect(coerceValue(field('boolean'), 'Yes')).toEqual({ value: true });
+    expect(coerceValue(field('boolean'), 'n')).toEqual({ value: false });
+    expect(coerceValue(field('boolean'), false)).toEqual({ value: false });
+    expect(coerceValue(field('boolean'), 'maybe').problem).toBe('"Boolean field" should be yes or no, got "maybe".');
+  });
+
+  it('splits lists on semicolons and new lines', () => {
+    expect(coerceValue(field('list'), 'Alice; Bob\nCarol;')).toEqual({ value: ['Alice', 'Bob', 'Carol'] });
+    expect(coerceValue(field('list'), [' Alice ', 2])).toEqual({ value: ['Alice', '2'] });
+  });
+});
+
+describe('validateExtraction', () => {
+  it('matches keys regardless of case and returns values by field id', () => {
+    const fields = [field('number'), field('date', { required: true })];
+    expect(validateExtraction(fields, { 'NUMBER FIELD': '42' })).toEqual({
+      values: { 'number-id': 42, 'date-id': null },
+      issues: [{ fieldId: 'date-id', message: '"Date field" is required but no value was found.' }]
+    });
+  });
+});
+
+describe('revalidateRow', () => {
+  it('clears issues once an edit fixes them and leaves unfinished rows alone', () => {
+    const fields = [field('number')];
+    const row: ExtractionRow = { fileId: 'f', status: 'invalid', values: { 'number-id': 7 }, issues: [{ fieldId: 'number-id', message: 'old' }] };
+    expect(revalidateRow(fields, row)).toEqual({ ...row, status: 'done', issues: [] });
+    const pending: ExtractionRow = { fileId: 'f', status: 'pending', values: {} };
+    expect(revalidateRow(fields, pending)).toBe(pending);
+  });
+});
+
+describe('runExtraction', () => {
+  const file: FileData = { id: 'lease', name: 'lease.pdf', mimeType: 'application/pdf', blob: new Blob(), size: 1, pages: ['text'] };
+  const fields = [field('number', { name: 'Rent', required: true })];
+  const mocked = vi.mocked(extractFields);
+
+  beforeEach(() => {
+    mocked.mockReset();
+  });
+
+  it('retries once with the problems spelled out and keeps the corrected row', async () => {
+    mocked
+      .mockResolvedValueOnce({ values: { Rent: 'about 900' }, citations: [] })
+      .mockResolvedValueOnce({ values: { Rent: '900' }, citations: [{ field: 'rent', fileName: 'lease.pdf', page: 2, quote: 'EUR 900' }] });
+    const rows: ExtractionRow[] = [];
+    await runExtraction(createExtractionTable('Leases', fields, [file.id]), [file], { onRow: row => rows.push(row) });
+
+    expect(mocked).toHaveBeenCalledTimes(2);
+    expect(mocked.mock.calls[1][2]).toEqual(['"Rent" should be a number, got "about 900".']);
+    expect(rows).toEqual([{
+      fileId: 'lease',
+      status: 'done',
+      values: { 'number-id': 900 },
+      citations: [{ field: 'number-id', fileName: 'lease.pdf', page: 2, quote: 'EUR 900' }],
+      issues: [],
+      error: undefined
+    }]);
+  });
+
+  it('keeps a row that is still invalid after the retry, flagged for review', async () => {
+    mocked.mockResolvedValue({ values: {}, citations: [] });
+    const rows: ExtractionRow[] = [];
+    await runExtraction(createExtractionTable('Leases', fields, [file.id]), [file], { onRow: row => rows.push(row) });
+
+    expect(mocked).toHaveBeenCalledTimes(2);
+    expect(rows.map(row => [row.status, row.issues?.length])).toEqual([['invalid', 1]]);
+  });
+
+  it('marks a failed request and reports nothing once aborted', async () => {
+    mocked.mockRejectedValueOnce(new Error('Network down'));
+    const rows: ExtractionRow[] = [];
+    await runExtraction(createExtractionTable('Leases', fields, [file.id]), [file], { onRow: row => rows.push(row) });
+    expect(rows.map(row => row.status)).toEqual(['failed']);
+
+    const controller = new AbortController();
+    mocked.mockImplementationOnce(async () => {
+      controller.abort();
+      throw new DOMException('Aborted', 'AbortError');
+    });
+    rows.length = 0;
+    await runExtraction(createExtractionTable('Leases', fields, [file.id]), [file], { signal: controller.signal, onRow: row => rows.push(row) });
+    expect(rows).toEqual([]);
+  });
+});
@@ -0,0 +1,292 @@
+import {
+  ExtractionCitation,
+  ExtractionField,
+  ExtractionFieldType,
+  ExtractionIssue,
+  ExtractionRow,
+  ExtractionTable,
+  ExtractionValue,
+  FileData,
+  TokenUsage
+} from "../types";
+import { AskOptions, extractFields } from "./geminiService";
+import { toAskError } from "./errors";
+import { DEFAULT_BATCH_CONCURRENCY, runConcurrently } from "./batch";
+import { downloadBlob } from "./export";
+import { csvCell } from "../csv";
+import { buildXlsx } from "./xlsx";
+
+export const FIELD_TYPES: { value: ExtractionFieldType; label: string }[] = [
+  { value: 'string', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'boolean', label: 'Yes / No' },
+  { value: 'list', label: 'List' }
+];
+
+// The first attempt plus one retry that is told what was wrong
+export const MAX_EXTRACTION_ATTEMPTS = 2;
+
+export const createField = (): ExtractionField => ({
+  id: crypto.randomUUID(),
+  name: '',
+  type: 'string',
+  description: '',
+  required: false
+});
+
+export const createExtractionTable = (name: string, fields: ExtractionField[], fileIds: string[]): ExtractionTable => ({
+  id: crypto.randomUUID(),
+  name,
+  fields,
+  rows: fileIds.map(fileId => ({ fileId, status: 'pending', values: {} })),
+  createdAt: Date.now()
+});
+
+// Problems with the schema itself, shown before it can be used
+export const getSchemaProblems = (fields: ExtractionField[]): string[] => {
+  const names = fields.map(field => field.name.trim().toLowerCase());
+  return [
+    ...(fields.length === 0 ? ['Add at least one field.'] : []),
+    ...(names.some(name => !name) ? ['Every field needs a name.'] : []),
+    ...(new Set(names).size < names.length ? ['Field names must be unique.'] : [])
+  ];
+};
+
+// One number, optionally with a currency sign, a percent sign and thousands separators: "$1,250.00",
+// "1 250,5", "€1.250,50" and "12%" all parse, while "3 to 5 years" or "12 and 13" do not
+const NUMBER_PATTERN = /^([-+])?\s*[$€£¥]?\s*(\d{1,3}(?:([,. ])\d{3})(?:\3\d{3})*|\d+)(?:([.,])(\d+))?\s*[%$€£¥]?$/;
+
+const parseNumber = (text: string): number => {
+  const match = text.match(NUMBER_PATTERN);
+  if (!match) return NaN;
+  const [, sign, whole, thousands, decimal, fraction] = match;
+  if (decimal && decimal === thousands) return NaN;
+  // A lone dot group such as "1.250" is 1.25 in English but 1250 in most of Europe, so it is left for review
+  if (thousands === '.' && !decimal && whole.split('.').length === 2) return NaN;
+  const value = Number(`${thousands ? whole.split(thousands).join('') : whole}${fraction ? `.${fraction}` : ''}`);
+  return sign === '-' ? -value : value;
+};
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// 1-based; full names and three-letter abbreviations
+const monthNumber = (name: string) => {
+  const lower = name.toLowerCase();
+  return MONTHS.findIndex(month => month === lower || month.slice(0, 3) === lower || (lower === 'sept' && month === 'september')) + 1;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Rejects days that do not exist, such as 2023-02-30
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? `${year}-${pad(month)}-${pad(day)}`
+    : null;
+};
+
+// "2024-03-01", "2024/03/01", "01.03.2024", "1 March 2024" and "March 1, 2024". Slashed dates such as
+// 03/01/2024 are left out because the day and month could be either way round.
+const parseDate = (text: string): string | null => {
+  let match = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+  if (match) return toIsoDate(Number(match[3]), Number(match[2]), Number(match[1]));
+  match = text.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]+)\.?,?\s+(\d{4})$/i);
+  if (match) return monthNumber(match[2]) ? toIsoDate(Number(match[3]), monthNumber(match[2]), Number(match[1])) : null;
+  match = text.match(/^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i);
+  if (match) return monthNumber(match[1]) ? toIsoDate(Number(match[3]), monthNumber(match[1]), Number(match[2])) : null;
+  return null;
+};
+
+const TRUE_WORDS = ['true', 'yes', 'y'];
+const FALSE_WORDS = ['false', 'no', 'n'];
+
+// Converts whatever the model or the user supplied into the field's type, or explains why it cannot
+export const coerceValue = (field: ExtractionField, raw: unknown): { value: ExtractionValue; problem?: string } => {
+  if (raw === null || raw === undefined || (typeof raw === 'string' && !raw.trim())
+    || (Array.isArray(raw) && raw.length === 0)) {
+    return { value: null, problem: field.required ? `"${field.name}" is required but no value was found.` : undefined };
+  }
+
+  const text = Array.isArray(raw) ? raw.map(String).join('; ') : String(raw).trim();
+  switch (field.type) {
+    case 'string':
+      return { value: text };
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : parseNumber(text);
+      return Number.isFinite(value) ? { value } : { value: text, problem: `"${field.name}" should be a number, got "${text}".` };
+    }
+    case 'date': {
+      const value = parseDate(text);
+      return value ? { value } : { value: text, problem: `"${field.name}" should be a date (YYYY-MM-DD), got "${text}".` };
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return { value: raw };
+      const word = text.toLowerCase();
+      if (TRUE_WORDS.includes(word)) return { value: true };
+      if (FALSE_WORDS.includes(word)) return { value: false };
+      return { value: text, problem: `"${field.name}" should be yes or no, got "${text}".` };
+    }
+    case 'list': {
+      const items = Array.isArray(raw) ? raw.map(item => String(item).trim()) : text.split(/\n|;/).map(item => item.trim());
+      return { value: items.filter(Boolean) };
+    }
+  }
+};
+
+// Validates raw values keyed by field name, returning typed values keyed by field id
+export const validateExtraction = (
+  fields: ExtractionField[],
+  raw: Record<string, unknown>
+): { values: Record<string, ExtractionValue>; issues: ExtractionIssue[] } => {
+  // Models sometimes change the case of a key
+  const byName = new Map(Object.entries(raw).map(([name, value]) => [name.trim().toLowerCase(), value]));
+  const values: Record<string, ExtractionValue> = {};
+  const issues: ExtractionIssue[] = [];
+  fields.forEach(field => {
+    const { value, problem } = coerceValue(field, byName.get(field.name.trim().toLowerCase()));
+    values[field.id] = value;
+    if (problem) issues.push({ fieldId: field.id, message: problem });
+  });
+  return { values, issues };
+};
+
+// Re-checks a row after its values were edited by hand or the schema changed
+export const revalidateRow = (fields: ExtractionField[], row: ExtractionRow): ExtractionRow => {
+  if (row.status === 'pending' || row.status === 'failed') return row;
+  const issues = fields.flatMap(field => {
+    const { problem } = coerceValue(field, row.values[field.id]);
+    return problem ? [{ fieldId: field.id, message: problem }] : [];
+  });
+  return { ...row, status: issues.length > 0 ? 'invalid' : 'done', issues };
+};
+
+export const updateExtractionRow = (table: ExtractionTable, row: ExtractionRow): ExtractionTable => ({
+  ...table,
+  rows: table.rows.map(r => r.fileId === row.fileId ? row : r)
+});
+
+export const extractionProgress = (table: ExtractionTable) => ({
+  total: table.rows.length,
+  done: table.rows.filter(row => row.status === 'done').length,
+  invalid: table.rows.filter(row => row.status === 'invalid').length,
+  failed: table.rows.filter(row => row.status === 'failed').length
+});
+
+export interface ExtractionRunOptions extends AskOptions {
+  concurrency?: number;
+  // Only these documents; by default every row that is not done
+  fileIds?: string[];
+  onStart?: (fileId: string) => void;
+  onRow: (row: ExtractionRow) => void;
+  onUsage?: (usage: TokenUsage, fileId: string) => void;
+}
+
+// Extracts one document, retrying once with the validation problems spelled out to the model.
+// A row that is still invalid after that is kept with its issues flagged for review.
+const extractRow = async (table: ExtractionTable, row: ExtractionRow, file: FileData, options: ExtractionRunOptions): Promise<ExtractionRow> => {
+  const edited = new Set(row.editedFieldIds ?? []);
+  const fields = table.fields.filter(field => !edited.has(field.id));
+  const idByName = new Map(table.fields.map(field => [field.name.trim().toLowerCase(), field.id]));
+  let corrections: string[] = [];
+  let result = row;
+
+  for (let attempt = 1; attempt <= MAX_EXTRACTION_ATTEMPTS; attempt++) {
+    const response = await extractFields(file, fields.map(({ name, type, description, required }) => ({ name, type, description, required })), corrections, options);
+    if (response.usage) options.onUsage?.(response.usage, file.id);
+
+    const { values, issues } = validateExtraction(fields, response.values);
+    const citations: ExtractionCitation[] = response.citations.flatMap(citation => {
+      const fieldId = idByName.get(citation.field.trim().toLowerCase());
+      return fieldId && !edited.has(fieldId) ? [{ ...citation, field: fieldId }] : [];
+    });
+    result = {
+      ...row,
+      status: issues.length > 0 ? 'invalid' : 'done',
+      values: { ...row.values, ...values },
+      citations: [...(row.citations ?? []).filter(citation => edited.has(citation.field)), ...citations],
+      issues,
+      error: undefined
+    };
+    if (issues.length === 0) break;
+    corrections = issues.map(issue => issue.message);
+  }
+  return result;
+};
+
+export const runExtraction = async (table: ExtractionTable, files: FileData[], options: ExtractionRunOptions): Promise<void> => {
+  const { concurrency = DEFAULT_BATCH_CONCURRENCY, fileIds, onStart, onRow } = options;
+  const byId = new Map(files.map(file => [file.id, file]));
+  const queue = table.rows.filter(row =>
+    byId.has(row.fileId) && (fileIds ? fileIds.includes(row.fileId) : row.status !== 'done')
+  );
+
+  await runConcurrently(queue, concurrency, options.signal, async (row) => {
+    onStart?.(row.fileId);
+    try {
+      onRow(await extractRow(table, row, byId.get(row.fileId)!, options));
+    } catch (error) {
+      if (options.signal?.aborted) return;
+      onRow({ ...row, status: 'failed', error: toAskError(error).toFailure() });
+    }
+  });
+};
+
+export const formatValue = (value: ExtractionValue | undefined): string => {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.join('; ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const STATUS_LABELS: Record<ExtractionRow['status'], string> = {
+  pending: 'Not extracted',
+  done: 'Valid',
+  invalid: 'Needs review',
+  failed: 'Failed'
+};
+
+const fileNameOf = (files: FileData[], fileId: string) =>
+  files.find(file => file.id === fileId)?.name ?? '(removed document)';
+
+// Numbers stay numeric so spreadsheets can sum them
+const tableRows = (table: ExtractionTable, files: FileData[]): (string | number)[][] => [
+  ['Document', ...table.fields.map(field => field.name), 'Status', 'Issues'],
+  ...table.rows.map(row => [
+    fileNameOf(files, row.fileId),
+    ...table.fields.map(field => {
+      const value = row.values[field.id];
+      return typeof value === 'number' ? value : formatValue(value);
+    }),
+    STATUS_LABELS[row.status],
+    row.error?.message ?? (row.issues ?? []).map(issue => issue.message).join(' ')
+  ])
+];
+
+const sourceRows = (table: ExtractionTable, files: FileData[]): (string | number)[][] => [
+  ['Document', 'Field', 'Source', 'Page', 'Quote'],
+  ...table.rows.flatMap(row => (row.citations ?? []).map(citation => [
+    fileNameOf(files, row.fileId),
+    table.fields.find(field => field.id === citation.field)?.name ?? '',
+    citation.fileName,
+    citation.page ?? '',
+    citation.quote
+  ]))
+];
+
+export type ExtractionExportFormat = 'csv' | 'xlsx';
+
+export const exportExtraction = async (table: ExtractionTable, files: FileData[], format: ExtractionExportFormat) => {
+  const baseName = table.name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'extraction';
+  if (format === 'csv') {
+    const csv = tableRows(table, files).map(cells => cells.map(csvCell).join(',')).join('\n');
+    return downloadBlob(csv, `${baseName}.csv`, 'text/csv');
+  }
+  const workbook = await buildXlsx([
+    { name: 'Fields', rows: tableRows(table, files), columnWidths: [32, ...table.fields.map(() => 24), 14, 48] },
+    { name: 'Sources', rows: sourceRows(table, files), columnWidths: [32, 24, 32, 8, 80] }
+  ]);
+  downloadBlob(workbook, `${baseName}.xlsx`, workbook.type);
+};
@@ -1,57 +1,251 @@
+import {
+  FileData,
+  RequestFile,
+  ChatMessage,
+  AskRequest,
+  AskResponse,
+  AskStreamEvent,
+  AnswerStreamPiece,
+  CompareRequest,
+  CompareResponse,
+  CountTokensResponse,
+  DiffHunk,
+  ExtractRequest,
+  ExtractResponse,
+  ModelSelection,
+  ProviderInfo,
+  SummarizeRequest,
+  SummarizeResponse
+} from "../types";
+import { selectContext } from "./retrieval";
+import { AskError, errorFromResponse, MAX_ATTEMPTS, retryDelay, toAskError, waitForRetry, withRetry } from "./errors";
+import { isNativeFormat } from "./ingestion";
+import { blobToBase64 } from "./encoding";
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { FileData, ChatMessage, GeminiContent } from "../types";
+// Model API keys live on the server; the browser only talks to our own /api proxy
+const API_BASE = '/api';
 
-const MODEL_NAME = 'gemini-3-flash-preview';
+export interface AskOptions {
+  selection?: ModelSelection;
+  // Rolling summary of the messages older than `history`
+  summary?: string;
+  systemInstruction?: string;
+  temperature?: number;
+  signal?: AbortSignal;
+  // Called before each automatic retry of a transient failure
+  onRetry?: (attempt: number, error: AskError) => void;
+}
+
+// Native formats travel as bytes; extracted text goes along for providers that cannot read them
+// The content hash goes along for the server's audit log
+const toRequestFile = async ({ id, name, mimeType, size, blob, pages, hash }: FileData): Promise<RequestFile> => ({
+  id,
+  name,
+  mimeType,
+  size,
+  base64: isNativeFormat(mimeType) ? await blobToBase64(blob) : '',
+  pages,
+  hash
+});
+
+// Follow-up questions often lean on the previous one, so both feed the retrieval query
+const buildRequest = async (files: FileData[], history: ChatMessage[], question: string, options: AskOptions): Promise<AskRequest> => {
+  const previousQuestion = [...history].reverse().find(msg => msg.role === 'user')?.content ?? '';
+  const context = selectContext(files, `${question} ${previousQuestion}`);
+  return {
+    files: await Promise.all(context.files.map(toRequestFile)),
+    chunks: context.chunks,
+    history,
+    summary: options.summary,
+    question,
+    systemInstruction: options.systemInstruction,
+    temperature: options.temperature,
+    provider: options.selection?.provider,
+    model: options.selection?.model
+  };
+};
+
+const postJson = (path: string, payload: unknown, signal?: AbortSignal) =>
+  fetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+    signal,
+  });
+
+export const fetchProviders = async (): Promise<{ providers: ProviderInfo[]; defaultProvider: string }> => {
+  const response = await fetch(`${API_BASE}/providers`);
+  if (!response.ok) {
+    throw new Error(`Proxy responded with status ${response.status}`);
+  }
+  return response.json();
+};
+
+export const summarizeMessages = async (
+  messages: ChatMessage[],
+  previousSummary: string | undefined,
+  options: AskOptions = {}
+): Promise<SummarizeResponse> => {
+  const payload: SummarizeRequest = {
+    previousSummary,
+    messages: messages.map(({ id, role, content, timestamp }) => ({ id, role, content, timestamp })),
+    provider: options.selection?.provider,
+    model: options.selection?.model
+  };
+  return withRetry(async () => {
+    const response = await postJson('/summarize', payload, options.signal);
+    if (!response.ok) throw await errorFromResponse(response);
+    return response.json();
+  }, options.signal, options.onRetry);
+};
 
 export const askQuestionAboutFiles = async (
   files: FileData[],
   history: ChatMessage[],
-  question: string
-): Promise<string> => {
-  // Fix: Initializing GoogleGenAI following exact SDK guidelines
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  // Prepare PDF parts
-  const fileParts = files.map(file => ({
-    inlineData: {
-      mimeType: 'application/pdf',
-      data: file.base64
-    }
-  }));
+  question: string,
+  options: AskOptions = {}
+): Promise<AskResponse> => {
+  const payload = await buildRequest(files, history, question, options);
 
-  // Prepare text history
-  const historyParts = history.map(msg => ({
-    text: `${msg.role === 'user' ? 'Question' : 'Answer'}: ${msg.content}`
-  }));
+  try {
+    return await withRetry(async () => {
+      const response = await postJson('/ask', payload, options.signal);
+      if (!response.ok) throw await errorFromResponse(response);
 
-  // Current question part
-  const currentQuestionPart = {
-    text: `Based on the provided PDF documents, please answer the following question: ${question}`
+      const data: AskResponse = await response.json();
+      return {
+        answer: data.answer || "I'm sorry, I couldn't generate a response.",
+        citations: data.citations || [],
+        usage: data.usage
+      };
+    }, options.signal, options.onRetry);
+  } catch (error) {
+    console.error("Model API Error:", error);
+    throw toAskError(error);
+  }
+};
+
+// Always sends the whole document: fields can be anywhere in it, so retrieval would miss some
+export const extractFields = async (
+  file: FileData,
+  fields: ExtractRequest['fields'],
+  corrections: string[],
+  options: AskOptions = {}
+): Promise<ExtractResponse> => {
+  const payload: ExtractRequest = {
+    files: [await toRequestFile(file)],
+    fields,
+    corrections: corrections.length > 0 ? corrections : undefined,
+    systemInstruction: options.systemInstruction,
+    provider: options.selection?.provider,
+    model: options.selection?.model
   };
 
-  const systemInstruction = `You are a professional document assistant. 
-    Users will provide multiple PDF files. 
-    Analyze the contents of these files carefully. 
-    Answer questions based ONLY on the information in these files. 
-    If the information is not in the files, say you don't know based on the provided documents.
-    Be concise but thorough. Cite the document names when referring to specific info.`;
+  try {
+    return await withRetry(async () => {
+      const response = await postJson('/extract', payload, options.signal);
+      if (!response.ok) throw await errorFromResponse(response);
+      return response.json();
+    }, options.signal, options.onRetry);
+  } catch (error) {
+    console.error("Extraction API Error:", error);
+    throw toAskError(error);
+  }
+};
+
+// Only the passages the local diff found are sent, never the documents themselves
+export const summarizeChanges = async (
+  baseName: string,
+  revisedName: string,
+  hunks: DiffHunk[],
+  options: AskOptions = {}
+): Promise<CompareResponse> => {
+  const payload: CompareRequest = {
+    baseName,
+    revisedName,
+    hunks,
+    systemInstruction: options.systemInstruction,
+    provider: options.selection?.provider,
+    model: options.selection?.model
+  };
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: {
-        parts: [...fileParts, ...historyParts, currentQuestionPart]
-      },
-      config: {
-        systemInstruction: systemInstruction,
-        temperature: 0.2, // Lower temperature for more factual extraction
-      },
-    });
-
-    return response.text || "I'm sorry, I couldn't generate a response.";
+    return await withRetry(async () => {
+      const response = await postJson('/compare', payload, options.signal);
+      if (!response.ok) throw await errorFromResponse(response);
+      return response.json();
+    }, options.signal, options.onRetry);
   } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw new Error("Failed to get an answer from the AI. Please check your files and try again.");
+    console.error("Comparison API Error:", error);
+    throw toAskError(error);
   }
 };
+
+export const countQuestionTokens = async (
+  files: FileData[],
+  history: ChatMessage[],
+  question: string,
+  options: AskOptions = {}
+): Promise<CountTokensResponse> => {
+  const response = await postJson('/count-tokens', await buildRequest(files, history, question, options), options.signal);
+  if (!response.ok) throw await errorFromResponse(response);
+  return response.json();
+};
+
+// Yields the answer text in pieces as the model produces them, followed by its citations and token usage.
+// Transient failures are retried as long as nothing has been yielded yet; later ones throw an AskError.
+// Aborting the signal ends the iteration quietly so callers keep whatever text has already arrived.
+export async function* streamQuestionAboutFiles(
+  files: FileData[],
+  history: ChatMessage[],
+  question: string,
+  options: AskOptions = {}
+): AsyncGenerator<AnswerStreamPiece> {
+  const { signal } = options;
+  const payload = await buildRequest(files, history, question, options);
+  let yielded = false;
+
+  for (let attempt = 1; ; attempt++) {
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      const response = await postJson('/ask/stream', payload, signal);
+
+      if (!response.ok || !response.body) throw await errorFromResponse(response);
+
+      const reader = response.body.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event: AskStreamEvent = JSON.parse(line);
+          if (event.type === 'chunk' || event.type === 'citations' || event.type === 'usage') {
+            yielded = true;
+            yield event;
+          }
+          else if (event.type === 'error') throw new AskError(event.kind);
+          else if (event.type === 'done') return;
+        }
+      }
+      // The connection closed before the server said it was done
+      throw new AskError('network');
+    } catch (error) {
+      if (signal?.aborted) return;
+      const askError = toAskError(error);
+      console.error("Model API Error:", error);
+      if (yielded || !askError.transient || attempt >= MAX_ATTEMPTS) throw askError;
+      options.onRetry?.(attempt, askError);
+      try {
+        await waitForRetry(retryDelay(attempt), signal);
+      } catch {
+        return;
+      }
+    }
+  }
+}
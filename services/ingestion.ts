@@ -0,0 +1,241 @@
+import { FileData, UploadLimits } from "../types";
+import { errorFromResponse } from "./errors";
+import { POOL_SIZE, runInWorker } from "./ingestionPool";
+import { OcrProgress, recognizePdfPages } from "./ocr";
+
+export type DocumentFormat = 'pdf' | 'docx' | 'text' | 'markdown' | 'csv' | 'image';
+
+export interface FormatInfo {
+  format: DocumentFormat;
+  label: string;
+  mimeType: string;
+  // Native formats are attached as inlineData; the rest are converted to text before sending
+  native: boolean;
+}
+
+interface FormatHandler {
+  format: DocumentFormat;
+  label: string;
+  native: boolean;
+  mimeTypes: Record<string, string>;
+}
+
+// Text is extracted by the ingestion worker (services/ingestion.worker.ts)
+const HANDLERS: FormatHandler[] = [
+  {
+    format: 'pdf',
+    label: 'PDF',
+    native: true,
+    mimeTypes: { '.pdf': 'application/pdf' }
+  },
+  {
+    format: 'docx',
+    label: 'DOCX',
+    native: false,
+    mimeTypes: { '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' }
+  },
+  {
+    format: 'text',
+    label: 'TXT',
+    native: false,
+    mimeTypes: { '.txt': 'text/plain' }
+  },
+  {
+    format: 'markdown',
+    label: 'MD',
+    native: false,
+    mimeTypes: { '.md': 'text/markdown', '.markdown': 'text/markdown' }
+  },
+  {
+    format: 'csv',
+    label: 'CSV',
+    native: false,
+    mimeTypes: { '.csv': 'text/csv' }
+  },
+  {
+    format: 'image',
+    label: 'IMG',
+    native: true,
+    mimeTypes: {
+      '.png': 'image/png',
+      '.jpg': 'image/jpeg',
+      '.jpeg': 'image/jpeg',
+      '.webp': 'image/webp',
+      '.heic': 'image/heic',
+      '.heif': 'image/heif'
+    }
+  }
+];
+
+export const ACCEPTED_EXTENSIONS = HANDLERS.flatMap(handler => Object.keys(handler.mimeTypes)).join(',');
+
+const toInfo = (handler: FormatHandler, mimeType: string): FormatInfo => ({
+  format: handler.format,
+  label: handler.label,
+  mimeType,
+  native: handler.native
+});
+
+// Browsers often leave `type` empty (e.g. for Markdown), so the extension is checked first
+export const detectFormat = (file: File): FormatInfo | null => {
+  const name = file.name.toLowerCase();
+  for (const handler of HANDLERS) {
+    const extension = Object.keys(handler.mimeTypes).find(ext => name.endsWith(ext));
+    if (extension) return toInfo(handler, handler.mimeTypes[extension]);
+  }
+  for (const handler of HANDLERS) {
+    if (Object.values(handler.mimeTypes).includes(file.type)) return toInfo(handler, file.type);
+  }
+  return null;
+};
+
+export const getFormatInfo = (mimeType: string): FormatInfo => {
+  const handler = HANDLERS.find(h => Object.values(h.mimeTypes).includes(mimeType)) ?? HANDLERS[0];
+  return toInfo(handler, mimeType);
+};
+
+export const isNativeFormat = (mimeType: string) => getFormatInfo(mimeType).native;
+
+let limitsPromise: Promise<UploadLimits> | null = null;
+
+// Fetched once; a failure is not cached so the next upload asks again
+export const getUploadLimits = (): Promise<UploadLimits> => {
+  if (!limitsPromise) {
+    limitsPromise = fetch('/api/upload-limits')
+      .then(async (response) => {
+        if (!response.ok) throw await errorFromResponse(response);
+        return response.json() as Promise<UploadLimits>;
+      })
+      .catch((error) => {
+        limitsPromise = null;
+        throw error;
+      });
+  }
+  return limitsPromise;
+};
+
+// Pages with less text than this are taken to be scanned images; the rest have a real text layer
+const MIN_PAGE_TEXT_LENGTH = 20;
+
+export const findScannedPages = (pages: string[]): number[] =>
+  pages.flatMap((text, idx) => text.trim().length < MIN_PAGE_TEXT_LENGTH ? [idx + 1] : []);
+
+// Fills in the text of PDF pages that have no text layer by running OCR on them. When recognition fails
+// the document is kept as it was, still flagged as scanned; an abort is passed on.
+export const recognizeScannedPages = async (
+  file: FileData,
+  onProgress?: (progress: OcrProgress) => void,
+  signal?: AbortSignal
+): Promise<FileData> => {
+  if (getFormatInfo(file.mimeType).format !== 'pdf' || !file.pages) return file;
+  const scannedPages = findScannedPages(file.pages);
+  if (scannedPages.length === 0) return file;
+  try {
+    const recognized = await recognizePdfPages(file, scannedPages, onProgress, signal);
+    return {
+      ...file,
+      pages: file.pages.map((text, idx) => recognized.get(idx + 1) ?? text),
+      scannedPages,
+      ocrPages: [...recognized.keys()]
+    };
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.error("OCR error:", err);
+    return { ...file, scannedPages };
+  }
+};
+
+// A file turned away before it became a document; the message is shown to the user as is
+export class RejectedFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RejectedFileError';
+  }
+}
+
+// Where a new upload sits among the documents already kept
+export type FileIdentity = Pick<FileData, 'id' | 'documentId' | 'version'>;
+
+export type IngestProgress =
+  | { stage: 'reading'; loaded: number }
+  | { stage: 'extracting' }
+  | ({ stage: 'ocr' } & OcrProgress);
+
+export interface IngestOptions {
+  signal: AbortSignal;
+  onProgress?: (progress: IngestProgress) => void;
+}
+
+// Reading, text extraction and OCR all happen while a file holds one of POOL_SIZE slots, so a large drop
+// never has more than a few files in memory at once; the rest wait their turn
+let activeCount = 0;
+const waiting: (() => void)[] = [];
+
+const acquireSlot = (signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    if (activeCount < POOL_SIZE) {
+      activeCount++;
+      return resolve();
+    }
+    const start = () => {
+      signal.removeEventListener('abort', onAbort);
+      activeCount++;
+      resolve();
+    };
+    const onAbort = () => {
+      waiting.splice(waiting.indexOf(start), 1);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    waiting.push(start);
+  });
+
+const releaseSlot = () => {
+  activeCount--;
+  waiting.shift()?.();
+};
+
+// Turns one file into a document off the main thread. `identify` is given the content hash and places
+// the file among the documents already kept, or throws RejectedFileError to turn it away.
+export const ingestFile = async (
+  file: File,
+  identify: (hash: string) => FileIdentity,
+  { signal, onProgress }: IngestOptions
+): Promise<FileData> => {
+  const format = detectFormat(file);
+  if (!format) throw new RejectedFileError('Not a supported format.');
+  await acquireSlot(signal);
+  try {
+    const { hash, pages } = await runInWorker(
+      { file, format: format.format },
+      {
+        signal,
+        onProgress: (progress) => onProgress?.(
+          progress.type === 'progress' ? { stage: 'reading', loaded: progress.loaded } : { stage: 'extracting' }
+        )
+      }
+    );
+    const fileData: FileData = {
+      ...identify(hash),
+      name: file.name,
+      mimeType: format.mimeType,
+      blob: new Blob([file], { type: format.mimeType }),
+      size: file.size,
+      hash,
+      pages,
+      uploadedAt: Date.now()
+    };
+    const document = await recognizeScannedPages(fileData, (progress) => onProgress?.({ stage: 'ocr', ...progress }), signal);
+    signal.throwIfAborted();
+    return document;
+  } finally {
+    releaseSlot();
+  }
+};
+
+// Reads a file into a new document of its own, for callers outside the workspace's version history
+export const readDocument = (file: File, options: IngestOptions): Promise<FileData> => {
+  const id = crypto.randomUUID();
+  return ingestFile(file, () => ({ id, documentId: id, version: 1 }), options);
+};
@@ -0,0 +1,58 @@
+/// <reference lib="webworker" />
+import mammoth from 'mammoth';
+import type { DocumentFormat } from './ingestion';
+import { sha256Hex } from './encoding';
+import { extractPdfPages } from './pdf';
+
+export interface IngestionTask {
+  file: File;
+  format: DocumentFormat;
+}
+
+export type IngestionMessage =
+  | { type: 'progress'; loaded: number }
+  | { type: 'extracting' }
+  | { type: 'done'; hash: string; pages?: string[] }
+  | { type: 'error'; message: string };
+
+// Small enough to report progress smoothly, large enough that slicing costs little
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+const decodeText = async (bytes: Uint8Array<ArrayBuffer>) => [new TextDecoder().decode(bytes)];
+
+// Images have no text to extract. OCR of scanned PDF pages happens later, on the page, since it draws them.
+const EXTRACTORS: Partial<Record<DocumentFormat, (bytes: Uint8Array<ArrayBuffer>) => Promise<string[]>>> = {
+  pdf: extractPdfPages,
+  docx: async (bytes) => {
+    const result = await mammoth.extractRawText({ arrayBuffer: bytes.buffer });
+    return [result.value.trim()];
+  },
+  text: decodeText,
+  markdown: decodeText,
+  csv: decodeText
+};
+
+const post = (message: IngestionMessage) => self.postMessage(message);
+
+// Reads one file in slices, fingerprints it and extracts its text. The pool sends one task at a time.
+self.onmessage = async (event: MessageEvent<IngestionTask>) => {
+  const { file, format } = event.data;
+  try {
+    const bytes = new Uint8Array(file.size);
+    for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+      const chunk = new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+      bytes.set(chunk, offset);
+      post({ type: 'progress', loaded: offset + chunk.length });
+    }
+    const hash = await sha256Hex(bytes);
+    const extract = EXTRACTORS[format];
+    if (extract) post({ type: 'extracting' });
+    const pages = extract ? await extract(bytes).catch((err): string[] | undefined => {
+      console.error("Text extraction error:", err);
+      return undefined;
+    }) : undefined;
+    post({ type: 'done', hash, pages });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
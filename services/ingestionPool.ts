@@ -0,0 +1,67 @@
+import type { IngestionMessage, IngestionTask } from './ingestion.worker';
+
+export type WorkerProgress = Extract<IngestionMessage, { type: 'progress' | 'extracting' }>;
+
+export interface WorkerResult {
+  hash: string;
+  pages?: string[];
+}
+
+// Leaves a core for the page itself; each worker holds a whole file while it works on it
+export const POOL_SIZE = Math.max(1, Math.min(3, (navigator.hardwareConcurrency || 2) - 1));
+// Idle workers are shut down after this long without a task
+const IDLE_TIMEOUT_MS = 30_000;
+
+const idle: Worker[] = [];
+let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+const spawn = () => new Worker(new URL('./ingestion.worker.ts', import.meta.url), { type: 'module' });
+
+const scheduleShutdown = () => {
+  clearTimeout(idleTimer);
+  idleTimer = setTimeout(() => idle.splice(0).forEach(worker => worker.terminate()), IDLE_TIMEOUT_MS);
+};
+
+const release = (worker: Worker) => {
+  worker.onmessage = null;
+  worker.onerror = null;
+  idle.push(worker);
+  scheduleShutdown();
+};
+
+// Runs one task on an idle worker, or a new one; callers keep at most POOL_SIZE tasks going.
+// Aborting terminates the worker mid-task rather than waiting for it to notice.
+export const runInWorker = (
+  task: IngestionTask,
+  { signal, onProgress }: { signal: AbortSignal; onProgress?: (progress: WorkerProgress) => void }
+): Promise<WorkerResult> => {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  clearTimeout(idleTimer);
+  const worker = idle.pop() ?? spawn();
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      worker.terminate();
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<IngestionMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress' || message.type === 'extracting') {
+        onProgress?.(message);
+        return;
+      }
+      signal.removeEventListener('abort', onAbort);
+      release(worker);
+      if (message.type === 'done') resolve({ hash: message.hash, pages: message.pages });
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      signal.removeEventListener('abort', onAbort);
+      worker.terminate();
+      reject(new Error(event.message || 'The file could not be read.'));
+    };
+    worker.postMessage(task);
+  });
+};
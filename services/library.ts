@@ -0,0 +1,105 @@
+import { Collection, DocumentMetadata, FileData, LibraryDocument, LibraryResponse, PublishRequest, RequestFile } from "../types";
+import { base64ToBytes, blobToBase64 } from "./encoding";
+import { errorFromResponse } from "./errors";
+import { addFiles, removeDocument, VersionedFiles, versionOf } from "./versions";
+
+const sendJson = async <T>(url: string, method: string, body?: unknown): Promise<T> => {
+  const response = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  if (!response.ok) throw await errorFromResponse(response);
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+export const fetchLibrary = async (signal?: AbortSignal): Promise<Collection[]> => {
+  const response = await fetch('/api/library', { signal });
+  if (!response.ok) throw await errorFromResponse(response);
+  const body: LibraryResponse = await response.json();
+  return body.collections;
+};
+
+export const fetchLibraryDocument = async (id: string): Promise<FileData> => {
+  const { base64, ...file } = await sendJson<RequestFile>(`/api/library/documents/${encodeURIComponent(id)}`, 'GET');
+  return { ...file, blob: new Blob([base64ToBytes(base64)], { type: file.mimeType }) };
+};
+
+export const createCollection = (name: string, description: string): Promise<Collection> =>
+  sendJson('/api/library/collections', 'POST', { name, description });
+
+export const updateCollection = (id: string, name: string, description: string): Promise<Collection> =>
+  sendJson(`/api/library/collections/${encodeURIComponent(id)}`, 'PUT', { name, description });
+
+export const deleteCollection = (id: string): Promise<void> =>
+  sendJson(`/api/library/collections/${encodeURIComponent(id)}`, 'DELETE');
+
+// The library keeps the bytes of every format, so converted documents travel whole here too
+export const publishDocument = async (collectionId: string, file: FileData, metadata: DocumentMetadata): Promise<LibraryDocument> => {
+  const { blob, ...rest } = file;
+  const request: PublishRequest = { file: { ...rest, base64: await blobToBase64(blob) }, metadata };
+  return sendJson(`/api/library/collections/${encodeURIComponent(collectionId)}/documents`, 'POST', request);
+};
+
+export const updateDocumentMetadata = (id: string, metadata: DocumentMetadata): Promise<LibraryDocument> =>
+  sendJson(`/api/library/documents/${encodeURIComponent(id)}`, 'PUT', { metadata });
+
+export const withdrawDocument = (id: string): Promise<void> =>
+  sendJson(`/api/library/documents/${encodeURIComponent(id)}`, 'DELETE');
+
+export const isCollectionAdded = (collection: Collection, files: FileData[]) =>
+  files.some(file => file.collectionId === collection.id);
+
+const sameMetadata = (a: DocumentMetadata | undefined, b: DocumentMetadata) => JSON.stringify(a ?? {}) === JSON.stringify(b);
+
+// Whether the workspace holds exactly what the collection publishes now
+export const isCollectionCurrent = (collection: Collection, files: FileData[]) =>
+  collection.documents.every(doc => files.some(file => file.id === doc.id && sameMetadata(file.metadata, doc.metadata))) &&
+  files.every(file => file.collectionId !== collection.id || collection.documents.some(doc => doc.id === file.id));
+
+// Brings the collection's documents into the workspace, or up to date with it. A republished document
+// becomes the next version of the one it replaces; a withdrawn one leaves the workspace with its versions.
+export const syncCollection = async (collection: Collection, current: VersionedFiles): Promise<VersionedFiles> => {
+  const stored = [...current.files, ...current.inactive];
+  const missing = collection.documents.filter(doc => !stored.some(file => file.id === doc.id));
+  const fetched = await Promise.all(missing.map(doc => fetchLibraryDocument(doc.id)));
+  const added = addFiles(current, fetched.sort((a, b) => versionOf(a) - versionOf(b)));
+
+  const published = new Map(collection.documents.map(doc => [doc.id, doc]));
+  const withdrawn = added.files.filter(file => file.collectionId === collection.id && !published.has(file.id));
+  const next = withdrawn.reduce(removeDocument, added);
+  return {
+    files: next.files.map(file => {
+      const doc = published.get(file.id);
+      return doc ? { ...file, metadata: doc.metadata } : file;
+    }),
+    inactive: next.inactive
+  };
+};
+
+// Takes the collection's documents, and their older versions, out of the workspace
+export const removeCollection = (collectionId: string, current: VersionedFiles): VersionedFiles =>
+  current.files.filter(file => file.collectionId === collectionId).reduce(removeDocument, current);
+
+const SEARCH_FIELDS: Record<string, (file: FileData) => (string | undefined)[]> = {
+  name: file => [file.name],
+  title: file => [file.metadata?.title],
+  dept: file => [file.metadata?.department],
+  department: file => [file.metadata?.department],
+  tag: file => file.metadata?.tags ?? [],
+  effective: file => [file.metadata?.effectiveDate]
+};
+
+// Every word has to match the name or one of the metadata fields. "field:value" looks in one field only,
+// e.g. dept:finance, tag:policy or effective:2024 (effective dates match from the start).
+export const matchesDocumentSearch = (file: FileData, query: string): boolean =>
+  query.toLowerCase().split(/\s+/).filter(Boolean).every(term => {
+    const [, field, value] = term.match(/^(\w+):(.*)$/) ?? [];
+    const fieldValues = field && SEARCH_FIELDS[field];
+    if (fieldValues) {
+      return fieldValues(file).some(text => text !== undefined && (
+        field === 'effective' ? text.startsWith(value) : text.toLowerCase().includes(value)
+      ));
+    }
+    return Object.values(SEARCH_FIELDS).some(values => values(file).some(text => text?.toLowerCase().includes(term)));
+  });
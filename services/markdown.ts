@@ -0,0 +1,20 @@
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+marked.setOptions({ gfm: true, breaks: true });
+
+// Answers can echo text lifted from uploaded documents, so every link opens in a new tab
+// without access to this window, and anything script-like is stripped by DOMPurify.
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A') {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+export const renderMarkdown = (markdown: string): string =>
+  DOMPurify.sanitize(marked.parse(markdown, { async: false }), {
+    USE_PROFILES: { html: true },
+    FORBID_TAGS: ['style', 'form', 'input', 'button', 'iframe', 'img'],
+    FORBID_ATTR: ['style']
+  });
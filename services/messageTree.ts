@@ -0,0 +1,75 @@
+import { ChatMessage, ChatThread } from "../types";
+
+// The visible conversation: the path from the root to the active leaf
+export const getBranch = (thread: ChatThread): ChatMessage[] => {
+  const byId = new Map(thread.messages.map(msg => [msg.id, msg]));
+  const branch: ChatMessage[] = [];
+  for (let msg = thread.activeLeafId ? byId.get(thread.activeLeafId) : undefined; msg; msg = msg.parentId ? byId.get(msg.parentId) : undefined) {
+    branch.push(msg);
+  }
+  return branch.reverse();
+};
+
+// Alternatives to a message, itself included, oldest first
+export const getSiblings = (thread: ChatThread, message: ChatMessage): ChatMessage[] =>
+  thread.messages.filter(msg => msg.parentId === message.parentId);
+
+// Most recently created message below `messageId`, so switching branches returns to where that branch left off
+export const findLatestLeaf = (thread: ChatThread, messageId: string): string => {
+  const children = new Map<string, ChatMessage[]>();
+  thread.messages.forEach(msg => {
+    if (msg.parentId) children.set(msg.parentId, [...(children.get(msg.parentId) ?? []), msg]);
+  });
+
+  let latest = thread.messages.find(msg => msg.id === messageId);
+  const stack = [...(children.get(messageId) ?? [])];
+  while (stack.length > 0) {
+    const msg = stack.pop()!;
+    if (!latest || msg.timestamp >= latest.timestamp) latest = msg;
+    stack.push(...(children.get(msg.id) ?? []));
+  }
+  return latest?.id ?? messageId;
+};
+
+// Adds a message under `parentId` and makes it the end of the visible branch
+export const appendMessage = (thread: ChatThread, message: Omit<ChatMessage, 'parentId'>, parentId: string | undefined): ChatThread => ({
+  ...thread,
+  messages: [...thread.messages, { ...message, parentId }],
+  activeLeafId: message.id
+});
+
+export const updateMessage = (
+  thread: ChatThread,
+  messageId: string,
+  updater: (message: ChatMessage) => ChatMessage
+): ChatThread => ({
+  ...thread,
+  messages: thread.messages.map(msg => msg.id === messageId ? updater(msg) : msg)
+});
+
+// Threads saved before branching held a flat `history`; it becomes a single branch
+type LegacyThread = Omit<ChatThread, 'messages'> & {
+  messages?: ChatMessage[];
+  history?: Omit<ChatMessage, 'id'>[];
+  summary?: { text: string; coveredCount: number; throughId?: string };
+};
+
+export const threadFromHistory = (history: Omit<ChatMessage, 'id'>[]): Pick<ChatThread, 'messages' | 'activeLeafId'> => {
+  const messages: ChatMessage[] = [];
+  history.forEach(msg => {
+    messages.push({ ...msg, id: crypto.randomUUID(), parentId: messages[messages.length - 1]?.id });
+  });
+  return { messages, activeLeafId: messages[messages.length - 1]?.id };
+};
+
+export const upgradeThread = (thread: LegacyThread): ChatThread => {
+  if (thread.messages) return thread as ChatThread;
+  const { history = [], summary, ...rest } = thread;
+  const tree = threadFromHistory(history);
+  const throughId = summary ? tree.messages[summary.coveredCount - 1]?.id : undefined;
+  return {
+    ...rest,
+    ...tree,
+    summary: summary && throughId ? { text: summary.text, coveredCount: summary.coveredCount, throughId } : undefined
+  };
+};
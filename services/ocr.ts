@@ -0,0 +1,122 @@
+import { createWorker, OEM } from 'tesseract.js';
+import type { Worker } from 'tesseract.js';
+// Served with the app rather than from a CDN, so scanned documents are read without leaving the network
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import simdCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import plainCoreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import englishUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import { FileData } from '../types';
+import { loadPdfDocument } from './pdf';
+
+export interface OcrProgress {
+  // Position among the pages being recognised, from 1
+  page: number;
+  total: number;
+  // Share of the current page done, 0 to 1
+  pageProgress: number;
+}
+
+// Tesseract reads best at around 300 DPI; larger pages are scaled down to keep the canvas small
+const OCR_DPI = 300;
+const MAX_CANVAS_SIDE = 5000;
+// The engine holds a lot of memory, so it is shut down when no page has come in for a while
+const IDLE_TIMEOUT_MS = 60_000;
+
+let workerPromise: Promise<Worker> | null = null;
+let idleTimer: ReturnType<typeof setTimeout> | undefined;
+let pending: Promise<unknown> = Promise.resolve();
+// Jobs run one at a time, so engine progress always belongs to the current one
+let reportProgress: ((progress: number) => void) | null = null;
+
+// A minimal module using a SIMD instruction, the same probe tesseract.js runs when it picks a core itself
+const SIMD_PROBE = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11]);
+
+// The SIMD build is much faster; browsers without WebAssembly SIMD get the plain one
+const coreUrl = () => WebAssembly.validate(SIMD_PROBE) ? simdCoreUrl : plainCoreUrl;
+
+// Started on first use; a failure is not cached so the next document tries again
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    workerPromise = (async () => {
+      const response = await fetch(englishUrl);
+      if (!response.ok) throw new Error(`OCR language data responded with status ${response.status}`);
+      const data = new Uint8Array(await response.arrayBuffer());
+      return createWorker([{ code: 'eng', data }], OEM.LSTM_ONLY, {
+        workerPath: workerUrl,
+        corePath: coreUrl(),
+        workerBlobURL: false,
+        cacheMethod: 'none',
+        logger: (message) => {
+          if (message.status === 'recognizing text') reportProgress?.(message.progress);
+        }
+      });
+    })().catch((error) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+};
+
+const scheduleShutdown = () => {
+  clearTimeout(idleTimer);
+  idleTimer = setTimeout(() => {
+    const worker = workerPromise;
+    workerPromise = null;
+    worker?.then(w => w.terminate()).catch(() => undefined);
+  }, IDLE_TIMEOUT_MS);
+};
+
+const recognizeCanvas = (canvas: HTMLCanvasElement, onProgress: (progress: number) => void): Promise<string> => {
+  const job = pending.then(async () => {
+    clearTimeout(idleTimer);
+    reportProgress = onProgress;
+    try {
+      const worker = await getWorker();
+      const { data } = await worker.recognize(canvas);
+      return data.text.replace(/[ \t]+/g, ' ').trim();
+    } finally {
+      reportProgress = null;
+      scheduleShutdown();
+    }
+  });
+  pending = job.catch(() => undefined);
+  return job;
+};
+
+// Recognises the text of the given 1-based PDF pages, rendering one page at a time. Aborting stops
+// before the next page; the page already with the engine is finished first.
+export const recognizePdfPages = async (
+  file: FileData,
+  pageNumbers: number[],
+  onProgress?: (progress: OcrProgress) => void,
+  signal?: AbortSignal
+): Promise<Map<number, string>> => {
+  const doc = await loadPdfDocument(file);
+  const recognized = new Map<number, string>();
+  try {
+    for (const [index, pageNumber] of pageNumbers.entries()) {
+      signal?.throwIfAborted();
+      const report = (pageProgress: number) => onProgress?.({ page: index + 1, total: pageNumbers.length, pageProgress });
+      report(0);
+      const page = await doc.getPage(pageNumber);
+      const unscaled = page.getViewport({ scale: 1 });
+      const scale = Math.min(OCR_DPI / 72, MAX_CANVAS_SIDE / Math.max(unscaled.width, unscaled.height));
+      const viewport = page.getViewport({ scale });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+      page.cleanup();
+
+      recognized.set(pageNumber, await recognizeCanvas(canvas, report));
+      report(1);
+      // Lets the browser free the bitmap before the next page is drawn
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+    return recognized;
+  } finally {
+    doc.destroy();
+  }
+};
@@ -0,0 +1,84 @@
+import { getDocument, GlobalWorkerOptions, Util } from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy, PageViewport } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { FileData } from '../types';
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+export interface HighlightRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// pdf.js transfers the buffer to its worker, so every load gets a fresh copy of the bytes
+export const loadPdfDocument = async (file: FileData): Promise<PDFDocumentProxy> =>
+  getDocument({ data: new Uint8Array(await file.blob.arrayBuffer()) }).promise;
+
+// Reads the text layer of every page; image-only pages come back as empty strings. Runs in the ingestion
+// worker, so it takes the bytes rather than a document; pdf.js takes them over.
+export const extractPdfPages = async (data: Uint8Array<ArrayBuffer>): Promise<string[]> => {
+  const doc = await getDocument({ data }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const page = await doc.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('');
+      pages.push(text.replace(/[ \t]+/g, ' ').trim());
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    doc.destroy();
+  }
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ');
+
+// Locates a quoted passage on a page and returns viewport-space boxes for the text runs it spans.
+// Quotes from the model are not always verbatim, so the opening words are tried if the full quote is missing.
+export const findQuoteRects = async (
+  page: PDFPageProxy,
+  viewport: PageViewport,
+  quote: string
+): Promise<HighlightRect[]> => {
+  const content = await page.getTextContent();
+  const items = content.items.filter((item): item is TextItem => 'str' in item);
+
+  // Build the page text with single spaces while remembering which span each text run covers
+  let pageText = '';
+  const ranges = items.map((item) => {
+    let piece = normalize(item.str + (item.hasEOL ? ' ' : ''));
+    if (pageText.endsWith(' ') && piece.startsWith(' ')) piece = piece.slice(1);
+    const start = pageText.length;
+    pageText += piece;
+    return { start, end: pageText.length };
+  });
+
+  const needle = normalize(quote).trim();
+  const candidates = [needle, needle.split(' ').slice(0, 8).join(' ')];
+  const match = candidates
+    .filter(candidate => candidate.length >= 4)
+    .map(candidate => ({ index: pageText.indexOf(candidate), length: candidate.length }))
+    .find(result => result.index >= 0);
+  if (!match) return [];
+
+  const matchEnd = match.index + match.length;
+  return items
+    .filter((_item, idx) => ranges[idx].start < matchEnd && ranges[idx].end > match.index)
+    .map((item) => {
+      const tx = Util.transform(viewport.transform, item.transform);
+      const height = Math.hypot(tx[2], tx[3]);
+      return {
+        left: tx[4],
+        top: tx[5] - height,
+        width: item.width * viewport.scale,
+        height
+      };
+    });
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { FileData } from '../types';
+import { buildIndex, chunkFile, searchIndex, selectContext, tokenize, TOP_K_CHUNKS, WHOLE_FILE_MAX_COUNT } from './retrieval';
+
+const file = (name: string, pages?: string[], size = 1000): FileData => ({
+  id: name,
+  name,
+  mimeType: 'application/pdf',
+  blob: new Blob(),
+  size,
+  pages
+});
+
+const words = (count: number, prefix = 'word') => Array.from({ length: count }, (_v, i) => `${prefix}${i}`).join(' ');
+
+describe('tokenize', () => {
+  it('lowercases and drops stopwords, single characters and punctuation', () => {
+    expect(tokenize('The Tenant shall pay a deposit, and 12 % interest!')).toEqual(['tenant', 'pay', 'deposit', '12', 'interest']);
+  });
+
+  it('keeps letters outside ASCII', () => {
+    expect(tokenize('Kündigung der Wohnung')).toEqual(['kündigung', 'der', 'wohnung']);
+  });
+});
+
+describe('chunkFile', () => {
+  it('splits long pages into overlapping windows that stay on their page', () => {
+    const chunks = chunkFile(file('lease.pdf', [words(500), 'short second page']));
+    expect(chunks.map(chunk => [chunk.page, chunk.id])).toEqual([
+      [1, 'lease.pdf:1:0'],
+      [1, 'lease.pdf:1:180'],
+      [1, 'lease.pdf:1:360'],
+      [2, 'lease.pdf:2:0']
+    ]);
+    // Consecutive windows share 40 words
+    expect(chunks[1].text.startsWith('word180 ')).toBe(true);
+    expect(chunks[0].text.endsWith(' word219')).toBe(true);
+    expect(chunks[2].text.endsWith(' word499')).toBe(true);
+  });
+
+  it('skips empty pages and files without text', () => {
+    expect(chunkFile(file('scan.pdf', ['', '   ', 'text']))).toHaveLength(1);
+    expect(chunkFile(file('photo.png'))).toEqual([]);
+  });
+});
+
+describe('searchIndex', () => {
+  const index = buildIndex([
+    ...chunkFile(file('lease.pdf', ['The tenant pays the deposit before moving in.'])),
+    ...chunkFile(file('policy.pdf', ['Insurance covers fire and flood damage to the building.'])),
+    ...chunkFile(file('notice.pdf', ['Notice of termination must be given in writing. Termination takes effect after three months.']))
+  ]);
+
+  it('ranks the chunks that share terms with the query', () => {
+    expect(searchIndex(index, 'When does termination take effect?').map(chunk => chunk.fileName)).toEqual(['notice.pdf']);
+    expect(searchIndex(index, 'deposit or flood').map(chunk => chunk.fileName).sort()).toEqual(['lease.pdf', 'policy.pdf']);
+  });
+
+  it('returns nothing for a query without matching terms', () => {
+    expect(searchIndex(index, 'parking')).toEqual([]);
+    expect(searchIndex(index, 'the and with')).toEqual([]);
+  });
+
+  it('respects the limit', () => {
+    expect(searchIndex(index, 'deposit flood termination', 2)).toHaveLength(2);
+  });
+
+  it('works on an empty index', () => {
+    expect(searchIndex(buildIndex([]), 'anything')).toEqual([]);
+  });
+});
+
+describe('selectContext', () => {
+  it('sends a small set of files whole', () => {
+    const files = [file('a.pdf', ['alpha'])];
+    expect(selectContext(files, 'alpha')).toEqual({ files, chunks: [] });
+  });
+
+  it('narrows a large set to excerpts and keeps files without text whole', () => {
+    const files = [
+      ...Array.from({ length: WHOLE_FILE_MAX_COUNT }, (_v, i) => file(`filler${i}.pdf`, [`unrelated text ${i}`])),
+      file('target.pdf', ['The warranty lasts two years.']),
+      file('scan.png')
+    ];
+    const context = selectContext(files, 'How long is the warranty?');
+    expect(context.files.map(f => f.name)).toEqual(['scan.png']);
+    expect(context.chunks.map(chunk => chunk.fileName)).toEqual(['target.pdf']);
+  });
+
+  it('falls back to the first excerpts when nothing matches', () => {
+    const files = Array.from({ length: WHOLE_FILE_MAX_COUNT + 10 }, (_v, i) => file(`doc${i}.pdf`, [`text ${i}`]));
+    const context = selectContext(files, 'parking');
+    expect(context.chunks).toHaveLength(TOP_K_CHUNKS);
+    expect(context.chunks[0].fileName).toBe('doc0.pdf');
+  });
+});
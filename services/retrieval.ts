@@ -0,0 +1,124 @@
+import { DocumentChunk, FileData } from "../types";
+
+// Whole-file mode is used while the document set stays under both limits
+export const WHOLE_FILE_MAX_COUNT = 5;
+export const WHOLE_FILE_MAX_BYTES = 10 * 1024 * 1024;
+export const TOP_K_CHUNKS = 12;
+
+const CHUNK_WORDS = 220;
+const CHUNK_OVERLAP_WORDS = 40;
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'with', 'that', 'this', 'from', 'have', 'has', 'had',
+  'not', 'but', 'all', 'any', 'can', 'may', 'shall', 'will', 'what', 'which', 'who', 'whom', 'when',
+  'where', 'how', 'why', 'its', 'their', 'there', 'into', 'about', 'been', 'being', 'than', 'then',
+  'these', 'those', 'such', 'other', 'our', 'your', 'you', 'they', 'them', 'his', 'her', 'also', 'does'
+]);
+
+export interface RetrievalIndex {
+  chunks: DocumentChunk[];
+  termFrequencies: Map<string, number>[];
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? ([] as string[])).filter(token => token.length > 1 && !STOPWORDS.has(token));
+
+// Splits each page into overlapping word windows so no chunk crosses a page boundary
+export const chunkFile = (file: FileData): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  (file.pages ?? []).forEach((pageText, pageIndex) => {
+    const words = pageText.split(/\s+/).filter(Boolean);
+    for (let start = 0; start < words.length; start += CHUNK_WORDS - CHUNK_OVERLAP_WORDS) {
+      chunks.push({
+        id: `${file.id}:${pageIndex + 1}:${start}`,
+        fileId: file.id,
+        fileName: file.name,
+        page: pageIndex + 1,
+        text: words.slice(start, start + CHUNK_WORDS).join(' ')
+      });
+      if (start + CHUNK_WORDS >= words.length) break;
+    }
+  });
+  return chunks;
+};
+
+export const buildIndex = (chunks: DocumentChunk[]): RetrievalIndex => {
+  const documentFrequency = new Map<string, number>();
+  const termFrequencies = chunks.map((chunk) => {
+    const frequencies = new Map<string, number>();
+    tokenize(chunk.text).forEach(token => frequencies.set(token, (frequencies.get(token) ?? 0) + 1));
+    frequencies.forEach((_count, token) => documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1));
+    return frequencies;
+  });
+  const lengths = termFrequencies.map(frequencies => {
+    let total = 0;
+    frequencies.forEach(count => { total += count; });
+    return total;
+  });
+  const averageLength = lengths.reduce((acc, length) => acc + length, 0) / Math.max(lengths.length, 1);
+
+  return { chunks, termFrequencies, lengths, documentFrequency, averageLength };
+};
+
+export const searchIndex = (index: RetrievalIndex, query: string, limit = TOP_K_CHUNKS): DocumentChunk[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const total = index.chunks.length;
+
+  const scored = index.chunks.map((chunk, i) => {
+    const frequencies = index.termFrequencies[i];
+    const lengthNorm = 1 - B + B * (index.lengths[i] / (index.averageLength || 1));
+    let score = 0;
+    queryTerms.forEach(term => {
+      const tf = frequencies.get(term);
+      if (!tf) return;
+      const df = index.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (K1 + 1)) / (tf + K1 * lengthNorm);
+    });
+    return { chunk, score };
+  });
+
+  return scored
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(result => result.chunk);
+};
+
+export const shouldSendWholeFiles = (files: FileData[]) =>
+  files.length <= WHOLE_FILE_MAX_COUNT &&
+  files.reduce((acc, file) => acc + file.size, 0) <= WHOLE_FILE_MAX_BYTES;
+
+const hasText = (file: FileData) => !!file.pages?.some(page => page.trim().length > 0);
+
+const chunkCache = new Map<string, DocumentChunk[]>();
+
+const getChunks = (file: FileData) => {
+  let chunks = chunkCache.get(file.id);
+  if (!chunks) {
+    chunks = chunkFile(file);
+    chunkCache.set(file.id, chunks);
+  }
+  return chunks;
+};
+
+// Decides what context accompanies a question: small sets go whole, larger sets are
+// narrowed to the best-matching excerpts. Files without a text layer are always sent whole.
+export const selectContext = (files: FileData[], query: string): { files: FileData[]; chunks: DocumentChunk[] } => {
+  if (shouldSendWholeFiles(files)) return { files, chunks: [] };
+
+  const textFiles = files.filter(hasText);
+  const index = buildIndex(textFiles.flatMap(getChunks));
+  const ranked = searchIndex(index, query);
+  return {
+    files: files.filter(file => !hasText(file)),
+    chunks: ranked.length > 0 ? ranked : index.chunks.slice(0, TOP_K_CHUNKS)
+  };
+};
@@ -0,0 +1,39 @@
+import { FileData } from "../types";
+
+// Finds `@filename` mentions. Names can contain spaces, so each known name is matched
+// as a whole rather than tokenizing the input; longer names win over their prefixes.
+export const findMentionedFiles = (text: string, files: FileData[]): FileData[] => {
+  const lower = text.toLowerCase();
+  return [...files]
+    .sort((a, b) => b.name.length - a.name.length)
+    .filter((file, _idx, sorted) => {
+      const mention = `@${file.name.toLowerCase()}`;
+      let index = lower.indexOf(mention);
+      while (index >= 0) {
+        const shadowedByLonger = sorted.some(other =>
+          other.name.length > file.name.length && lower.startsWith(`@${other.name.toLowerCase()}`, index)
+        );
+        if (!shadowedByLonger) return true;
+        index = lower.indexOf(mention, index + 1);
+      }
+      return false;
+    });
+};
+
+// The fragment being typed after an `@`, if the caret sits inside a mention
+export const getMentionQuery = (text: string, caret: number): { start: number; query: string } | null => {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('@');
+  if (start < 0 || (start > 0 && !/\s/.test(before[start - 1]))) return null;
+  const query = before.slice(start + 1);
+  if (query.includes('\n') || query.length > 80) return null;
+  return { start, query };
+};
+
+// Mentions take precedence over the sidebar checkboxes; with neither, every document is in scope
+export const resolveScope = (files: FileData[], selectedFileIds: string[], question: string): FileData[] => {
+  const mentioned = findMentionedFiles(question, files);
+  if (mentioned.length > 0) return files.filter(file => mentioned.includes(file));
+  const selected = files.filter(file => selectedFileIds.includes(file.id));
+  return selected.length > 0 ? selected : files;
+};
@@ -0,0 +1,302 @@
+import { DocumentMetadata, FileData, ChatMessage, PromptTemplate, UsageRecord, Workspace } from "../types";
+import { createWorkspace } from "./workspaces";
+import { threadFromHistory, upgradeThread } from "./messageTree";
+
+// Each signed-in user has a database of their own, named after this prefix and their id
+const DB_NAME = 'pmad-ai-assistant';
+const DB_VERSION = 1;
+const FILES_STORE = 'files';
+const STATE_STORE = 'state';
+
+interface StoredFile {
+  id: string;
+  name: string;
+  // Missing on records saved before non-PDF formats were supported
+  mimeType?: string;
+  size: number;
+  blob: Blob;
+  pages?: string[];
+  hash?: string;
+  documentId?: string;
+  version?: number;
+  uploadedAt?: number;
+  collectionId?: string;
+  metadata?: DocumentMetadata;
+  scannedPages?: number[];
+  ocrPages?: number[];
+}
+
+export interface StoredSession {
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+export class StorageQuotaError extends Error {
+  constructor(message = "Local storage is full. New documents will not survive a reload.") {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+let dbName: string | null = null;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error);
+    tx.onerror = () => reject(tx.error);
+  });
+
+// Documents and conversations stored before sign-in existed sit in the unscoped database. They belong to
+// whoever used the browser then, so the first user to sign in takes them over and that database is removed.
+const adoptUnscopedData = async (db: IDBDatabase) => {
+  const unscoped = await promisify(indexedDB.open(DB_NAME));
+  try {
+    if (unscoped.objectStoreNames.contains(FILES_STORE) && unscoped.objectStoreNames.contains(STATE_STORE)) {
+      const source = unscoped.transaction([FILES_STORE, STATE_STORE], 'readonly');
+      const [files, keys, values] = await Promise.all([
+        promisify(source.objectStore(FILES_STORE).getAll()),
+        promisify(source.objectStore(STATE_STORE).getAllKeys()),
+        promisify(source.objectStore(STATE_STORE).getAll())
+      ]);
+      const target = db.transaction([FILES_STORE, STATE_STORE], 'readwrite');
+      files.forEach(file => target.objectStore(FILES_STORE).put(file));
+      keys.forEach((key, idx) => target.objectStore(STATE_STORE).put(values[idx], key));
+      await completion(target);
+    }
+  } finally {
+    unscoped.close();
+  }
+  // Not awaited: another open tab would hold the deletion back until it closes
+  indexedDB.deleteDatabase(DB_NAME);
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbName) return Promise.reject(new Error('No user is signed in.'));
+  if (!dbPromise) {
+    const name = dbName;
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION);
+      let created = false;
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        created = event.oldVersion === 0;
+        if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STATE_STORE)) db.createObjectStore(STATE_STORE);
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        if (!created) return resolve(db);
+        adoptUnscopedData(db)
+          .catch((err) => console.error("Could not take over data stored before sign-in:", err))
+          .then(() => resolve(db));
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Points storage at the signed-in user's database; nothing is read or written before this is called.
+// Another person signing in on the same browser gets an empty workspace rather than the previous user's.
+export const openUserStorage = (userId: string) => {
+  const name = `${DB_NAME}:${userId}`;
+  if (name === dbName) return;
+  dbPromise?.then(db => db.close()).catch(() => undefined);
+  dbPromise = null;
+  dbName = name;
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Runs a readwrite transaction and resolves once it commits, translating quota failures
+const write = async (stores: string[], work: (tx: IDBTransaction) => void): Promise<void> => {
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(stores, 'readwrite');
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+    tx.onerror = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+    work(tx);
+  });
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// Sessions saved before workspaces existed hold a single file list and history; they become the first workspace
+const migrateLegacySession = (fileOrder: string[] | undefined, history: Omit<ChatMessage, 'id'>[] | undefined): Workspace => {
+  const workspace = createWorkspace('My Workspace', fileOrder ?? []);
+  workspace.threads[0] = { ...workspace.threads[0], ...threadFromHistory(history ?? []) };
+  return workspace;
+};
+
+export const loadSession = async (): Promise<StoredSession> => {
+  const db = await openDb();
+  const store = db.transaction(STATE_STORE, 'readonly').objectStore(STATE_STORE);
+  const [workspaces, activeWorkspaceId, fileOrder, history] = await Promise.all([
+    promisify(store.get('workspaces') as IDBRequest<Workspace[] | undefined>),
+    promisify(store.get('activeWorkspaceId') as IDBRequest<string | undefined>),
+    promisify(store.get('fileOrder') as IDBRequest<string[] | undefined>),
+    promisify(store.get('history') as IDBRequest<Omit<ChatMessage, 'id'>[] | undefined>),
+  ]);
+
+  const restored = workspaces?.length
+    ? workspaces.map(ws => ({ ...ws, threads: ws.threads.map(upgradeThread) }))
+    : [migrateLegacySession(fileOrder, history)];
+  const active = restored.find(ws => ws.id === activeWorkspaceId) ?? restored[0];
+  return { workspaces: restored, activeWorkspaceId: active.id };
+};
+
+export const loadFiles = async (ids: string[]): Promise<FileData[]> => {
+  const db = await openDb();
+  const store = db.transaction(FILES_STORE, 'readonly').objectStore(FILES_STORE);
+  const stored = await Promise.all(ids.map(id => promisify(store.get(id) as IDBRequest<StoredFile | undefined>)));
+
+  return stored
+    .filter((file): file is StoredFile => !!file)
+    .map((file) => ({
+      id: file.id,
+      name: file.name,
+      mimeType: file.mimeType ?? 'application/pdf',
+      size: file.size,
+      blob: file.blob,
+      pages: file.pages,
+      hash: file.hash,
+      documentId: file.documentId,
+      version: file.version,
+      uploadedAt: file.uploadedAt,
+      collectionId: file.collectionId,
+      metadata: file.metadata,
+      scannedPages: file.scannedPages,
+      ocrPages: file.ocrPages
+    }));
+};
+
+// Only writes documents that are not stored yet; blobs are shared between workspaces.
+// Library documents are the exception in one respect: curators can change their metadata later.
+export const saveFiles = async (files: FileData[]): Promise<void> => {
+  const db = await openDb();
+  const storedIds = new Set(
+    await promisify(db.transaction(FILES_STORE, 'readonly').objectStore(FILES_STORE).getAllKeys()) as string[]
+  );
+  const added = files.filter(file => !storedIds.has(file.id));
+  const published = files.filter(file => file.collectionId && storedIds.has(file.id));
+  if (added.length === 0 && published.length === 0) return;
+
+  const estimate = added.length > 0 ? await getStorageEstimate() : null;
+  const incomingBytes = added.reduce((acc, file) => acc + file.size, 0);
+  if (estimate && estimate.quota > 0 && estimate.usage + incomingBytes > estimate.quota) {
+    throw new StorageQuotaError();
+  }
+
+  await write([FILES_STORE], (tx) => {
+    const store = tx.objectStore(FILES_STORE);
+    added.forEach(file => {
+      const record: StoredFile = {
+        id: file.id,
+        name: file.name,
+        mimeType: file.mimeType,
+        size: file.size,
+        blob: file.blob,
+        pages: file.pages,
+        hash: file.hash,
+        documentId: file.documentId,
+        version: file.version,
+        uploadedAt: file.uploadedAt,
+        collectionId: file.collectionId,
+        metadata: file.metadata,
+        scannedPages: file.scannedPages,
+        ocrPages: file.ocrPages
+      };
+      store.put(record);
+    });
+    published.forEach(file => {
+      const request = store.get(file.id) as IDBRequest<StoredFile | undefined>;
+      request.onsuccess = () => {
+        const record = request.result;
+        if (record && JSON.stringify(record.metadata) !== JSON.stringify(file.metadata)) {
+          store.put({ ...record, metadata: file.metadata });
+        }
+      };
+    });
+  });
+};
+
+// Deletes stored documents that no workspace references any more
+export const pruneFiles = async (workspaces: Workspace[]): Promise<void> => {
+  const referenced = new Set(workspaces.flatMap(ws => [...ws.fileIds, ...(ws.inactiveFileIds ?? [])]));
+  const db = await openDb();
+  const storedIds = await promisify(db.transaction(FILES_STORE, 'readonly').objectStore(FILES_STORE).getAllKeys()) as string[];
+  const orphaned = storedIds.filter(id => !referenced.has(id));
+  if (orphaned.length === 0) return;
+
+  await write([FILES_STORE], (tx) => {
+    const store = tx.objectStore(FILES_STORE);
+    orphaned.forEach(id => store.delete(id));
+  });
+};
+
+export const saveWorkspaces = async (workspaces: Workspace[], activeWorkspaceId: string): Promise<void> => {
+  await write([STATE_STORE], (tx) => {
+    const store = tx.objectStore(STATE_STORE);
+    store.put(workspaces, 'workspaces');
+    store.put(activeWorkspaceId, 'activeWorkspaceId');
+    store.delete('fileOrder');
+    store.delete('history');
+  });
+};
+
+export const loadUsage = async (): Promise<UsageRecord[]> => {
+  const db = await openDb();
+  const store = db.transaction(STATE_STORE, 'readonly').objectStore(STATE_STORE);
+  return (await promisify(store.get('usage') as IDBRequest<UsageRecord[] | undefined>)) ?? [];
+};
+
+// The usage log outlives threads and workspaces so deleting a conversation does not hide what it cost
+export const appendUsage = async (record: UsageRecord): Promise<void> => {
+  await write([STATE_STORE], (tx) => {
+    const store = tx.objectStore(STATE_STORE);
+    const request = store.get('usage') as IDBRequest<UsageRecord[] | undefined>;
+    request.onsuccess = () => store.put([...(request.result ?? []), record], 'usage');
+  });
+};
+
+// Undefined until the library is first saved, so the built-in templates can be offered
+export const loadTemplates = async (): Promise<PromptTemplate[] | undefined> => {
+  const db = await openDb();
+  const store = db.transaction(STATE_STORE, 'readonly').objectStore(STATE_STORE);
+  return promisify(store.get('templates') as IDBRequest<PromptTemplate[] | undefined>);
+};
+
+export const saveTemplates = async (templates: PromptTemplate[]): Promise<void> => {
+  await write([STATE_STORE], (tx) => {
+    tx.objectStore(STATE_STORE).put(templates, 'templates');
+  });
+};
+
+export const clearAllLocalData = async (): Promise<void> => {
+  await write([FILES_STORE, STATE_STORE], (tx) => {
+    tx.objectStore(FILES_STORE).clear();
+    tx.objectStore(STATE_STORE).clear();
+  });
+};
@@ -0,0 +1,69 @@
+import { FileData, PromptTemplate } from "../types";
+import { downloadBlob } from "./export";
+
+// Filled with a document picker rather than free text; the choice becomes an @-mention
+export const DOCUMENT_VARIABLE = 'document';
+
+export const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  { id: 'default-summary', name: 'Key points', text: 'Summarize the key points from {{document}}.' },
+  {
+    id: 'default-deadlines',
+    name: 'Dates and deadlines',
+    text: 'Find specific dates and deadlines mentioned in {{document}} between {{date range}}.'
+  },
+  {
+    id: 'default-obligations',
+    name: 'Obligations',
+    text: 'List every obligation {{document}} places on {{party}}, quoting the clause each comes from.'
+  },
+  { id: 'default-definition', name: 'Definition', text: 'How does {{document}} define "{{term}}"?' }
+];
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// Variable names in order of first appearance
+export const getTemplateVariables = (text: string): string[] =>
+  [...new Set([...text.matchAll(VARIABLE_PATTERN)].map(match => match[1]))];
+
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (_match, name: string) => values[name] ?? '');
+
+// Mentions scope the question to the picked document; an empty pick leaves the scope to the sidebar
+export const documentVariableValue = (file: FileData | undefined) =>
+  file ? `@${file.name}` : 'the documents';
+
+interface TemplateFile {
+  version: 1;
+  templates: { name: string; text: string }[];
+}
+
+export const exportTemplates = (templates: PromptTemplate[]) => {
+  const payload: TemplateFile = {
+    version: 1,
+    templates: templates.map(({ name, text }) => ({ name, text }))
+  };
+  downloadBlob(JSON.stringify(payload, null, 2), 'prompt-templates.json', 'application/json');
+};
+
+// Accepts an exported file or a bare array; templates already in the library are skipped
+export const importTemplates = (json: string, existing: PromptTemplate[]): PromptTemplate[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : (parsed as Partial<TemplateFile> | null)?.templates;
+  if (!Array.isArray(entries)) throw new Error('The file does not contain a list of templates.');
+
+  const valid = entries.filter((entry): entry is { name: string; text: string } =>
+    typeof entry?.name === 'string' && entry.name.trim() !== '' && typeof entry?.text === 'string' && entry.text.trim() !== ''
+  );
+  if (valid.length === 0) throw new Error('No templates with a name and text were found.');
+
+  const known = new Set(existing.map(template => `${template.name}\n${template.text}`));
+  return valid
+    .filter(entry => !known.has(`${entry.name.trim()}\n${entry.text.trim()}`))
+    .map(entry => ({ id: crypto.randomUUID(), name: entry.name.trim(), text: entry.text.trim() }));
+};
@@ -0,0 +1,71 @@
+import { UsageRecord } from "../types";
+import { downloadBlob } from "./export";
+import { csvCell } from "../csv";
+
+export type UsageGrouping = 'workspace' | 'day' | 'documents';
+
+export interface UsageTotals {
+  key: string;
+  requests: number;
+  promptTokens: number;
+  responseTokens: number;
+  cost: number;
+  // Some of the counts were estimated rather than reported by the provider
+  estimated: boolean;
+}
+
+// Local calendar day, so a late-evening request is not booked on the next day
+const dayOf = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const keyOf = (record: UsageRecord, grouping: UsageGrouping): string => {
+  switch (grouping) {
+    case 'workspace':
+      return record.workspaceName;
+    case 'day':
+      return dayOf(record.timestamp);
+    case 'documents':
+      return record.documents.length > 0 ? [...record.documents].sort().join(', ') : '(no documents)';
+  }
+};
+
+// Days are listed newest first, everything else by cost
+export const aggregateUsage = (records: UsageRecord[], grouping: UsageGrouping): UsageTotals[] => {
+  const totals = new Map<string, UsageTotals>();
+  records.forEach(record => {
+    const key = keyOf(record, grouping);
+    const entry = totals.get(key) ?? { key, requests: 0, promptTokens: 0, responseTokens: 0, cost: 0, estimated: false };
+    entry.requests += 1;
+    entry.promptTokens += record.usage.promptTokens;
+    entry.responseTokens += record.usage.responseTokens;
+    entry.cost += record.usage.cost;
+    entry.estimated = entry.estimated || record.usage.estimated;
+    totals.set(key, entry);
+  });
+
+  const rows = [...totals.values()];
+  return grouping === 'day'
+    ? rows.sort((a, b) => b.key.localeCompare(a.key))
+    : rows.sort((a, b) => b.cost - a.cost || b.promptTokens - a.promptTokens);
+};
+
+export const formatCost = (cost: number) =>
+  cost === 0 ? '$0.00' : cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+
+const GROUPING_HEADERS: Record<UsageGrouping, string> = {
+  workspace: 'Workspace',
+  day: 'Day',
+  documents: 'Document set'
+};
+
+export const toUsageCsv = (rows: UsageTotals[], grouping: UsageGrouping): string => [
+  [GROUPING_HEADERS[grouping], 'Requests', 'Prompt tokens', 'Response tokens', 'Estimated cost (USD)', 'Includes estimates'],
+  ...rows.map(row => [row.key, row.requests, row.promptTokens, row.responseTokens, row.cost.toFixed(6), row.estimated])
+].map(cells => cells.map(csvCell).join(',')).join('\n');
+
+export const exportUsageCsv = (records: UsageRecord[], grouping: UsageGrouping) => {
+  const date = dayOf(Date.now());
+  downloadBlob(toUsageCsv(aggregateUsage(records, grouping), grouping), `usage-by-${grouping}-${date}.csv`, 'text/csv');
+};
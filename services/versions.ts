@@ -0,0 +1,72 @@
+import { FileData } from "../types";
+
+// The documents used for questions, one version each, and the other stored versions of them
+export interface VersionedFiles {
+  files: FileData[];
+  inactive: FileData[];
+}
+
+export const documentIdOf = (file: FileData) => file.documentId ?? file.id;
+
+export const versionOf = (file: FileData) => file.version ?? 1;
+
+// Every stored version of the file's document, newest first
+export const getVersions = (file: FileData, all: FileData[]): FileData[] =>
+  all
+    .filter(other => documentIdOf(other) === documentIdOf(file))
+    .sort((a, b) => versionOf(b) - versionOf(a));
+
+export type UploadMatch =
+  | { kind: 'duplicate'; of: FileData }
+  | { kind: 'version'; documentId: string; version: number }
+  | { kind: 'new' };
+
+// The same bytes as any stored version is a duplicate whatever the name; a known name with new bytes is
+// that document's next version. Files stored before uploads were hashed fall back to matching name and size.
+export const matchUpload = (name: string, size: number, hash: string, all: FileData[]): UploadMatch => {
+  const duplicate = all.find(file => file.hash ? file.hash === hash : file.name === name && file.size === size);
+  if (duplicate) return { kind: 'duplicate', of: duplicate };
+
+  const sameName = all.find(file => file.name === name);
+  if (!sameName) return { kind: 'new' };
+  return { kind: 'version', documentId: documentIdOf(sameName), version: versionOf(getVersions(sameName, all)[0]) + 1 };
+};
+
+// A new version takes its document's place in the list and becomes active; the one it replaces is kept
+export const addFiles = ({ files, inactive }: VersionedFiles, added: FileData[]): VersionedFiles => {
+  const nextFiles = [...files];
+  const nextInactive = [...inactive];
+  added.forEach(file => {
+    const index = nextFiles.findIndex(existing => documentIdOf(existing) === documentIdOf(file));
+    if (index === -1) {
+      nextFiles.push(file);
+    } else {
+      nextInactive.push(nextFiles[index]);
+      nextFiles[index] = file;
+    }
+  });
+  return { files: nextFiles, inactive: nextInactive };
+};
+
+// Swaps a stored version in for the one currently used for questions
+export const activateVersion = ({ files, inactive }: VersionedFiles, fileId: string): VersionedFiles => {
+  const target = inactive.find(file => file.id === fileId);
+  if (!target) return { files, inactive };
+  const current = files.find(file => documentIdOf(file) === documentIdOf(target));
+  return {
+    files: current ? files.map(file => file === current ? target : file) : [...files, target],
+    inactive: [...inactive.filter(file => file !== target), ...(current ? [current] : [])]
+  };
+};
+
+// Removes a document together with every version of it
+export const removeDocument = ({ files, inactive }: VersionedFiles, file: FileData): VersionedFiles => ({
+  files: files.filter(other => documentIdOf(other) !== documentIdOf(file)),
+  inactive: inactive.filter(other => documentIdOf(other) !== documentIdOf(file))
+});
+
+// Removes one stored version that is not in use
+export const removeVersion = ({ files, inactive }: VersionedFiles, fileId: string): VersionedFiles => ({
+  files,
+  inactive: inactive.filter(file => file.id !== fileId)
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { BatchRun, ExtractionTable, Workspace } from '../types';
+import { createWorkspace, duplicateWorkspace } from './workspaces';
+
+describe('duplicateWorkspace', () => {
+  const batch: BatchRun = { id: 'run', name: 'Checks', questions: ['Term?'], fileIds: ['doc'], cells: [], createdAt: 1 };
+  const table: ExtractionTable = { id: 'table', name: 'Leases', fields: [], rows: [], createdAt: 1 };
+  const workspace: Workspace = {
+    ...createWorkspace('Leases', ['doc']),
+    inactiveFileIds: ['old'],
+    selectedFileIds: ['doc'],
+    modelSelection: { provider: 'openai', model: 'llama-3' },
+    systemInstruction: 'Answer as a paralegal.',
+    batches: [batch],
+    extractions: [table]
+  };
+
+  it('keeps the documents, settings, batches and extraction tables', () => {
+    const copy = duplicateWorkspace(workspace, 'Leases (copy)');
+    expect(copy).toMatchObject({
+      name: 'Leases (copy)',
+      fileIds: ['doc'],
+      inactiveFileIds: ['old'],
+      selectedFileIds: ['doc'],
+      modelSelection: { provider: 'openai', model: 'llama-3' },
+      systemInstruction: 'Answer as a paralegal.',
+      batches: [{ ...batch, id: expect.any(String) }],
+      extractions: [{ ...table, id: expect.any(String) }]
+    });
+  });
+
+  it('gives the copy and everything in it ids of its own', () => {
+    const copy = duplicateWorkspace(workspace, 'Leases (copy)');
+    expect(copy.id).not.toBe(workspace.id);
+    expect(copy.threads[0].id).not.toBe(workspace.threads[0].id);
+    expect(copy.activeThreadId).toBe(copy.threads[0].id);
+    expect(copy.batches?.[0].id).not.toBe(batch.id);
+    expect(copy.extractions?.[0].id).not.toBe(table.id);
+    expect(copy.fileIds).not.toBe(workspace.fileIds);
+  });
+});
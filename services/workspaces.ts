@@ -0,0 +1,62 @@
+import { ChatThread, ModelSelection, ProviderInfo, Workspace } from "../types";
+
+export const DEFAULT_THREAD_TITLE = 'New conversation';
+
+export const createThread = (): ChatThread => ({
+  id: crypto.randomUUID(),
+  title: DEFAULT_THREAD_TITLE,
+  messages: [],
+  createdAt: Date.now()
+});
+
+export const createWorkspace = (name: string, fileIds: string[] = []): Workspace => {
+  const thread = createThread();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    fileIds,
+    threads: [thread],
+    activeThreadId: thread.id,
+    createdAt: Date.now()
+  };
+};
+
+// Copies the document references, settings, threads, batches and extraction tables; stored file blobs are
+// shared, not duplicated
+export const duplicateWorkspace = (workspace: Workspace, name: string): Workspace => {
+  const threads = workspace.threads.map(thread => ({ ...thread, id: crypto.randomUUID() }));
+  const activeIndex = workspace.threads.findIndex(thread => thread.id === workspace.activeThreadId);
+  return {
+    id: crypto.randomUUID(),
+    name,
+    fileIds: [...workspace.fileIds],
+    inactiveFileIds: workspace.inactiveFileIds && [...workspace.inactiveFileIds],
+    selectedFileIds: workspace.selectedFileIds && [...workspace.selectedFileIds],
+    modelSelection: workspace.modelSelection && { ...workspace.modelSelection },
+    systemInstruction: workspace.systemInstruction,
+    threads,
+    batches: workspace.batches?.map(run => ({ ...run, id: crypto.randomUUID() })),
+    extractions: workspace.extractions?.map(table => ({ ...table, id: crypto.randomUUID() })),
+    activeThreadId: threads[Math.max(activeIndex, 0)].id,
+    createdAt: Date.now()
+  };
+};
+
+export const getActiveThread = (workspace: Workspace): ChatThread =>
+  workspace.threads.find(thread => thread.id === workspace.activeThreadId) ?? workspace.threads[0];
+
+// The workspace's saved choice if the server still offers it, otherwise the server default
+export const getModelSelection = (
+  workspace: Workspace | undefined,
+  providers: ProviderInfo[],
+  defaultProviderId: string
+): ModelSelection | null => {
+  const saved = workspace?.modelSelection;
+  if (saved && providers.some(p => p.id === saved.provider && p.models.includes(saved.model))) return saved;
+  const fallback = providers.find(p => p.id === defaultProviderId) ?? providers[0];
+  return fallback ? { provider: fallback.id, model: fallback.models[0] } : null;
+};
+
+// Names a thread after its first question so the sidebar list stays readable
+export const titleFromQuestion = (question: string) =>
+  question.length > 48 ? `${question.slice(0, 45).trimEnd()}...` : question;
@@ -1,14 +1,205 @@
 
+// A document as the browser keeps it; the bytes stay binary until a request needs them
 export interface FileData {
+  id: string;
   name: string;
-  base64: string;
+  mimeType: string;
+  blob: Blob;
   size: number;
+  // Text per page, extracted once at upload; absent for images and unparseable PDFs
+  pages?: string[];
+  // SHA-256 of the uploaded bytes, hex; absent on documents stored before uploads were hashed
+  hash?: string;
+  // Shared by every version of one document (the first version's id); absent means the file's own id
+  documentId?: string;
+  // 1 for the first upload of a document, counting up with each revision
+  version?: number;
+  uploadedAt?: number;
+  // Set on documents taken from a shared library collection, whose library id is also the file's id
+  collectionId?: string;
+  metadata?: DocumentMetadata;
+  // 1-based PDF pages without a text layer, and those of them whose text in `pages` was recognised by OCR
+  scannedPages?: number[];
+  ocrPages?: number[];
+}
+
+// A document as it travels between the browser and the server
+export interface RequestFile extends Omit<FileData, 'blob'> {
+  // Empty when a converted (non-native) document is sent to the server as text only
+  base64: string;
+}
+
+// Sizes the browser accepts for upload, set on the server
+export interface UploadLimits {
+  maxFileBytes: number;
+  // All documents of a workspace together, older versions included
+  maxTotalBytes: number;
+}
+
+// Descriptive fields a curator gives a library document; the sidebar search matches them
+export interface DocumentMetadata {
+  title?: string;
+  department?: string;
+  // YYYY-MM-DD
+  effectiveDate?: string;
+  tags?: string[];
+}
+
+// A retrievable excerpt of an uploaded document, keeping its file/page provenance
+export interface DocumentChunk {
+  id: string;
+  fileId: string;
+  fileName: string;
+  page: number;
+  text: string;
+}
+
+export interface Citation {
+  fileName: string;
+  page?: number;
+  quote: string;
+}
+
+// Which document the viewer should show, and where
+export interface ViewerTarget {
+  fileName: string;
+  // A specific stored version; without it the version in use under `fileName` is shown
+  fileId?: string;
+  page?: number;
+  quote?: string;
 }
 
 export interface ChatMessage {
+  id: string;
+  // The message this one follows; messages sharing a parent are alternative branches
+  parentId?: string;
   role: 'user' | 'model';
   content: string;
   timestamp: number;
+  isStreaming?: boolean;
+  stopped?: boolean;
+  citations?: Citation[];
+  // Names of the documents a question was asked against
+  scope?: string[];
+  // Model that produced an answer
+  model?: string;
+  // Sampling temperature of a regenerated answer; unset means the server default
+  temperature?: number;
+  usage?: TokenUsage;
+  // Set on a question whose answer could not be produced, so it can be retried
+  error?: RequestFailure;
+}
+
+// Rolling summary standing in for the oldest messages of a long thread
+export interface ConversationSummary {
+  text: string;
+  // Number of messages from the start of the branch folded into `text`
+  coveredCount: number;
+  // Last message folded in; the summary only applies to branches running through it
+  throughId: string;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  // Every message of every branch, in the order they were created
+  messages: ChatMessage[];
+  // Last message of the branch on screen; the conversation is the path from the root to it
+  activeLeafId?: string;
+  summary?: ConversationSummary;
+  createdAt: number;
+}
+
+export type BatchCellStatus = 'pending' | 'done' | 'failed';
+
+// One question asked of one document in a batch run
+export interface BatchCell {
+  // The document's id (see FileData.documentId), so answers carry over to its newer versions
+  fileId: string;
+  questionIndex: number;
+  status: BatchCellStatus;
+  answer?: string;
+  citations?: Citation[];
+  error?: RequestFailure;
+}
+
+// A question set asked of each document separately; finished cells are kept so an interrupted run resumes
+export interface BatchRun {
+  id: string;
+  name: string;
+  questions: string[];
+  // Document ids; runs created before documents had versions hold file ids, which resolve the same way
+  fileIds: string[];
+  cells: BatchCell[];
+  createdAt: number;
+}
+
+export type ExtractionFieldType = 'string' | 'number' | 'date' | 'boolean' | 'list';
+
+// One column of a user-defined extraction schema
+export interface ExtractionField {
+  id: string;
+  name: string;
+  type: ExtractionFieldType;
+  // Tells the model what to look for, e.g. "Date the notice period ends"
+  description: string;
+  required: boolean;
+}
+
+// Dates are ISO `YYYY-MM-DD` strings; null means the document does not say
+export type ExtractionValue = string | number | boolean | string[] | null;
+
+// Where in the document a value was found; `field` is the field's id
+export interface ExtractionCitation extends Citation {
+  field: string;
+}
+
+export interface ExtractionIssue {
+  fieldId: string;
+  message: string;
+}
+
+export type ExtractionRowStatus = 'pending' | 'done' | 'invalid' | 'failed';
+
+// The fields extracted from one document
+export interface ExtractionRow {
+  fileId: string;
+  status: ExtractionRowStatus;
+  // Keyed by field id
+  values: Record<string, ExtractionValue>;
+  citations?: ExtractionCitation[];
+  // Validation problems left after the last attempt or edit
+  issues?: ExtractionIssue[];
+  // Fields corrected by hand, which re-running the row leaves alone
+  editedFieldIds?: string[];
+  error?: RequestFailure;
+}
+
+export interface ExtractionTable {
+  id: string;
+  name: string;
+  fields: ExtractionField[];
+  rows: ExtractionRow[];
+  createdAt: number;
+}
+
+// A named research dossier: its own document set plus any number of chat threads
+export interface Workspace {
+  id: string;
+  name: string;
+  fileIds: string[];
+  // Other versions of those documents, kept for history but not used for questions
+  inactiveFileIds?: string[];
+  // Documents ticked in the sidebar; empty means every document is in scope
+  selectedFileIds?: string[];
+  modelSelection?: ModelSelection;
+  // Instruction given to the model for every question in this workspace; empty means the server default
+  systemInstruction?: string;
+  threads: ChatThread[];
+  batches?: BatchRun[];
+  extractions?: ExtractionTable[];
+  activeThreadId: string;
+  createdAt: number;
 }
 
 export interface GeminiPart {
@@ -23,3 +214,283 @@ export interface GeminiContent {
   role: 'user' | 'model';
   parts: GeminiPart[];
 }
+
+// Reusable question with `{{variable}}` placeholders
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  text: string;
+}
+
+export interface ModelSelection {
+  provider: string;
+  model: string;
+}
+
+export interface ProviderInfo {
+  id: string;
+  label: string;
+  models: string[];
+}
+
+export interface CountTokensResponse {
+  totalTokens: number;
+  // True when the provider has no token counting API and the figure is a character-based estimate
+  estimated: boolean;
+  // Price of sending these tokens, in US dollars
+  cost: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+  // True when the provider reported no counts and they were estimated from the text length
+  estimated: boolean;
+  // In US dollars at the server's configured prices; 0 for models without a price
+  cost: number;
+}
+
+// One billed model call, kept in the local usage log
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  kind: 'answer' | 'summary' | 'extraction' | 'comparison';
+  workspaceId: string;
+  workspaceName: string;
+  provider: string;
+  model: string;
+  // Names of the documents the question was asked against
+  documents: string[];
+  usage: TokenUsage;
+}
+
+// A passage that differs between two revisions of a document, located in both
+export interface DiffHunk {
+  id: number;
+  kind: 'added' | 'removed' | 'changed';
+  before: string;
+  beforePage?: number;
+  after: string;
+  afterPage?: number;
+}
+
+export interface CompareRequest {
+  baseName: string;
+  revisedName: string;
+  hunks: DiffHunk[];
+  systemInstruction?: string;
+  provider?: string;
+  model?: string;
+}
+
+// A group of related changes, usually one section or article of the document
+export interface ChangeSection {
+  title: string;
+  summary: string;
+  hunkIds: number[];
+}
+
+export interface CompareResponse {
+  sections: ChangeSection[];
+  usage?: TokenUsage;
+}
+
+export interface AskRequest {
+  // Documents attached whole (small sets, or files without a text layer)
+  files: RequestFile[];
+  // Top-ranked excerpts used instead of whole files for large sets
+  chunks: DocumentChunk[];
+  // Recent messages sent verbatim; anything older is represented by `summary`
+  history: ChatMessage[];
+  summary?: string;
+  question: string;
+  // Replaces the server's default role and ground rules; the citation format always applies
+  systemInstruction?: string;
+  // Overrides the provider's default sampling temperature
+  temperature?: number;
+  // Falls back to the server's default provider and that provider's first model
+  provider?: string;
+  model?: string;
+}
+
+export interface ExtractRequest {
+  // The document to read, sent the same way as for a question
+  files: RequestFile[];
+  fields: Pick<ExtractionField, 'name' | 'type' | 'description' | 'required'>[];
+  // Validation problems with the previous attempt, for the model to correct
+  corrections?: string[];
+  systemInstruction?: string;
+  provider?: string;
+  model?: string;
+}
+
+// Values and citations keyed by field name, exactly as the model returned them; the client validates them
+export interface ExtractResponse {
+  values: Record<string, unknown>;
+  citations: (Citation & { field: string })[];
+  usage?: TokenUsage;
+}
+
+export interface AskResponse {
+  answer: string;
+  citations: Citation[];
+  usage?: TokenUsage;
+}
+
+export interface SummarizeRequest {
+  previousSummary?: string;
+  messages: ChatMessage[];
+  provider?: string;
+  model?: string;
+}
+
+export interface SummarizeResponse {
+  summary: string;
+  usage?: TokenUsage;
+}
+
+// What went wrong with a model request, as classified by the server
+export type ErrorKind =
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'auth'
+  | 'quota'
+  | 'payload_too_large'
+  | 'safety'
+  | 'timeout'
+  | 'network'
+  | 'unavailable'
+  | 'unknown';
+
+export interface RequestFailure {
+  kind: ErrorKind;
+  message: string;
+}
+
+// Body of every non-2xx API response
+export interface ApiErrorBody {
+  error: string;
+  kind?: ErrorKind;
+}
+
+export type AnswerStreamPiece =
+  | { type: 'chunk'; text: string }
+  | { type: 'citations'; citations: Citation[] }
+  | { type: 'usage'; usage: TokenUsage };
+
+export type AskStreamEvent =
+  | AnswerStreamPiece
+  | { type: 'done' }
+  | { type: 'error'; message: string; kind: ErrorKind };
+
+// Each role can do everything the roles before it can
+export type Role = 'viewer' | 'curator' | 'admin';
+
+export interface AuthUser {
+  // The identity provider's subject, or the chosen name in the dev stand-in
+  id: string;
+  name: string;
+  email?: string;
+  role: Role;
+}
+
+// Shared by the server's route guards and the client's menus, so both rank the roles the same way
+export const ROLE_RANK: Record<Role, number> = { viewer: 0, curator: 1, admin: 2 };
+
+export const hasRole = (user: AuthUser, role: Role) => ROLE_RANK[user.role] >= ROLE_RANK[role];
+
+// 'dev' is the local stand-in where anyone can sign in under any name and role
+export type AuthMode = 'oidc' | 'dev';
+
+export interface SessionResponse {
+  mode: AuthMode;
+  user: AuthUser | null;
+}
+
+export interface DevLoginRequest {
+  name: string;
+  email?: string;
+  role: Role;
+}
+
+export type AuditAction = 'ask' | 'extract' | 'compare';
+
+export interface AuditDocument {
+  name: string;
+  sha256?: string;
+}
+
+// One line of the server's append-only audit log
+export interface AuditEntry {
+  id: string;
+  timestamp: number;
+  userId: string;
+  userName: string;
+  email?: string;
+  role: Role;
+  action: AuditAction;
+  documents: AuditDocument[];
+  question: string;
+  // SHA-256 of the answer exactly as returned; absent when the request failed
+  answerHash?: string;
+  error?: ErrorKind;
+  provider: string;
+  model: string;
+  // SHA-256 of the previous line, so a changed or deleted entry breaks the chain
+  previousHash: string;
+}
+
+export interface AuditQuery {
+  user?: string;
+  action?: AuditAction;
+  // Matches the question or a document name
+  text?: string;
+  from?: number;
+  to?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditQueryResponse {
+  // Newest first
+  entries: AuditEntry[];
+  total: number;
+  // False when an entry no longer matches the hash recorded by the one after it
+  intact: boolean;
+}
+
+// A published document, without its content
+export interface LibraryDocument {
+  id: string;
+  collectionId: string;
+  // Shared by every revision published under the same name, as on FileData
+  documentId: string;
+  version: number;
+  name: string;
+  mimeType: string;
+  size: number;
+  hash: string;
+  metadata: DocumentMetadata;
+  publishedBy: string;
+  publishedAt: number;
+}
+
+// A named set of documents curators maintain on the server for everyone to use
+export interface Collection {
+  id: string;
+  name: string;
+  description?: string;
+  documents: LibraryDocument[];
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LibraryResponse {
+  collections: Collection[];
+}
+
+export interface PublishRequest {
+  file: RequestFile;
+  metadata: DocumentMetadata;
+}
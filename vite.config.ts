@@ -11,13 +11,13 @@ export default defineConfig(({ mode }) => {
 
   return {
     plugins: [react()],
-    define: {
-      // This injects the API_KEY into the code where process.env.API_KEY is used
-      'process.env.API_KEY': JSON.stringify(env.API_KEY)
-    },
     server: {
       port: 3000,
-      host: true
+      host: true,
+      proxy: {
+        // The API key stays on the Node server (see server/index.ts); the dev client only forwards /api calls to it
+        '/api': `http://localhost:${env.PORT || 8787}`
+      }
     }
   };
 });